@@ -10,22 +10,17 @@ import { Logger } from '../utils/logger.js';
 import { MappingService } from '../utils/mapping.service.js';
 import { AutotaskCredentials, TenantContext } from '../types/mcp.js';
 import { PaginatedResponse, PAGINATION_CONFIG } from '../types/autotask.js';
+import { fanOut, FanOutOptions, FanOutToolResult, MAX_FAN_OUT_TENANTS } from '../services/fan-out.service.js';
+import { enrichRecords } from '../services/enrichment.service.js';
 
 /**
- * Format a paginated response for AI agent consumption
- * Includes mandatory "Showing X of Y" pattern
+ * Pagination status block placed above a search tool's results
  */
-function formatPaginatedResult<T>(
-  paginatedResponse: PaginatedResponse<T>,
-  _toolName: string
-): McpToolResult {
-  const { items, _paginationStatus, _nextAction } = paginatedResponse;
-  
-  // Build the response content with mandatory pagination status at the TOP
-  const parts: string[] = [];
+function formatPaginationHeader<T>(paginatedResponse: PaginatedResponse<T>): string {
+  const { _paginationStatus, _nextAction } = paginatedResponse;
   
   // CRITICAL: Pagination status MUST be first for AI agent to see immediately
-  parts.push(_paginationStatus);
+  const parts: string[] = [_paginationStatus];
   
   if (_nextAction) {
     parts.push(`\n${_nextAction}`);
@@ -34,13 +29,21 @@ function formatPaginatedResult<T>(
   // Add separator
   parts.push('\n' + '='.repeat(60) + '\n');
   
-  // Add the actual data
-  parts.push(JSON.stringify(items, null, 2));
-  
+  return parts.join('\n');
+}
+
+/**
+ * Format a paginated response for AI agent consumption
+ * Includes mandatory "Showing X of Y" pattern
+ */
+function formatPaginatedResult<T>(
+  paginatedResponse: PaginatedResponse<T>,
+  _toolName: string
+): McpToolResult {
   return {
     content: [{
       type: 'text',
-      text: parts.join('\n')
+      text: `${formatPaginationHeader(paginatedResponse)}\n${JSON.stringify(paginatedResponse.items, null, 2)}`
     }],
     isError: false
   };
@@ -141,12 +144,40 @@ export const TOOL_NAMES = {
   // Generic Tools
   QUERY_ENTITY: 'query_entity',
   GET_ENTITY: 'get_entity',
+  COUNT_ENTITIES: 'count_entities',
+  GET_CHANGES_SINCE: 'get_changes_since',
+  
+  // Metadata tools
+  GET_ENTITY_FIELDS: 'get_entity_fields',
+  GET_PICKLIST: 'get_picklist',
+  
+  // Cross-tenant tools
+  FAN_OUT: 'fan_out',
   
   // Managed Services Tools
   GET_COMPANY_CATEGORIES: 'get_company_categories',
   FIND_CLIENTS_BY_CATEGORY: 'find_clients_by_category'
 } as const;
 
+/**
+ * Autotask entity behind each entity name accepted by the generic tools
+ */
+const ENTITY_NAMES: Record<string, string> = {
+  'companies': 'Companies',
+  'contacts': 'Contacts',
+  'tickets': 'Tickets',
+  'projects': 'Projects',
+  'resources': 'Resources',
+  'tasks': 'Tasks',
+  'contracts': 'Contracts',
+  'quotes': 'Quotes',
+  'invoices': 'Invoices',
+  'timeentries': 'TimeEntries',
+  'configurationitems': 'ConfigurationItems',
+  'expensereports': 'ExpenseReports',
+  'opportunities': 'Opportunities'
+};
+
 /**
  * Read-only tools that don't modify data
  */
@@ -174,6 +205,11 @@ export const READ_ONLY_TOOLS = [
   //TOOL_NAMES.SEARCH_CONFIGURATION_ITEMS,
   TOOL_NAMES.QUERY_ENTITY,
   TOOL_NAMES.GET_ENTITY,
+  TOOL_NAMES.COUNT_ENTITIES,
+  TOOL_NAMES.GET_CHANGES_SINCE,
+  TOOL_NAMES.GET_ENTITY_FIELDS,
+  TOOL_NAMES.GET_PICKLIST,
+  TOOL_NAMES.FAN_OUT,
   TOOL_NAMES.GET_COMPANIES_PAGE,
   TOOL_NAMES.GET_TICKET_BY_NUMBER,
   TOOL_NAMES.GET_COMPANY_CATEGORIES,
@@ -275,9 +311,10 @@ export class EnhancedAutotaskToolHandler {
   // Common tenant schema for all tools
   private static readonly TENANT_SCHEMA = {
     type: 'object',
-    description: 'Tenant authentication credentials (for multi-tenant mode)',
+    description: 'Tenant authentication (for multi-tenant mode): either tenantId + accessKey for a registered tenant, or username + secret + integrationCode',
     properties: {
       tenantId: { type: 'string', description: 'Unique tenant identifier' },
+      accessKey: { type: 'string', description: 'Access key issued by the tenant registry (replaces username/secret/integrationCode)' },
       username: { type: 'string', description: 'Autotask API username' },
       secret: { type: 'string', description: 'Autotask API secret' },
       integrationCode: { type: 'string', description: 'Autotask integration code' },
@@ -285,8 +322,19 @@ export class EnhancedAutotaskToolHandler {
       sessionId: { type: 'string', description: 'Optional session identifier' },
       impersonationResourceId: { type: 'number', description: 'Optional resource ID to impersonate for this request' },
       mode: { type: 'string', enum: ['read', 'write'], description: 'Access mode: "read" for read-only operations, "write" for full access (default: write)' }
-    },
-    required: ['username', 'secret', 'integrationCode']
+    }
+  } as const;
+
+  // Continuation token for paginated search tools
+  private static readonly CURSOR_SCHEMA = {
+    type: 'string',
+    description: 'Continuation token from the previous page\'s pagination status (nextCursor). Fetches the next page of the same query; filters, page and pageSize are taken from the cursor. Use it instead of page numbers to walk large result sets.'
+  } as const;
+
+  // Optional idempotency key for create tools
+  private static readonly IDEMPOTENCY_KEY_SCHEMA = {
+    type: 'string',
+    description: 'Optional unique key for this create. Repeating a call with the same key returns the original result instead of creating a duplicate, and allows the server to retry the create after transient failures.'
   } as const;
 
   /**
@@ -307,6 +355,7 @@ export class EnhancedAutotaskToolHandler {
         type: 'object',
         properties: {
           ...properties,
+          ...(operationType === 'write' && { _idempotencyKey: EnhancedAutotaskToolHandler.IDEMPOTENCY_KEY_SCHEMA }),
           _tenant: EnhancedAutotaskToolHandler.TENANT_SCHEMA
         },
         ...(required.length > 0 ? { required } : {})
@@ -476,7 +525,7 @@ export class EnhancedAutotaskToolHandler {
   private generateSearchGuidance(searchType: string, resultCount: number, responseSizeKB: number): string {
     const suggestions: Record<string, string[]> = {
       tickets: [
-        'Use `status` parameter to filter by ticket status (e.g., status: 1 for New, 5 for Complete)',
+        'Use `status` parameter to filter by ticket status (e.g., status: 1 for New, 5 for Complete - get_picklist lists every status)',
         'Add `companyID` to search tickets for a specific company',
         'Add `projectID` to search tickets for a specific project',
         'Add `contractID` to search tickets for a specific contract',
@@ -544,10 +593,67 @@ export class EnhancedAutotaskToolHandler {
     return this.mappingService;
   }
 
+  /**
+   * Add resolved names and picklist labels to records' `_enhanced` - the one enrichment step every tool uses.
+   * Names are resolved in batched lookups per type; labels come from the tenant's cached picklists.
+   */
+  private async enrich<T>(entity: string, records: T[], tenantContext?: TenantContext): Promise<T[]> {
+    if (records.length === 0) {
+      return records;
+    }
+    let named = records;
+    try {
+      named = await enrichRecords(await this.getMappingService(), entity, records, tenantContext);
+    } catch (error) {
+      this.logger.warn(`Could not resolve ${entity} names:`, error instanceof Error ? error.message : error);
+    }
+    return this.autotaskService.addPicklistLabels(entity, named, tenantContext);
+  }
+
+  private async enrichPage<T>(entity: string, page: PaginatedResponse<T>, tenantContext?: TenantContext): Promise<PaginatedResponse<T>> {
+    return { ...page, items: await this.enrich(entity, page.items, tenantContext) };
+  }
+
+  /**
+   * Fetch resources in chunked `id in [...]` queries and summarize them by ID.
+   * IDs that don't exist are left out; if the lookup fails they are all marked unknown.
+   */
+  private async getResourceSummaries(resourceIds: number[], tenantContext?: TenantContext): Promise<Map<number, any>> {
+    const summaries = new Map<number, any>();
+    try {
+      const resources = await this.autotaskService.getEntitiesByIds<any>('Resources', resourceIds, undefined, tenantContext);
+      for (const resource of resources) {
+        summaries.set(resource.id, {
+          id: resource.id,
+          firstName: resource.firstName,
+          lastName: resource.lastName,
+          userName: resource.userName,
+          email: resource.email,
+          title: resource.title,
+          department: resource.department
+        });
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to fetch ${resourceIds.length} resources:`, error);
+      for (const resourceId of resourceIds) {
+        summaries.set(resourceId, {
+          id: resourceId,
+          firstName: 'Unknown',
+          lastName: `Resource ${resourceId}`,
+          userName: `resource_${resourceId}`,
+          email: null,
+          title: null,
+          department: null
+        });
+      }
+    }
+    return summaries;
+  }
+
   /**
    * Extract tenant context from tool arguments
    */
-  private extractTenantContext(args: Record<string, any>): TenantContext | undefined {
+  extractTenantContext(args: Record<string, any>): TenantContext | undefined {
      
 
     // Check if tenant credentials are provided in the arguments
@@ -555,6 +661,26 @@ export class EnhancedAutotaskToolHandler {
       const tenantData = args._tenant || args.tenant || args.credentials;
        
       
+      // Registered tenant: credentials are resolved server-side from the tenant registry
+      if (tenantData.tenantId && tenantData.accessKey && !tenantData.secret) {
+        const tenantContext: TenantContext = {
+          tenantId: tenantData.tenantId,
+          accessKey: tenantData.accessKey,
+          sessionId: tenantData.sessionId,
+          impersonationResourceId: tenantData.impersonationResourceId,
+          mode: tenantData.mode || 'write' // Default to write mode if not specified
+        };
+
+        this.logger.info('✅ Successfully extracted registered tenant context', {
+          tenantId: tenantContext.tenantId,
+          sessionId: tenantContext.sessionId,
+          impersonationResourceId: tenantContext.impersonationResourceId,
+          mode: tenantContext.mode
+        });
+
+        return tenantContext;
+      }
+
       if (tenantData.username && tenantData.secret && tenantData.integrationCode) {
         const credentials: AutotaskCredentials = {
           username: tenantData.username,
@@ -629,6 +755,28 @@ export class EnhancedAutotaskToolHandler {
     return false;
   }
 
+  /**
+   * Clamp page sizes to a policy limit. Search tools fetch everything when pageSize is omitted,
+   * so under a limit they get a single page instead.
+   */
+  private applyMaxPageSize(toolName: string, args: Record<string, any>, maxPageSize: number): Record<string, any> {
+    const limited = { ...args };
+    for (const [key, value] of Object.entries(args)) {
+      if (/pagesize$/i.test(key) && typeof value === 'number' && value > maxPageSize) {
+        limited[key] = maxPageSize;
+      }
+    }
+
+    const isPagedTool = toolName.startsWith('search_') ||
+      toolName === TOOL_NAMES.QUERY_ENTITY ||
+      toolName === TOOL_NAMES.GET_COMPANIES_PAGE ||
+      toolName === TOOL_NAMES.FIND_CLIENTS_BY_CATEGORY;
+    if (isPagedTool && typeof limited.pageSize !== 'number') {
+      limited.pageSize = maxPageSize;
+    }
+    return limited;
+  }
+
   /**
    * Get the operation type for a tool
    */
@@ -712,7 +860,8 @@ FAILURE TO RETRIEVE ALL PAGES BEFORE ANALYSIS = TASK FAILURE`,
             description: 'Items per page (max 200, default 100). Larger values = fewer calls needed. API limit is 500 per call, so pageSize=200 with page=1,2 gets 400 items.',
             minimum: 1,
             maximum: 200
-          }
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
       EnhancedAutotaskToolHandler.createTool(
@@ -845,6 +994,7 @@ FAILURE TO RETRIEVE ALL PAGES BEFORE ANALYSIS = TASK FAILURE`,
                   maximum: 200,
                   default: 100
                 },
+                cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA,
                 page: {
                   type: 'number',
                   description: 'Page number (1-based, default=1). Use to retrieve additional data when "Showing X of Y" shows X < Y.',
@@ -949,12 +1099,12 @@ FAILURE TO RETRIEVE ALL PAGES BEFORE ANALYSIS = TASK FAILURE`,
             description: 'Search by ticket number (T20250914.0008) or title content (partial match).'
           },
           status: {
-            type: 'number',
-            description: 'Filter by status: 1=New, 2=In Progress, 5=Complete, 8=On Hold, 9=Escalate.'
+            type: ['number', 'string'],
+            description: 'Filter by status ID. Autotask defaults: 1=New, 5=Complete, 7=Waiting Customer, 8=In Progress, 9=Waiting Materials, 10=Dispatched. Statuses vary per database - use get_picklist (entity: tickets, field: status) for the real list. A label (e.g. "Waiting Customer") is also accepted.'
           },
           priority: {
-            type: 'number',
-            description: 'Filter by priority: 1=Critical, 2=High, 3=Medium, 4=Low.'
+            type: ['number', 'string'],
+            description: 'Filter by priority: 1=Critical, 2=High, 3=Medium, 4=Low. A label such as "High" is also accepted.'
           },
           companyID: {
             type: 'number',
@@ -1002,7 +1152,8 @@ FAILURE TO RETRIEVE ALL PAGES BEFORE ANALYSIS = TASK FAILURE`,
             description: 'Items per page (max 200, default 100). Larger values = fewer calls needed. API limit is 500 per call, so pageSize=200 with page=1,2 gets 400 items.',
             minimum: 1,
             maximum: 200
-          }
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
       EnhancedAutotaskToolHandler.createTool(
@@ -1028,7 +1179,7 @@ FAILURE TO RETRIEVE ALL PAGES BEFORE ANALYSIS = TASK FAILURE`,
           },
           status: {
             type: 'number',
-            description: 'Initial status for ticket workflow. Common values: 1=New (default for new tickets, awaiting assignment), 2=In Progress (actively being worked), 5=Complete (only if creating resolved tickets retroactively). Usually leave as default (New) unless creating historical tickets or specific workflow requirements. Status drives automated processes and notifications.'
+            description: 'Initial status for ticket workflow. Autotask defaults: 1=New (default for new tickets, awaiting assignment), 8=In Progress (actively being worked), 5=Complete (only if creating resolved tickets retroactively); use get_picklist (entity: tickets, field: status) for the statuses in use. Usually leave as default (New) unless creating historical tickets or specific workflow requirements. Status drives automated processes and notifications.'
           },
           assignedResourceID: {
             type: 'number',
@@ -1154,12 +1305,12 @@ FAILURE TO RETRIEVE ALL PAGES BEFORE ANALYSIS = TASK FAILURE`,
             description: 'Filter by company ID for customer-specific projects.'
           },
           status: {
-            type: 'number',
-            description: 'Filter by status: 1=New, 2=In Progress, 3=Complete, 4=Canceled, 5=On Hold.'
+            type: ['number', 'string'],
+            description: 'Filter by status: 1=New, 2=In Progress, 3=Complete, 4=Canceled, 5=On Hold. A label such as "In Progress" is also accepted.'
           },
           projectType: {
-            type: 'number',
-            description: 'Filter by type: 1=Fixed Price, 2=T&M, 3=Retainer, 4=Internal.'
+            type: ['number', 'string'],
+            description: 'Filter by type: 1=Fixed Price, 2=T&M, 3=Retainer, 4=Internal. A label such as "Fixed Price" is also accepted.'
           },
           projectManagerResourceID: {
             type: 'number',
@@ -1175,7 +1326,8 @@ FAILURE TO RETRIEVE ALL PAGES BEFORE ANALYSIS = TASK FAILURE`,
             description: 'Items per page (max 200, default 100). Larger values = fewer calls needed.',
             minimum: 1,
             maximum: 200
-          }
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
 
@@ -1212,6 +1364,7 @@ FAILURE TO RETRIEVE ALL PAGES BEFORE ANALYSIS = TASK FAILURE`,
                   maximum: 200,
                   default: 100
                 },
+                cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA,
                 page: {
                   type: 'number',
                   description: 'Page number (1-based, default=1). Use to retrieve additional data when "Showing X of Y" shows X < Y.',
@@ -1375,7 +1528,8 @@ Default behavior returns last 30 days if no date filters specified.`,
             description: 'Items per page (max 200, default 100). Larger values = fewer calls needed.',
             minimum: 1,
             maximum: 200
-          }
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
 
@@ -1445,7 +1599,8 @@ FAILURE TO RETRIEVE ALL PAGES BEFORE ANALYSIS = TASK FAILURE`,
             description: 'Items per page (max 200, default 100). Larger values = fewer calls needed.',
             minimum: 1,
             maximum: 200
-          }
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
       EnhancedAutotaskToolHandler.createTool(
@@ -1799,12 +1954,12 @@ Common use cases:
             description: 'Filter by company ID - refers to Companies entity'
           },
           status: {
-            type: 'number',
-            description: 'Filter by status. Common values: 1=Active, 5=Won, 6=Lost, 7=Cancelled'
+            type: ['number', 'string'],
+            description: 'Filter by status. Common values: 1=Active, 5=Won, 6=Lost, 7=Cancelled. A label such as "Won" is also accepted.'
           },
           stage: {
-            type: 'number',
-            description: 'Filter by sales stage ID'
+            type: ['number', 'string'],
+            description: 'Filter by sales stage ID. The stage name is also accepted.'
           },
           ownerResourceId: {
             type: 'number',
@@ -1832,7 +1987,8 @@ Common use cases:
             description: 'Items per page (max 200, default 100).',
             minimum: 1,
             maximum: 200
-          }
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
 
@@ -1847,12 +2003,12 @@ Common use cases:
             description: 'Filter by company ID - refers to Companies entity'
           },
           status: {
-            type: 'number',
-            description: 'Filter by contract status. Common values: 1=Inactive, 2=Active, 3=Complete'
+            type: ['number', 'string'],
+            description: 'Filter by contract status. Common values: 1=Inactive, 2=Active, 3=Complete. A label such as "Active" is also accepted.'
           },
           contractType: {
-            type: 'number',
-            description: 'Filter by contract type. Common values: 1=Service, 2=Maintenance, 3=Block Hours, 4=Retainer, 5=Incident Response'
+            type: ['number', 'string'],
+            description: 'Filter by contract type. Common values: 1=Service, 2=Maintenance, 3=Block Hours, 4=Retainer, 5=Incident Response. A label such as "Block Hours" is also accepted.'
           },
           searchTerm: {
             type: 'string',
@@ -1863,7 +2019,13 @@ Common use cases:
             description: 'Items per page (max 200, default 100).',
             minimum: 1,
             maximum: 200
-          }
+          },
+          page: {
+            type: 'number',
+            description: 'Page number (1-based, default=1). Use to retrieve additional data when "Showing X of Y" shows X < Y. Prefer cursor for walking many pages.',
+            minimum: 1
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
 
@@ -1893,7 +2055,13 @@ Common use cases:
             description: 'Items per page (max 200, default 100).',
             minimum: 1,
             maximum: 200
-          }
+          },
+          page: {
+            type: 'number',
+            description: 'Page number (1-based, default=1). Use to retrieve additional data when "Showing X of Y" shows X < Y. Prefer cursor for walking many pages.',
+            minimum: 1
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
 
@@ -1923,7 +2091,13 @@ Common use cases:
             description: 'Items per page (max 200, default 100).',
             minimum: 1,
             maximum: 200
-          }
+          },
+          page: {
+            type: 'number',
+            description: 'Page number (1-based, default=1). Use to retrieve additional data when "Showing X of Y" shows X < Y. Prefer cursor for walking many pages.',
+            minimum: 1
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
       EnhancedAutotaskToolHandler.createTool(
@@ -1997,7 +2171,13 @@ Common use cases:
             description: 'Items per page (max 200, default 100).',
             minimum: 1,
             maximum: 200
-          }
+          },
+          page: {
+            type: 'number',
+            description: 'Page number (1-based, default=1). Use to retrieve additional data when "Showing X of Y" shows X < Y. Prefer cursor for walking many pages.',
+            minimum: 1
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
       EnhancedAutotaskToolHandler.createTool(
@@ -2340,7 +2520,13 @@ Common use cases:
             description: 'Items per page (max 200, default 100).',
             minimum: 1,
             maximum: 200
-          }
+          },
+          page: {
+            type: 'number',
+            description: 'Page number (1-based, default=1). Use to retrieve additional data when "Showing X of Y" shows X < Y. Prefer cursor for walking many pages.',
+            minimum: 1
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         }
       ),
       EnhancedAutotaskToolHandler.createTool(
@@ -2465,6 +2651,7 @@ Common use cases:
             maximum: 200,
             default: 100
           },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA,
           searchTerm: {
             type: 'string',
             description: 'Optional search term to filter companies by name (partial match supported)'
@@ -2481,23 +2668,38 @@ Common use cases:
       // Generic GET Query Tool (URL parameter-based search)
       EnhancedAutotaskToolHandler.createTool(
         'query_entity',
-        'Query any Autotask entity using simple text-based search (alternative to advanced POST-based search_* tools). Uses GET /V1.0/{Entity}/query endpoint with search parameter for quick lookups across entity text fields. This is simpler than the POST-based search tools but less flexible - use this for basic text searches, use search_* tools for advanced filtering with multiple criteria.',
+        'Query any Autotask entity, either with a simple text search or with a full Autotask filter tree. A filter supports every operator (eq, noteq, gt, gte, lt, lte, beginsWith, endsWith, contains, exist, notExist, in, notIn), nested {"op":"and"|"or","items":[...]} groups and user-defined fields ("udf": true). Filters and includeFields are checked against the entity\'s field definitions before the query runs. Example: [{"op":"or","items":[{"op":"eq","field":"status","value":1},{"op":"gte","field":"priority","value":3}]}]',
         'read',
         {
           entity: {
             type: 'string',
-            description: 'Entity type to query (required). Must be one of: companies, contacts, tickets, projects, resources, tasks, contracts, quotes, invoices, timeentries, configurationitems, expensereports'
+            description: 'Entity type to query (required). Must be one of: companies, contacts, tickets, projects, resources, tasks, contracts, quotes, invoices, timeentries, configurationitems, expensereports, opportunities'
           },
           search: {
             type: 'string',
-            description: 'Search string to query the entity (required). Searches across relevant text fields like names, titles, descriptions, numbers, etc. Examples: "Microsoft", "john@email.com", "T20240001", "login issue"'
+            description: 'Search string matched against the entity\'s main text fields (names, titles, numbers). Examples: "Microsoft", "john@email.com", "T20240001". Use filter instead for anything more specific.'
+          },
+          filter: {
+            type: 'array',
+            description: 'Autotask filter tree (conditions are ANDed at the top level). Condition: {"op":"contains","field":"title","value":"printer"}; group: {"op":"or","items":[...]}; user-defined field: {"op":"eq","field":"Contract Tier","value":"Gold","udf":true}',
+            items: { type: 'object' }
+          },
+          includeFields: {
+            type: 'array',
+            description: 'Only return these fields (filter queries only)',
+            items: { type: 'string' }
+          },
+          page: {
+            type: 'number',
+            description: 'Page number to retrieve (filter queries only, default: 1)'
           },
           pageSize: {
             type: 'number',
-            description: 'Number of results to return (default: 50, max: 100). Use "page" parameter for more.'
-          }
+            description: 'Number of results to return (default: 50, max: 100 for search; default: 100, max: 200 for filter queries)'
+          },
+          cursor: EnhancedAutotaskToolHandler.CURSOR_SCHEMA
         },
-        ['entity', 'search']
+        ['entity']
       ),
       EnhancedAutotaskToolHandler.createTool(
         'get_entity',
@@ -2519,6 +2721,122 @@ Common use cases:
         },
         ['entity', 'id']
       ), 
+      EnhancedAutotaskToolHandler.createTool(
+        'count_entities',
+        'Count the Autotask records matching a filter without retrieving them (uses the /query/count endpoint). Use for dashboards and "how many" questions - it is far cheaper than searching. Counts are cached for a short time per filter.',
+        'read',
+        {
+          entity: {
+            type: 'string',
+            description: 'Entity type to count (required). Must be one of: companies, contacts, tickets, projects, resources, tasks, contracts, quotes, invoices, timeentries, configurationitems, expensereports, opportunities'
+          },
+          filter: {
+            type: 'array',
+            description: 'Autotask filter conditions, e.g. [{"op":"eq","field":"status","value":1}]. Omit to count every record.',
+            items: { type: 'object' }
+          }
+        },
+        ['entity']
+      ),
+      EnhancedAutotaskToolHandler.createTool(
+        'get_changes_since',
+        'Get the records created or updated since a watermark, for syncing Autotask into another system. Each record is tagged with _changeType (created or updated). Page with nextCursor while hasMore is true, then keep nextWatermark and pass it as since on the next sync. Records modified exactly at the watermark are returned again, so de-duplicate by id.',
+        'read',
+        {
+          entity: {
+            type: 'string',
+            description: 'Entity to sync (required). Must be one of: tickets, companies, contacts, projects, tasks, timeentries, opportunities, configurationitems'
+          },
+          since: {
+            type: 'string',
+            description: 'Watermark: ISO 8601 date-time of the last sync, e.g. the nextWatermark returned last time (required unless cursor is given)'
+          },
+          filter: {
+            type: 'array',
+            description: 'Extra Autotask filter conditions the changed records must match, e.g. [{"op":"eq","field":"companyID","value":42}] (optional)',
+            items: { type: 'object' }
+          },
+          pageSize: {
+            type: 'number',
+            description: `Records per page (default ${PAGINATION_CONFIG.DEFAULT_PAGE_SIZE}, max ${PAGINATION_CONFIG.MAX_PAGE_SIZE})`
+          },
+          cursor: {
+            type: 'string',
+            description: 'nextCursor from the previous page of the same feed'
+          }
+        },
+        ['entity']
+      ),
+      EnhancedAutotaskToolHandler.createTool(
+        'get_entity_fields',
+        'Get the field definitions of an Autotask entity for this tenant: data types, required and read-only flags, references to other entities, picklist fields and user-defined fields. Use before creating or filtering records to know which fields exist and which codes are valid - never guess what a numeric status or type means.',
+        'read',
+        {
+          entity: {
+            type: 'string',
+            description: 'Autotask entity (required), e.g. tickets, companies, projects, contracts, TicketNotes. Case and spacing are ignored.'
+          },
+          fields: {
+            type: 'array',
+            description: 'Only return these fields (optional)',
+            items: { type: 'string' }
+          },
+          includePicklistValues: {
+            type: 'boolean',
+            description: 'Include the choices of picklist fields (default: false - use get_picklist for one field)'
+          }
+        },
+        ['entity']
+      ),
+      EnhancedAutotaskToolHandler.createTool(
+        'get_picklist',
+        'Get the valid values and labels of a picklist field for this tenant, e.g. ticket status, priority, queueID, issueType; project status; opportunity stage. Picklists are configured per Autotask database, so always look labels up here instead of assuming what a code means.',
+        'read',
+        {
+          entity: {
+            type: 'string',
+            description: 'Autotask entity (required), e.g. tickets'
+          },
+          field: {
+            type: 'string',
+            description: 'Picklist field name (required), e.g. status, priority, queueID, or the name of a user-defined field'
+          },
+          includeInactive: {
+            type: 'boolean',
+            description: 'Include inactive values (default: false)'
+          }
+        },
+        ['entity', 'field']
+      ),
+      EnhancedAutotaskToolHandler.createTool(
+        'fan_out',
+        'Run a read-only tool (e.g. search_tickets, search_contracts) for several tenants at once and merge the results. Every returned record is tagged with _tenantId; tenants that fail or time out are listed with their error instead of failing the whole call. Use for portfolio questions like "which tenants have Critical tickets open".',
+        'read',
+        {
+          tool: {
+            type: 'string',
+            description: 'Name of the read-only tool to run for each tenant (required), e.g. "search_tickets"'
+          },
+          arguments: {
+            type: 'object',
+            description: 'Arguments passed to the tool for every tenant (without _tenant)'
+          },
+          tenants: {
+            type: 'array',
+            description: `Tenants to query (required, max ${MAX_FAN_OUT_TENANTS}). Each entry takes the same fields as _tenant.`,
+            items: EnhancedAutotaskToolHandler.TENANT_SCHEMA
+          },
+          concurrency: {
+            type: 'number',
+            description: 'Tenants queried at the same time (default: 5, max: 20)'
+          },
+          timeoutMs: {
+            type: 'number',
+            description: 'Per-tenant timeout in milliseconds (default: 30000)'
+          }
+        },
+        ['tool', 'tenants']
+      ),
       EnhancedAutotaskToolHandler.createTool(
         'get_project_details',
         'Get comprehensive project details including tasks and time entries in a single optimized call. This tool efficiently fetches project information along with its associated tasks and time entries, minimizing data transfer by returning only essential fields. Perfect for project status reports, resource planning, and project analysis without multiple API calls. Returns project info, task summaries, and time entry summaries with minimal data overhead.',
@@ -2624,16 +2942,18 @@ Common use cases:
     });
     
     // Filter tools based on tenant mode
+    let tools = allTools;
     if (mode === 'read') {
       // For read mode, only return tools that are read-only
-      return allTools.filter(tool => {
+      tools = allTools.filter(tool => {
         const toolOperationType = this.getToolOperationType(tool.name);
         return toolOperationType === 'read';
       });
     }
     
-    // For write mode, return all tools
-    return allTools;
+    // Then drop tools the tenant's policy never allows
+    const policyEngine = this.autotaskService.getPolicyEngine();
+    return policyEngine ? policyEngine.filterTools(tools, tenantContext) : tools;
   }
 
   /**
@@ -2648,7 +2968,11 @@ Common use cases:
     return await this.listTools(tenantContext);
   }
 
-  async callTool(name: string, args: Record<string, any>): Promise<McpToolResult> {
+  /**
+   * Run a tool. The tenant comes from _tenant in args, unless the caller already resolved it
+   * (fan-out passes each tenant's context here so credentials never travel in args).
+   */
+  async callTool(name: string, args: Record<string, any>, resolvedTenant?: TenantContext): Promise<McpToolResult> {
     const startTime = Date.now();
     const toolCallId = `${name}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
@@ -2672,7 +2996,7 @@ Common use cases:
       this.logger.info(`🛠️ Tool call started: ${name}`, {
         toolCallId,
         toolName: name,
-        args:args, 
+        args: EnhancedAutotaskToolHandler.redactTenantArgs(args),
         timestamp: new Date().toISOString()
       }); 
       
@@ -2706,7 +3030,7 @@ Common use cases:
       }
 
       // Extract tenant context from arguments
-      const tenantContext = this.extractTenantContext(args);
+      let tenantContext = resolvedTenant ?? this.extractTenantContext(args);
       
       if (tenantContext) {
         this.logger.info(`🏢 Tool call using multi-tenant mode`, {
@@ -2745,6 +3069,32 @@ Common use cases:
         };
       }
       
+      // Check the tenant / access key policy (allowed tools and entities, page size limit)
+      const policyEngine = this.autotaskService.getPolicyEngine();
+      if (policyEngine) {
+        const decision = await policyEngine.evaluate(name, args, tenantContext);
+        if (!decision.allowed) {
+          return {
+            content: [{
+              type: 'text',
+              text: `Operation not allowed: ${decision.reason}`
+            }],
+            isError: true
+          };
+        }
+        if (decision.maxPageSize !== undefined) {
+          args = this.applyMaxPageSize(name, args, decision.maxPageSize);
+        }
+      }
+
+      // Creates may carry an idempotency key so the service can retry them safely and de-duplicate repeats.
+      // It moves into the tenant context - handlers pass args on to Autotask, which doesn't know the field.
+      const { _idempotencyKey, ...toolArgs } = args;
+      args = toolArgs;
+      if (typeof _idempotencyKey === 'string' && _idempotencyKey && this.getToolOperationType(name) === 'write') {
+        tenantContext = { ...(tenantContext ?? { tenantId: 'single-tenant' }), idempotencyKey: _idempotencyKey };
+      }
+
       let result: McpToolResult;
       
       switch (name) {
@@ -3007,6 +3357,40 @@ Common use cases:
           result = await this.getEntityById(args, tenantContext);
           break;
 
+        case 'get_entity_fields':
+          this.logger.info(`📋 Executing get_entity_fields`, { toolCallId, args });
+          result = await this.getEntityFields(args, tenantContext);
+          break;
+
+        case 'get_picklist':
+          this.logger.info(`📋 Executing get_picklist`, { toolCallId, args });
+          result = this.createDataResponse(await this.autotaskService.getPicklist(args.entity, args.field, tenantContext, args.includeInactive === true));
+          break;
+
+        case 'count_entities':
+          this.logger.info(`🔢 Executing count_entities`, { toolCallId, args });
+          result = await this.countEntities(args, tenantContext);
+          break;
+
+        case 'get_changes_since':
+          this.logger.info(`🔄 Executing get_changes_since`, { toolCallId, args });
+          result = this.createDataResponse(await this.autotaskService.getChangesSince(args.entity, {
+            ...(args.since && { since: args.since }),
+            ...(args.cursor && { cursor: args.cursor }),
+            ...(typeof args.pageSize === 'number' && { pageSize: args.pageSize }),
+            ...(args.filter && { filter: args.filter })
+          }, tenantContext));
+          break;
+
+        // Cross-tenant tools
+        case 'fan_out':
+          this.logger.info(`🌐 Executing fan_out`, { toolCallId, tool: args.tool, tenantCount: Array.isArray(args.tenants) ? args.tenants.length : 0 });
+          result = this.createDataResponse(await this.callToolAcrossTenants(args.tool, args.arguments || {}, args.tenants, {
+            ...(typeof args.concurrency === 'number' && { concurrency: args.concurrency }),
+            ...(typeof args.timeoutMs === 'number' && { timeoutMs: args.timeoutMs })
+          }));
+          break;
+
         // Managed Services Tools
         case 'get_company_categories':
           this.logger.info(`📋 Executing get_company_categories`, { toolCallId,args });
@@ -3063,6 +3447,128 @@ Common use cases:
     }
   }
 
+  /**
+   * Run a read-only tool for several tenants with bounded concurrency and merge the results.
+   * Each entry in `tenants` has the shape of a _tenant argument, or is an already resolved TenantContext.
+   */
+  async callToolAcrossTenants(
+    name: string,
+    args: Record<string, any>,
+    tenants: Array<Record<string, any>>,
+    options: Partial<FanOutOptions> = {}
+  ): Promise<FanOutToolResult> {
+    if (!EnhancedAutotaskToolHandler.isValidToolName(name) || name === TOOL_NAMES.FAN_OUT) {
+      throw new Error(`Unknown tool for fan-out: ${name}`);
+    }
+    if (this.getToolOperationType(name) !== 'read') {
+      throw new Error(`Fan-out only supports read-only tools; "${name}" is a ${this.getToolOperationType(name)} tool`);
+    }
+    if (!Array.isArray(tenants) || tenants.length === 0) {
+      throw new Error('Fan-out requires at least one tenant');
+    }
+    if (tenants.length > MAX_FAN_OUT_TENANTS) {
+      throw new Error(`Fan-out supports at most ${MAX_FAN_OUT_TENANTS} tenants per call (got ${tenants.length})`);
+    }
+
+    const tenantsById = new Map<string, Record<string, any>>();
+    for (const tenant of tenants) {
+      const tenantId = tenant?.tenantId || (tenant?.username ? `tenant_${tenant.username}` : undefined);
+      if (!tenantId) {
+        throw new Error('Every fan-out tenant needs a tenantId or username');
+      }
+      if (tenantsById.has(tenantId)) {
+        throw new Error(`Tenant ${tenantId} is listed more than once`);
+      }
+      tenantsById.set(tenantId, tenant);
+    }
+
+    // Tenant credentials come only from the tenants list, and every call is read-only
+    const { _tenant, tenant, credentials, ...toolArgs } = args;
+
+    const outcomes = await fanOut(Array.from(tenantsById.keys()), async tenantId => {
+      const tenant = tenantsById.get(tenantId)!;
+      const tenantContext = tenant.credentials && typeof tenant.credentials === 'object'
+        ? tenant as TenantContext
+        : this.extractTenantContext({ _tenant: tenant });
+      if (!tenantContext) {
+        throw new Error('Tenant needs credentials (username, secret, integrationCode) or an accessKey');
+      }
+      const result = await this.callTool(name, toolArgs, { ...tenantContext, tenantId, mode: 'read' });
+      if (result.isError) {
+        throw new Error(result.content?.[0]?.text || 'Tool call failed');
+      }
+      return result;
+    }, options);
+
+    const merged: FanOutToolResult = {
+      tool: name,
+      summary: { tenants: outcomes.length, succeeded: 0, failed: 0, timedOut: 0, items: 0 },
+      items: [],
+      results: []
+    };
+
+    for (const outcome of outcomes) {
+      const base = { tenantId: outcome.tenantId, status: outcome.status, durationMs: outcome.durationMs };
+      if (outcome.status !== 'ok' || !outcome.result) {
+        merged.summary[outcome.status === 'timeout' ? 'timedOut' : 'failed']++;
+        merged.results.push({ ...base, error: outcome.error ?? 'Unknown error' });
+        continue;
+      }
+
+      merged.summary.succeeded++;
+      const records = EnhancedAutotaskToolHandler.extractRecords(outcome.result);
+      if (records) {
+        merged.items.push(...records.map(record => ({ ...record, _tenantId: outcome.tenantId })));
+        merged.results.push({ ...base, itemCount: records.length });
+      } else {
+        merged.results.push({ ...base, text: outcome.result.content.map(part => part.text ?? '').join('\n') });
+      }
+    }
+    merged.summary.items = merged.items.length;
+
+    this.logger.info(`🌐 Fan-out ${name} finished`, merged.summary);
+    return merged;
+  }
+
+  /**
+   * Tool arguments for logging, without tenant credentials (_tenant, tenant, credentials, fan_out tenants)
+   */
+  private static redactTenantArgs(args: Record<string, any>): Record<string, any> {
+    if (!args || typeof args !== 'object') {
+      return args;
+    }
+    const { _tenant, tenant, credentials, tenants, ...rest } = args;
+    return {
+      ...rest,
+      ...(_tenant && { _tenant: { tenantId: _tenant.tenantId, credentials: '[REDACTED]' } }),
+      ...(tenant && { tenant: '[REDACTED]' }),
+      ...(credentials && { credentials: '[REDACTED]' }),
+      ...(Array.isArray(tenants) && { tenants: tenants.map(t => ({ tenantId: t?.tenantId, credentials: '[REDACTED]' })) })
+    };
+  }
+
+  /**
+   * Records from a tool result, when the tool answered with JSON (plain, or after a pagination header)
+   */
+  private static extractRecords(result: McpToolResult): Array<Record<string, any>> | undefined {
+    const text = result.content?.[0]?.text;
+    if (!text) {
+      return undefined;
+    }
+
+    const separator = '='.repeat(60);
+    const json = text.includes(separator) ? text.substring(text.indexOf(separator) + separator.length) : text;
+    try {
+      const parsed = JSON.parse(json);
+      if (Array.isArray(parsed)) {
+        return parsed;
+      }
+      return parsed && typeof parsed === 'object' ? [parsed] : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   private async searchCompanies(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
       // Build filter array
@@ -3099,14 +3605,15 @@ Common use cases:
       const options: any = {
         filter: filters.length > 0 ? filters : undefined,
         page: args.page || 1,
-        pageSize: args.pageSize || 100
+        pageSize: args.pageSize || 100,
+        ...(args.cursor && { cursor: args.cursor })
       };
 
       // Use the new pagination-aware method
       const paginatedResult = await this.autotaskService.searchCompaniesWithPagination(options, tenantContext);
       
       // Return formatted result with mandatory "Showing X of Y" pattern
-      return formatPaginatedResult(paginatedResult, 'search_companies');
+      return formatPaginatedResult(await this.enrichPage('Companies', paginatedResult, tenantContext), 'search_companies');
       
     } catch (error) {
       throw new Error(`Failed to search companies: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -3176,39 +3683,29 @@ Common use cases:
       if (args.pageSize) {
         options.pageSize = args.pageSize;
       }
+      
+      if (args.page) {
+        options.page = args.page;
+      }
+      
+      if (args.cursor) {
+        options.cursor = args.cursor;
+      }
 
-      const contacts = await this.autotaskService.searchContacts(options, tenantContext);
+      const contactsPage = await this.autotaskService.searchContactsWithPagination(options, tenantContext);
+      const contacts = contactsPage.items;
       this.logger.info(`🏢 Found ${contacts.length} contacts`, {
         tenant: tenantContext,
         sessionId: tenantContext?.sessionId
       });
       // Enhanced results with mapped names
-      const mappingService = await this.getMappingService();
-      const enhancedContacts = await Promise.all(
-        contacts.map(async (contact: any) => {
-          const enhanced: any = { ...contact };
-          
-          // Add company name if available
-          if (contact.companyID) {
-            try {
-              enhanced._enhanced = enhanced._enhanced || {};
-              enhanced._enhanced.companyName = await mappingService.getCompanyName(contact.companyID, tenantContext);
-            } catch (error) {
-              this.logger.info(`Failed to map company ID ${contact.companyID}:`, error);
-              enhanced._enhanced = enhanced._enhanced || {};
-              enhanced._enhanced.companyName = `Unknown (${contact.companyID})`;
-            }
-          }
-          
-          return enhanced;
-        })
-      );
+      const enhancedContacts: any[] = await this.enrich('Contacts', contacts, tenantContext);
 
-      const resultsText = enhancedContacts.length > 0 
+      const resultsText = formatPaginationHeader(contactsPage) + '\n' + (enhancedContacts.length > 0 
         ? `Found ${enhancedContacts.length} contacts:\n\n${enhancedContacts.map(contact => 
             `ID: ${contact.id}\nName: ${contact.firstName} ${contact.lastName}\nEmail: ${contact.emailAddress}\nCompany: ${contact._enhanced?.companyName || 'Unknown'}\n`
           ).join('\n')}`
-        : 'No contacts found matching the criteria';
+        : 'No contacts found matching the criteria');
 
       const content = [{
         type: 'text',
@@ -3250,6 +3747,7 @@ Common use cases:
 
   private async searchTickets(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
+      args = await this.resolvePicklistArgs('Tickets', args, ['status', 'priority'], tenantContext);
       const options: any = {};
       
       // Use the proper searchTerm parameter instead of custom filter
@@ -3308,11 +3806,16 @@ Common use cases:
       if (args.page) {
         options.page = args.page;
       }
+      
+      if (args.cursor) {
+        options.cursor = args.cursor;
+      }
 
-      let tickets = await this.autotaskService.searchTickets(options, tenantContext);
+      let ticketsPage = await this.autotaskService.searchTicketsWithPagination(options, tenantContext);
       
       // If no results with searchTerm and we haven't tried the alternate field, try fallback
-      if (tickets.length === 0 && args.searchTerm) {
+      // (not when continuing from a cursor - the cursor pins the original query)
+      if (ticketsPage.items.length === 0 && args.searchTerm && !args.cursor) {
         const searchTerm = args.searchTerm;
         const looksLikeTicketNumber = /^T\d+\.\d+$/.test(searchTerm);
         
@@ -3400,88 +3903,25 @@ Common use cases:
         }
         
         try {
-          tickets = await this.autotaskService.searchTickets(fallbackOptions, tenantContext);
-          if (tickets.length > 0) {
-            this.logger.info(`Fallback search found ${tickets.length} tickets`);
+          ticketsPage = await this.autotaskService.searchTicketsWithPagination(fallbackOptions, tenantContext);
+          if (ticketsPage.items.length > 0) {
+            this.logger.info(`Fallback search found ${ticketsPage.items.length} tickets`);
           }
         } catch (error) {
           this.logger.warn(`Fallback search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
       }
       
-      // Enhanced results with mapped names - using sequential lookup to avoid rate limiting
-      const mappingService = await this.getMappingService();
-      
-      // Collect unique IDs to minimize API calls
-      const uniqueCompanyIds = new Set<number>();
-      const uniqueResourceIds = new Set<number>();
-      for (const ticket of tickets) {
-        if (ticket.companyID) uniqueCompanyIds.add(ticket.companyID);
-        if (ticket.assignedResourceID) uniqueResourceIds.add(ticket.assignedResourceID);
-      }
-      
-      // Pre-fetch unique names sequentially to avoid rate limiting (max 3 concurrent in Autotask)
-      const companyNameMap = new Map<number, string>();
-      const resourceNameMap = new Map<number, string>();
-      let rateLimitHit = false;
-      
-      // Fetch company names sequentially (stop if rate limited)
-      for (const companyId of uniqueCompanyIds) {
-        if (rateLimitHit) break;
-        try {
-          const name = await mappingService.getCompanyName(companyId, tenantContext);
-          if (name) companyNameMap.set(companyId, name);
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : '';
-          if (errorMsg.includes('429') || errorMsg.includes('Circuit breaker')) {
-            this.logger.warn(`Rate limit hit during company name lookup - skipping remaining enhancements`);
-            rateLimitHit = true;
-          }
-        }
-      }
-      
-      // Fetch resource names sequentially (stop if rate limited)
-      for (const resourceId of uniqueResourceIds) {
-        if (rateLimitHit) break;
-        try {
-          const name = await mappingService.getResourceName(resourceId, tenantContext);
-          if (name) resourceNameMap.set(resourceId, name);
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : '';
-          if (errorMsg.includes('429') || errorMsg.includes('Circuit breaker')) {
-            this.logger.warn(`Rate limit hit during resource name lookup - skipping remaining enhancements`);
-            rateLimitHit = true;
-          }
-        }
-      }
+      const tickets = ticketsPage.items;
       
-      // Now enhance tickets using the pre-fetched maps (no API calls)
-      const enhancedTickets = tickets.map((ticket: any) => {
-        const enhanced: any = { ...ticket };
-        
-        if (ticket.companyID) {
-          enhanced._enhanced = enhanced._enhanced || {};
-          enhanced._enhanced.companyName = companyNameMap.get(ticket.companyID) || `Company ID: ${ticket.companyID}`;
-        }
-
-        if (ticket.assignedResourceID) {
-          enhanced._enhanced = enhanced._enhanced || {};
-          enhanced._enhanced.assignedResourceName = resourceNameMap.get(ticket.assignedResourceID) || `Resource ID: ${ticket.assignedResourceID}`;
-        }
+      // Enhanced results with mapped names and picklist labels (batched lookups per type)
+      const enhancedTickets: any[] = await this.enrich('Tickets', tickets, tenantContext);
 
-        if (ticket.contactID) {
-          enhanced._enhanced = enhanced._enhanced || {};
-          enhanced._enhanced.contactName = `Contact ID: ${ticket.contactID}`;
-        }
-        
-        return enhanced;
-      });
-
-      const resultsText = enhancedTickets.length > 0 
+      const resultsText = formatPaginationHeader(ticketsPage) + '\n' + (enhancedTickets.length > 0 
         ? `Found ${enhancedTickets.length} tickets:\n\n${enhancedTickets.map(ticket => 
-            `ID: ${ticket.id}\nNumber: ${ticket.ticketNumber}\nTitle: ${ticket.title}\nStatus: ${ticket.status}\nCompany: ${ticket._enhanced?.companyName || 'Unknown'}\nAssigned: ${ticket._enhanced?.assignedResourceName || 'Unassigned'}\nContact: ${ticket._enhanced?.contactName || 'Unknown'}\n`
+            `ID: ${ticket.id}\nNumber: ${ticket.ticketNumber}\nTitle: ${ticket.title}\nStatus: ${EnhancedAutotaskToolHandler.withLabel(ticket.status, ticket._enhanced?.statusLabel)}\nPriority: ${EnhancedAutotaskToolHandler.withLabel(ticket.priority, ticket._enhanced?.priorityLabel)}\nCompany: ${ticket._enhanced?.companyName || 'Unknown'}\nAssigned: ${ticket._enhanced?.assignedResourceName || 'Unassigned'}\nContact: ${ticket._enhanced?.contactName || 'Unknown'}\n`
           ).join('\n')}`
-        : 'No tickets found matching the criteria';
+        : 'No tickets found matching the criteria');
 
       const content = [{
         type: 'text',
@@ -3563,6 +4003,7 @@ Common use cases:
 
   private async searchProjects(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
+      args = await this.resolvePicklistArgs('Projects', args, ['status', 'projectType'], tenantContext);
       const options: any = {};
       
       // Build filter array
@@ -3615,36 +4056,26 @@ Common use cases:
       if (args.pageSize) {
         options.pageSize = args.pageSize;
       }
+      
+      if (args.page) {
+        options.page = args.page;
+      }
+      
+      if (args.cursor) {
+        options.cursor = args.cursor;
+      }
 
-      const projects = await this.autotaskService.searchProjects(options, tenantContext);
+      const projectsPage = await this.autotaskService.searchProjectsWithPagination(options, tenantContext);
+      const projects = projectsPage.items;
       
       // Enhanced results with mapped names
-      const mappingService = await this.getMappingService();
-      const enhancedProjects = await Promise.all(
-        projects.map(async (project: any) => {
-          const enhanced: any = { ...project };
-          
-          // Add company name if available
-          if (project.companyID) {
-            try {
-              enhanced._enhanced = enhanced._enhanced || {};
-              enhanced._enhanced.companyName = await mappingService.getCompanyName(project.companyID, tenantContext);
-            } catch (error) {
-              this.logger.info(`Failed to map company ID ${project.companyID}:`, error);
-              enhanced._enhanced = enhanced._enhanced || {};
-              enhanced._enhanced.companyName = `Unknown (${project.companyID})`;
-            }
-          }
-          
-          return enhanced;
-        })
-      );
+      const enhancedProjects: any[] = await this.enrich('Projects', projects, tenantContext);
 
-      const resultsText = enhancedProjects.length > 0 
+      const resultsText = formatPaginationHeader(projectsPage) + '\n' + (enhancedProjects.length > 0 
         ? `Found ${enhancedProjects.length} projects:\n\n${enhancedProjects.map(project => 
-            `ID: ${project.id}\nName: ${project.projectName}\nCompany: ${project._enhanced?.companyName || 'Unknown'}\n`
+            `ID: ${project.id}\nName: ${project.projectName}\nStatus: ${EnhancedAutotaskToolHandler.withLabel(project.status, project._enhanced?.statusLabel)}\nCompany: ${project._enhanced?.companyName || 'Unknown'}\n`
           ).join('\n')}`
-        : 'No projects found matching the criteria';
+        : 'No projects found matching the criteria');
 
       const content = [{
         type: 'text',
@@ -3727,8 +4158,17 @@ Common use cases:
       if (args.pageSize) {
         options.pageSize = args.pageSize;
       }
+      
+      if (args.page) {
+        options.page = args.page;
+      }
+      
+      if (args.cursor) {
+        options.cursor = args.cursor;
+      }
 
-      const resources = await this.autotaskService.searchResources(options, tenantContext);
+      const resourcesPage = await this.autotaskService.searchResourcesWithPagination(options, tenantContext);
+      const resources = resourcesPage.items;
       
       // Enhanced results with mapped names
       const enhancedResources = resources.map((resource: any) => {
@@ -3741,11 +4181,11 @@ Common use cases:
         return enhanced;
       });
 
-      const resultsText = enhancedResources.length > 0 
+      const resultsText = formatPaginationHeader(resourcesPage) + '\n' + (enhancedResources.length > 0 
         ? `Found ${enhancedResources.length} resources:\n\n${enhancedResources.map(resource => 
             `ID: ${resource.id}\nName: ${resource.firstName} ${resource.lastName}\nActive: ${resource.isActive}\n`
           ).join('\n')}`
-        : 'No resources found matching the criteria';
+        : 'No resources found matching the criteria');
 
       return {
         content: [{
@@ -3776,7 +4216,8 @@ Common use cases:
         return this.createNotFoundResponse('ticket', ticketNumber);
       }
 
-      return this.createDataResponse(ticket);
+      const [enhancedTicket] = await this.enrich('Tickets', [ticket], tenantContext);
+      return this.createDataResponse(enhancedTicket);
     } catch (error) {
       throw new Error(`Failed to get ticket by number: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -3903,6 +4344,7 @@ Common use cases:
       
       // Handle the case where project data is wrapped in an 'item' object
       const projectData = project.item || project;
+      const [enhancedProject] = await this.enrich('Projects', [projectData], tenantContext);
       
       const result: any = {
         project: {
@@ -3924,19 +4366,14 @@ Common use cases:
           contractID: projectData.contractID,
           department: projectData.department,
           projectLeadResourceID: projectData.projectLeadResourceID,
-          userDefinedFields: projectData.userDefinedFields
+          userDefinedFields: projectData.userDefinedFields,
+          ...(enhancedProject._enhanced && { _enhanced: enhancedProject._enhanced })
         }
       };
 
-      // Get company name if available
-      if (projectData.companyID) {
-        try {
-          const mappingService = await this.getMappingService();
-          result.project.companyName = await mappingService.getCompanyName(projectData.companyID, tenantContext);
-        } catch (error) {
-          this.logger.info(`Failed to map company ID ${projectData.companyID}:`, error);
-          result.project.companyName = `Unknown (${projectData.companyID})`;
-        }
+      // Company name was resolved by enrich() along with the project's other names
+      if (enhancedProject._enhanced?.companyName) {
+        result.project.companyName = enhancedProject._enhanced.companyName;
       }
  
         try {
@@ -3960,35 +4397,12 @@ Common use cases:
           if (uniqueTaskResourceIds.length > 0) {
             this.logger.info(`Fetching resource information for ${uniqueTaskResourceIds.length} unique task resources`);
             
-            for (const resourceId of uniqueTaskResourceIds) {
-              try {
-                const resource = await this.autotaskService.getResource(resourceId, tenantContext);
-                if (resource) {
-                  taskResourceMap.set(resourceId, {
-                    id: resource.id,
-                    firstName: resource.firstName,
-                    lastName: resource.lastName,
-                    userName: resource.userName,
-                    email: resource.email,
-                    title: resource.title,
-                    department: resource.department
-                  });
-                }
-              } catch (error) {
-                this.logger.warn(`Failed to fetch task resource ${resourceId}:`, error);
-                taskResourceMap.set(resourceId, {
-                  id: resourceId,
-                  firstName: 'Unknown',
-                  lastName: `Resource ${resourceId}`,
-                  userName: `resource_${resourceId}`,
-                  email: null,
-                  title: null,
-                  department: null
-                });
-              }
+            for (const [resourceId, resourceInfo] of await this.getResourceSummaries(uniqueTaskResourceIds, tenantContext)) {
+              taskResourceMap.set(resourceId, resourceInfo);
             }
           }
-          result.tasks = tasks.map((task: any) => {
+          const enhancedTasks: any[] = await this.enrich('Tasks', tasks, tenantContext);
+          result.tasks = enhancedTasks.map((task: any) => {
             const resourceInfo = taskResourceMap.get(task.assignedResourceID);
             return {
               id: task.id,
@@ -4017,7 +4431,8 @@ Common use cases:
               estimatedHours: task.estimatedHours,
               actualHours: task.actualHours,
               createDateTime: task.createDateTime,
-              lastActivityDateTime: task.lastActivityDateTime
+              lastActivityDateTime: task.lastActivityDateTime,
+              ...(task._enhanced && { _enhanced: task._enhanced })
             };
           });
 
@@ -4124,32 +4539,8 @@ Common use cases:
         if (uniqueResourceIds.length > 0) {
           this.logger.info(`Fetching resource information for ${uniqueResourceIds.length} unique resources`);
           
-          for (const resourceId of uniqueResourceIds) {
-            try {
-              const resource = await this.autotaskService.getResource(resourceId, tenantContext);
-              if (resource) {
-                resourceMap.set(resourceId, {
-                  id: resource.id,
-                  firstName: resource.firstName,
-                  lastName: resource.lastName,
-                  userName: resource.userName,
-                  email: resource.email,
-                  title: resource.title,
-                  department: resource.department
-                });
-              }
-            } catch (error) {
-              this.logger.warn(`Failed to fetch resource ${resourceId}:`, error);
-              resourceMap.set(resourceId, {
-                id: resourceId,
-                firstName: 'Unknown',
-                lastName: `Resource ${resourceId}`,
-                userName: `resource_${resourceId}`,
-                email: null,
-                title: null,
-                department: null
-              });
-            }
+          for (const [resourceId, resourceInfo] of await this.getResourceSummaries(uniqueResourceIds, tenantContext)) {
+            resourceMap.set(resourceId, resourceInfo);
           }
         }
 
@@ -4244,7 +4635,7 @@ Common use cases:
 
   private async searchTimeEntries(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
-      const { ticketID, taskID, resourceID, resourceId, dateFrom, dateTo, pageSize, page } = args;
+      const { ticketID, taskID, resourceID, resourceId, dateFrom, dateTo, pageSize, page, cursor } = args;
       
       // Build filter for time entries search
       const filter: any[] = [];
@@ -4280,14 +4671,15 @@ Common use cases:
       const queryOptions: any = {
         filter,
         page: page || 1,
-        pageSize: pageSize || 100
+        pageSize: pageSize || 100,
+        ...(cursor && { cursor })
       };
 
       // Use the new pagination-aware method
       const paginatedResult = await this.autotaskService.getTimeEntriesWithPagination(queryOptions, tenantContext);
       
       // Return formatted result with mandatory "Showing X of Y" pattern
-      return formatPaginatedResult(paginatedResult, 'search_time_entries');
+      return formatPaginatedResult(await this.enrichPage('TimeEntries', paginatedResult, tenantContext), 'search_time_entries');
       
     } catch (error) {
       throw new Error(`Failed to search time entries: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -4300,7 +4692,7 @@ Common use cases:
 
   private async searchTasks(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
-      const { projectId, assignedResourceId, status, priorityLabel, searchTerm, dueDateFrom, dueDateTo, createdDateFrom, createdDateTo, pageSize } = args;
+      const { projectId, assignedResourceId, status, priorityLabel, searchTerm, dueDateFrom, dueDateTo, createdDateFrom, createdDateTo, page, pageSize, cursor } = args;
       
       // Build filter for tasks search
       const filter: any[] = [];
@@ -4348,18 +4740,17 @@ Common use cases:
 
       const queryOptions = {
         filter,
-        ...(pageSize && { pageSize })
+        ...(page && { page }),
+        ...(pageSize && { pageSize }),
+        ...(cursor && { cursor })
       };
 
-      const tasks = await this.autotaskService.searchTasks(queryOptions, tenantContext);
+      const tasksPage = await this.autotaskService.searchTasksWithPagination(queryOptions, tenantContext);
       
-      const content = [{
-        type: 'text',
-        text: JSON.stringify(tasks, null, 2)
-      }];
+      const { content } = formatPaginatedResult(await this.enrichPage('Tasks', tasksPage, tenantContext), 'search_tasks');
 
       // Add guidance for large responses
-      const contentWithGuidance = this.addLargeResponseGuidance(content, tasks.length, 'tasks');
+      const contentWithGuidance = this.addLargeResponseGuidance(content, tasksPage.items.length, 'tasks');
       
       return {
         content: contentWithGuidance,
@@ -4720,7 +5111,8 @@ Common use cases:
 
   private async searchOpportunities(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
-      const { companyId, status, stage, ownerResourceId, searchTerm, projectedCloseDateFrom, projectedCloseDateTo, page, pageSize } = args;
+      args = await this.resolvePicklistArgs('Opportunities', args, ['status', 'stage'], tenantContext);
+      const { companyId, status, stage, ownerResourceId, searchTerm, projectedCloseDateFrom, projectedCloseDateTo, page, pageSize, cursor } = args;
       
       // Build filter for opportunities search
       const filter: any[] = [];
@@ -4761,73 +5153,17 @@ Common use cases:
       const queryOptions = {
         filter,
         ...(page && { page }),
-        ...(pageSize && { pageSize })
+        ...(pageSize && { pageSize }),
+        ...(cursor && { cursor })
       };
 
-      const opportunities = await this.autotaskService.searchOpportunities(queryOptions, tenantContext);
-      
-      // Enhanced results with mapped names - using sequential lookup to avoid rate limiting
-      const mappingService = await this.getMappingService();
-      
-      // Collect unique IDs to minimize API calls
-      const uniqueCompanyIds = new Set<number>();
-      const uniqueResourceIds = new Set<number>();
-      for (const opportunity of opportunities) {
-        if (opportunity.companyID) uniqueCompanyIds.add(opportunity.companyID);
-        if (opportunity.ownerResourceID) uniqueResourceIds.add(opportunity.ownerResourceID);
-      }
-      
-      // Pre-fetch unique names sequentially to avoid rate limiting
-      const companyNameMap = new Map<number, string>();
-      const resourceNameMap = new Map<number, string>();
-      let rateLimitHit = false;
+      const opportunitiesPage = await this.autotaskService.searchOpportunitiesWithPagination(queryOptions, tenantContext);
+      const opportunities = opportunitiesPage.items;
       
-      for (const companyId of uniqueCompanyIds) {
-        if (rateLimitHit) break;
-        try {
-          const name = await mappingService.getCompanyName(companyId, tenantContext);
-          if (name) companyNameMap.set(companyId, name);
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : '';
-          if (errorMsg.includes('429') || errorMsg.includes('Circuit breaker')) {
-            this.logger.warn(`Rate limit hit during company name lookup - skipping remaining enhancements`);
-            rateLimitHit = true;
-          }
-        }
-      }
-      
-      for (const resourceId of uniqueResourceIds) {
-        if (rateLimitHit) break;
-        try {
-          const name = await mappingService.getResourceName(resourceId, tenantContext);
-          if (name) resourceNameMap.set(resourceId, name);
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : '';
-          if (errorMsg.includes('429') || errorMsg.includes('Circuit breaker')) {
-            this.logger.warn(`Rate limit hit during resource name lookup - skipping remaining enhancements`);
-            rateLimitHit = true;
-          }
-        }
-      }
-      
-      // Now enhance opportunities using the pre-fetched maps (no API calls)
-      const enhancedOpportunities = opportunities.map((opportunity: any) => {
-        const enhanced: any = { ...opportunity };
-        
-        if (opportunity.companyID) {
-          enhanced._enhanced = enhanced._enhanced || {};
-          enhanced._enhanced.companyName = companyNameMap.get(opportunity.companyID) || `Company ID: ${opportunity.companyID}`;
-        }
-
-        if (opportunity.ownerResourceID) {
-          enhanced._enhanced = enhanced._enhanced || {};
-          enhanced._enhanced.ownerResourceName = resourceNameMap.get(opportunity.ownerResourceID) || `Resource ID: ${opportunity.ownerResourceID}`;
-        }
-        
-        return enhanced;
-      });
+      // Enhanced results with mapped names and picklist labels
+      const enhancedOpportunities = await this.enrich('Opportunities', opportunities, tenantContext);
       
-      return this.createDataResponse(enhancedOpportunities);
+      return formatPaginatedResult({ ...opportunitiesPage, items: enhancedOpportunities }, 'search_opportunities');
     } catch (error) {
       throw new Error(`Failed to search opportunities: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -4835,7 +5171,8 @@ Common use cases:
 
   private async searchContracts(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
-      const { companyId, status, contractType, searchTerm, pageSize } = args;
+      args = await this.resolvePicklistArgs('Contracts', args, ['status', 'contractType'], tenantContext);
+      const { companyId, status, contractType, searchTerm, page, pageSize, cursor } = args;
       
       // Build filter for contracts search
       const filter: any[] = [];
@@ -4863,12 +5200,15 @@ Common use cases:
 
       const queryOptions = {
         filter,
-        ...(pageSize && { pageSize })
+        ...(page && { page }),
+        ...(pageSize && { pageSize }),
+        ...(cursor && { cursor })
       };
 
-      const contracts = await this.autotaskService.searchContracts(queryOptions, tenantContext);
+      const contracts = await this.autotaskService.searchContractsWithPagination(queryOptions, tenantContext);
+      const labeledContracts = await this.enrich('Contracts', contracts.items, tenantContext);
       
-      return this.createDataResponse(contracts);
+      return formatPaginatedResult({ ...contracts, items: labeledContracts }, 'search_contracts');
     } catch (error) {
       throw new Error(`Failed to search contracts: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -4876,7 +5216,7 @@ Common use cases:
 
   private async searchInvoices(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
-      const { companyId, fromDate, toDate, pageSize } = args;
+      const { companyId, fromDate, toDate, page, pageSize, cursor } = args;
       // Build filter for invoices search
       const filter: any[] = [];
       
@@ -4902,12 +5242,14 @@ Common use cases:
 
       const queryOptions = {
         filter,
-        ...(pageSize && { pageSize })
+        ...(page && { page }),
+        ...(pageSize && { pageSize }),
+        ...(cursor && { cursor })
       };
 
-      const invoices = await this.autotaskService.searchInvoices(queryOptions, tenantContext);
+      const invoices = await this.autotaskService.searchInvoicesWithPagination(queryOptions, tenantContext);
       
-      return this.createDataResponse(invoices);
+      return formatPaginatedResult(await this.enrichPage('Invoices', invoices, tenantContext), 'search_invoices');
     } catch (error) {
       throw new Error(`Failed to search invoices: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -4915,7 +5257,7 @@ Common use cases:
 
   private async searchQuotes(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
-      const { companyId, contactId, opportunityId, searchTerm, pageSize } = args;
+      const { companyId, contactId, opportunityId, searchTerm, page, pageSize, cursor } = args;
       
       // Build filter for quotes search
       const filter: any[] = [];
@@ -4943,12 +5285,14 @@ Common use cases:
 
       const queryOptions = {
         filter,
-        ...(pageSize && { pageSize })
+        ...(page && { page }),
+        ...(pageSize && { pageSize }),
+        ...(cursor && { cursor })
       };
 
-      const quotes = await this.autotaskService.searchQuotes(queryOptions, tenantContext);
+      const quotes = await this.autotaskService.searchQuotesWithPagination(queryOptions, tenantContext);
       
-      return this.createDataResponse(quotes);
+      return formatPaginatedResult(await this.enrichPage('Quotes', quotes, tenantContext), 'search_quotes');
     } catch (error) {
       throw new Error(`Failed to search quotes: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -4994,7 +5338,7 @@ Common use cases:
 
   private async searchExpenseReports(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
-      const { submitterId, status, fromDate, toDate, pageSize } = args;
+      const { submitterId, status, fromDate, toDate, page, pageSize, cursor } = args;
       
       // Build filter for expense reports search
       const filter: any[] = [];
@@ -5025,12 +5369,14 @@ Common use cases:
       const queryOptions = {
         submitterId,
         status,
-        ...(pageSize && { pageSize })
+        ...(page && { page }),
+        ...(pageSize && { pageSize }),
+        ...(cursor && { cursor })
       };
 
-      const expenseReports = await this.autotaskService.searchExpenseReports(queryOptions, tenantContext);
+      const expenseReports = await this.autotaskService.searchExpenseReportsWithPagination(queryOptions, tenantContext);
       
-      return this.createDataResponse(expenseReports);
+      return formatPaginatedResult(expenseReports, 'search_expense_reports');
     } catch (error) {
       throw new Error(`Failed to search expense reports: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -5109,7 +5455,7 @@ Common use cases:
 
   private async searchConfigurationItems(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
-      const { companyId, configurationItemType, serialNumber, referenceTitle, searchTerm, pageSize } = args;
+      const { companyId, configurationItemType, serialNumber, referenceTitle, searchTerm, page, pageSize, cursor } = args;
       
       // Build filter for configuration items search
       const filter: any[] = [];
@@ -5141,12 +5487,14 @@ Common use cases:
 
       const queryOptions = {
         filter,
-        ...(pageSize && { pageSize })
+        ...(page && { page }),
+        ...(pageSize && { pageSize }),
+        ...(cursor && { cursor })
       };
 
-      const configItems = await this.autotaskService.searchConfigurationItems(queryOptions, tenantContext);
+      const configItems = await this.autotaskService.searchConfigurationItemsWithPagination(queryOptions, tenantContext);
       
-      return this.createDataResponse(configItems);
+      return formatPaginatedResult(await this.enrichPage('ConfigurationItems', configItems, tenantContext), 'search_configuration_items');
     } catch (error) {
       throw new Error(`Failed to search configuration items: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -5235,7 +5583,8 @@ Common use cases:
       // Enforce page size limits from centralized config
       const options: any = {
         page: args.page || 1,
-        pageSize: Math.min(args.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE)
+        pageSize: Math.min(args.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE),
+        ...(args.cursor && { cursor: args.cursor })
       };
       
       if (args.searchTerm) {
@@ -5255,39 +5604,19 @@ Common use cases:
         });
       }
 
-      const companies = await this.autotaskService.searchCompanies(options, tenantContext);
+      const companiesPage = await this.autotaskService.searchCompaniesWithPagination(options, tenantContext);
+      const companies = companiesPage.items;
       
       // Enhanced results with mapped names
-      const mappingService = await this.getMappingService();
-      const enhancedCompanies = await Promise.all(
-        companies.map(async (company: any) => {
-          const enhanced: any = { ...company };
-          
-          // Add owner resource name if available
-          if (company.ownerResourceID) {
-            try {
-              enhanced._enhanced = enhanced._enhanced || {};
-              enhanced._enhanced.ownerResourceName = await mappingService.getResourceName(company.ownerResourceID, tenantContext);
-            } catch (error) {
-              this.logger.info(`Failed to map owner resource ID ${company.ownerResourceID}:`, error);
-              enhanced._enhanced = enhanced._enhanced || {};
-              enhanced._enhanced.ownerResourceName = `Unknown (${company.ownerResourceID})`;
-            }
-          }
-          
-          return enhanced;
-        })
-      );
+      const enhancedCompanies: any[] = await this.enrich('Companies', companies, tenantContext);
 
       // Prepare pagination-aware response
-      const currentPage = args.page || 1;
-      const pageSize = args.pageSize || 50;
-      const hasMore = enhancedCompanies.length === pageSize;
+      const { currentPage, hasMore, nextCursor, total, totalKnown } = companiesPage.pagination;
       
-      let resultsText = `Companies (Page ${currentPage}, ${enhancedCompanies.length} results)`;
+      let resultsText = `Companies (Page ${currentPage}, ${enhancedCompanies.length} results of ${totalKnown ? total : `at least ${total}`})`;
       
       if (hasMore) {
-        resultsText += `\n📄 More results available - use get_companies_page with page=${currentPage + 1}`;
+        resultsText += `\n📄 More results available - use get_companies_page with cursor="${nextCursor}"`;
       }
       
       if (enhancedCompanies.length > 0) {
@@ -5449,15 +5778,38 @@ Common use cases:
 
   private async queryEntity(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
     try {
-      const { entity, search, pageSize } = args;
+      const { entity, search, filter, includeFields, page, pageSize, cursor } = args;
       
-      if (!entity || !search) {
+      if (!entity || (!search && filter === undefined && !cursor)) {
         return {
           isError: true,
-          content: [{ type: 'text', text: 'Both entity and search parameters are required' }]
+          content: [{ type: 'text', text: 'entity and either search or filter are required' }]
         };
       }
 
+      if (filter !== undefined || cursor) {
+        const entityName = ENTITY_NAMES[entity.toLowerCase()];
+        if (!entityName) {
+          return {
+            isError: true,
+            content: [{ 
+              type: 'text', 
+              text: `Invalid entity type: ${entity}. Must be one of: ${Object.keys(ENTITY_NAMES).join(', ')}` 
+            }]
+          };
+        }
+
+        const result = await this.autotaskService.queryEntity(entityName, {
+          filter,
+          ...(includeFields !== undefined && { includeFields }),
+          ...(page && { page }),
+          ...(pageSize && { pageSize }),
+          ...(cursor && { cursor })
+        }, tenantContext);
+        const labeledItems = await this.enrich(entityName, result.items, tenantContext);
+        return formatPaginatedResult({ ...result, items: labeledItems }, 'query_entity');
+      }
+
       // Map entity name to service method
       const entityMethodMap: Record<string, string> = {
         'companies': 'queryCompanies',
@@ -5561,7 +5913,8 @@ Common use cases:
         return this.createNotFoundResponse(entity, id);
       }
       
-      return this.createDataResponse(result);
+      const [labeled] = await this.enrich(ENTITY_NAMES[entity.toLowerCase()], [result], tenantContext);
+      return this.createDataResponse(labeled);
     } catch (error: any) {
       return { 
         isError: true, 
@@ -5570,6 +5923,81 @@ Common use cases:
     }
   }
 
+  /**
+   * Copy of the tool arguments with picklist labels (status: "Waiting Customer") replaced by their values
+   */
+  private async resolvePicklistArgs(entity: string, args: Record<string, any>, fields: string[], tenantContext?: TenantContext): Promise<Record<string, any>> {
+    const resolved = { ...args };
+    for (const field of fields) {
+      if (typeof resolved[field] === 'string') {
+        resolved[field] = await this.autotaskService.resolvePicklistValue(entity, field, resolved[field], tenantContext);
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * "Complete (5)" when a label is known, otherwise the raw value
+   */
+  private static withLabel(value: unknown, label?: string): string {
+    return label ? `${label} (${value})` : `${value ?? 'Unknown'}`;
+  }
+
+  private async countEntities(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
+    try {
+      const { entity, filter = [] } = args;
+
+      const entityName = typeof entity === 'string' ? ENTITY_NAMES[entity.toLowerCase()] : undefined;
+      if (!entityName) {
+        return {
+          isError: true,
+          content: [{ 
+            type: 'text', 
+            text: `Invalid entity type: ${entity}. Must be one of: ${Object.keys(ENTITY_NAMES).join(', ')}` 
+          }]
+        };
+      }
+      if (!Array.isArray(filter)) {
+        return {
+          isError: true,
+          content: [{ type: 'text', text: 'filter must be an array of Autotask filter conditions' }]
+        };
+      }
+
+      const { count, cached } = await this.autotaskService.countEntities(entityName, filter, tenantContext);
+      return this.createDataResponse({ entity: entity.toLowerCase(), count, cached });
+    } catch (error: any) {
+      return { 
+        isError: true, 
+        content: [{ type: 'text', text: `Failed to count ${args.entity}: ${error.message}` }] 
+      };
+    }
+  }
+
+  private async getEntityFields(args: Record<string, any>, tenantContext?: TenantContext): Promise<McpToolResult> {
+    const { entity, fields, includePicklistValues = false } = args;
+    const metadata = await this.autotaskService.getEntityMetadata(entity, tenantContext);
+
+    const wanted = Array.isArray(fields) && fields.length > 0
+      ? new Set(fields.map((name: string) => String(name).toLowerCase()))
+      : null;
+    const selected = metadata.fields
+      .filter(field => !wanted || wanted.has(field.name.toLowerCase()))
+      .map(({ picklistValues, ...field }) => ({
+        ...field,
+        ...(picklistValues && (includePicklistValues
+          ? { picklistValues: picklistValues.filter(value => value.isActive) }
+          : { picklistValueCount: picklistValues.length }))
+      }));
+
+    return this.createDataResponse({
+      entity: metadata.entity,
+      fetchedAt: metadata.fetchedAt,
+      fieldCount: selected.length,
+      fields: selected
+    });
+  }
+
   /**
    * Get company categories from Autotask CompanyCategories entity
    * This shows the actual classification values available in the system
@@ -3,6 +3,7 @@
 
 import { AutotaskService } from '../services/autotask.service.js';
 import { Logger } from '../utils/logger.js';
+import { TenantContext } from '../types/mcp.js';
 
 export interface McpResource {
   uri: string;
@@ -82,6 +83,20 @@ export class AutotaskResourceHandler {
         name: 'Time Entries',
         description: 'List of time entries in Autotask',
         mimeType: 'application/json'
+      },
+
+      // Entity metadata resources
+      {
+        uri: 'autotask://metadata/{entity}',
+        name: 'Entity Field Definitions',
+        description: 'Fields of an entity (e.g. autotask://metadata/tickets) with data types, required/read-only flags, picklists and user-defined fields',
+        mimeType: 'application/json'
+      },
+      {
+        uri: 'autotask://metadata/{entity}/picklists/{field}',
+        name: 'Picklist Values',
+        description: 'Active values and labels of a picklist field (e.g. autotask://metadata/tickets/picklists/status)',
+        mimeType: 'application/json'
       }
     ];
 
@@ -90,9 +105,9 @@ export class AutotaskResourceHandler {
   }
 
   /**
-   * Read a specific resource by URI
+   * Read a specific resource by URI (as the session's tenant when one is bound)
    */
-  async readResource(uri: string): Promise<McpResourceContent> {
+  async readResource(uri: string, tenantContext?: TenantContext): Promise<McpResourceContent> {
     this.logger.info(`Reading resource: ${uri}`);
 
     // Parse the URI to determine the resource type and ID
@@ -104,48 +119,62 @@ export class AutotaskResourceHandler {
     switch (resourceType) {
       case 'companies':
         if (resourceId) {
-          data = await this.autotaskService.getCompany(parseInt(resourceId, 10));
+          data = await this.autotaskService.getCompany(parseInt(resourceId, 10), tenantContext);
           if (!data) {
             throw new Error(`Company with ID ${resourceId} not found`);
           }
           description = `Company: ${data.companyName || 'Unknown'}`;
         } else {
-          data = await this.autotaskService.searchCompanies({ pageSize: 100 });
+          data = await this.autotaskService.searchCompanies({ pageSize: 100 }, tenantContext);
           description = `List of ${data.length} companies`;
         }
         break;
 
       case 'contacts':
         if (resourceId) {
-          data = await this.autotaskService.getContact(parseInt(resourceId, 10));
+          data = await this.autotaskService.getContact(parseInt(resourceId, 10), tenantContext);
           if (!data) {
             throw new Error(`Contact with ID ${resourceId} not found`);
           }
           description = `Contact: ${data.firstName} ${data.lastName}`;
         } else {
-          data = await this.autotaskService.searchContacts({ pageSize: 100 });
+          data = await this.autotaskService.searchContacts({ pageSize: 100 }, tenantContext);
           description = `List of ${data.length} contacts`;
         }
         break;
 
       case 'tickets':
         if (resourceId) {
-          data = await this.autotaskService.getTicket(parseInt(resourceId, 10));
+          data = await this.autotaskService.getTicket(parseInt(resourceId, 10), false, tenantContext);
           if (!data) {
             throw new Error(`Ticket with ID ${resourceId} not found`);
           }
           description = `Ticket: ${data.title || data.ticketNumber || 'Unknown'}`;
         } else {
-          data = await this.autotaskService.searchTickets({ pageSize: 100 });
+          data = await this.autotaskService.searchTickets({ pageSize: 100 }, tenantContext);
           description = `List of ${data.length} tickets`;
         }
         break;
 
       case 'time-entries':
-        data = await this.autotaskService.getTimeEntries({ pageSize: 100 });
+        data = await this.autotaskService.getTimeEntries({ pageSize: 100 }, tenantContext);
         description = `List of ${data.length} time entries`;
         break;
 
+      case 'metadata': {
+        const [entity, section, field] = (resourceId || '').split('/');
+        if (entity && !section) {
+          data = await this.autotaskService.getEntityMetadata(entity, tenantContext);
+          description = `Field definitions for ${data.entity}`;
+        } else if (entity && section === 'picklists' && field) {
+          data = await this.autotaskService.getPicklist(entity, field, tenantContext);
+          description = `Picklist values for ${data.entity}.${data.field}`;
+        } else {
+          throw new Error(`Invalid metadata URI: ${uri}. Use autotask://metadata/{entity} or autotask://metadata/{entity}/picklists/{field}`);
+        }
+        break;
+      }
+
       default:
         throw new Error(`Unknown resource type: ${resourceType}`);
     }
@@ -182,8 +211,8 @@ export class AutotaskResourceHandler {
 
     const [, resourceType, resourceId] = match;
 
-    // Handle template URIs like "companies/{id}"
-    if (resourceId === '{id}') {
+    // Handle template URIs like "companies/{id}" or "metadata/{entity}"
+    if (resourceId && /\{\w+\}/.test(resourceId)) {
       throw new Error(`Template URI not supported for reading: ${uri}. Please provide a specific ID.`);
     }
 
@@ -204,7 +233,9 @@ export class AutotaskResourceHandler {
       'autotask://contacts/{id}',
       'autotask://tickets',
       'autotask://tickets/{id}',
-      'autotask://time-entries'
+      'autotask://time-entries',
+      'autotask://metadata/{entity}',
+      'autotask://metadata/{entity}/picklists/{field}'
     ];
   }
 } 
\ No newline at end of file
@@ -13,12 +13,12 @@ async function main() {
     // Set up graceful shutdown
     process.on('SIGINT', () => {
       console.log('\nReceived SIGINT, shutting down gracefully...');
-      process.exit(0);
+      server.stop().finally(() => process.exit(0));
     });
 
     process.on('SIGTERM', () => {
       console.log('\nReceived SIGTERM, shutting down gracefully...');
-      process.exit(0);
+      server.stop().finally(() => process.exit(0));
     });
 
     // Start the HTTP server
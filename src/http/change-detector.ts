@@ -0,0 +1,83 @@
+// Change Detector for SSE polling
+// Compares records returned by a change feed with the last version a polling session saw
+// (a snapshot keyed by record ID) and reports what actually changed.
+
+export type RecordSnapshot = Map<number, Record<string, any>>;
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface DetectedChange {
+  kind: 'created' | 'updated';
+  record: Record<string, any>;
+  // Only known for records this session has seen before
+  previous?: Record<string, any>;
+  changes?: Record<string, FieldChange>;
+}
+
+// Most records a session remembers per entity (least recently changed dropped first)
+export const MAX_SNAPSHOT_ENTRIES = 5000;
+
+// Bookkeeping fields that move on every activity - not reported as changes
+const IGNORED_FIELDS = /^(_.*|lastActivity.*|lastTracked.*|lastModified.*|lastCustomer.*)$/;
+
+/**
+ * Diff changed records against the snapshot and store their new versions. Records that come back
+ * without any real field change (e.g. only their activity timestamp moved) are not reported.
+ */
+export function detectChanges(
+  snapshot: RecordSnapshot,
+  records: Record<string, any>[],
+  maxEntries: number = MAX_SNAPSHOT_ENTRIES
+): DetectedChange[] {
+  const detected: DetectedChange[] = [];
+
+  for (const raw of records) {
+    if (typeof raw?.id !== 'number') {
+      continue;
+    }
+    const { _changeType, ...record } = raw;
+    const previous = snapshot.get(record.id);
+    snapshot.delete(record.id);
+    snapshot.set(record.id, record);
+
+    if (!previous) {
+      detected.push(_changeType === 'created' ? { kind: 'created', record } : { kind: 'updated', record });
+      continue;
+    }
+
+    const changes = diffFields(previous, record);
+    if (Object.keys(changes).length > 0) {
+      detected.push({ kind: 'updated', record, previous, changes });
+    }
+  }
+
+  while (snapshot.size > maxEntries) {
+    snapshot.delete(snapshot.keys().next().value as number);
+  }
+  return detected;
+}
+
+/**
+ * What the detector compares of a record: its ID and the fields that are neither bookkeeping nor empty.
+ * Diffing against this gives the same changes as diffing against the full record.
+ */
+export function toComparedFields(record: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(record).filter(([field, value]) =>
+    field === 'id' || (!IGNORED_FIELDS.test(field) && value !== null && value !== undefined)));
+}
+
+function diffFields(previous: Record<string, any>, current: Record<string, any>): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+    if (IGNORED_FIELDS.test(field)) {
+      continue;
+    }
+    if (JSON.stringify(previous[field] ?? null) !== JSON.stringify(current[field] ?? null)) {
+      changes[field] = { from: previous[field] ?? null, to: current[field] ?? null };
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,63 @@
+// Event Replay Buffer for SSE resume
+// Numbers the events broadcast on one tenant's stream and keeps the most recent ones,
+// so a client reconnecting with Last-Event-ID can be sent what it missed.
+
+export interface BufferedEvent {
+  id: number;
+  event?: string;
+  data: any;
+}
+
+// Events kept per tenant stream (oldest overwritten first)
+export const DEFAULT_REPLAY_BUFFER_SIZE = 1000;
+
+export class EventReplayBuffer {
+  private readonly slots: (BufferedEvent | undefined)[];
+  private lastId = 0;
+
+  constructor(capacity: number = DEFAULT_REPLAY_BUFFER_SIZE) {
+    this.slots = new Array(Math.max(1, capacity));
+  }
+
+  /**
+   * Store an event under the next ID and return that ID
+   */
+  push(event: string | undefined, data: any): number {
+    const id = ++this.lastId;
+    this.slots[id % this.slots.length] = { id, ...(event && { event }), data };
+    return id;
+  }
+
+  /**
+   * ID of the newest event (0 before the first one)
+   */
+  get latestId(): number {
+    return this.lastId;
+  }
+
+  /**
+   * ID of the oldest event still held
+   */
+  get oldestId(): number {
+    return Math.max(1, this.lastId - this.slots.length + 1);
+  }
+
+  /**
+   * Events after lastEventId, oldest first - or null when some of them are no longer held
+   * (or the ID was never issued, e.g. by a previous server process)
+   */
+  since(lastEventId: number): BufferedEvent[] | null {
+    if (!Number.isInteger(lastEventId) || lastEventId < 0 || lastEventId > this.lastId) {
+      return null;
+    }
+    if (lastEventId + 1 < this.oldestId) {
+      return null;
+    }
+
+    const events: BufferedEvent[] = [];
+    for (let id = lastEventId + 1; id <= this.lastId; id++) {
+      events.push(this.slots[id % this.slots.length]!);
+    }
+    return events;
+  }
+}
@@ -2,18 +2,24 @@
 // Provides HTTP endpoints while reusing existing MCP infrastructure
 
 import { AutotaskService } from '../services/autotask.service.js';
+import { TenantRegistry } from '../services/tenant-registry.service.js';
+import { RateLimitWarningListener, TenantRateLimitStats } from '../services/rate-limiter.service.js';
+import { CircuitBreakerSnapshot } from '../services/circuit-breaker.service.js';
+import { FanOutOptions } from '../services/fan-out.service.js';
 import { EnhancedAutotaskToolHandler } from '../handlers/enhanced.tool.handler.js';
 import { AutotaskResourceHandler } from '../handlers/resource.handler.js';
 import { Logger } from '../utils/logger.js';
-import { McpServerConfig } from '../types/mcp.js';
+import { McpServerConfig, TenantContext } from '../types/mcp.js';
 
 export interface HttpToolRequest {
   arguments: Record<string, any>;
   tenant?: {
     tenantId?: string;
-    username: string;
-    secret: string;
-    integrationCode: string;
+    // Registered tenants authenticate with tenantId + accessKey instead of raw credentials
+    accessKey?: string;
+    username?: string;
+    secret?: string;
+    integrationCode?: string;
     apiUrl?: string;
     sessionId?: string;
     impersonationResourceId?: number;
@@ -77,6 +83,68 @@ export class McpHttpBridge {
     }
   }
 
+  /**
+   * Run a read-only tool for several tenants (each with its own credentials or access key) and merge the results
+   */
+  async callToolAcrossTenants(
+    toolName: string,
+    tenants: Array<NonNullable<HttpToolRequest['tenant']> | TenantContext>,
+    args: Record<string, any>,
+    options: Partial<FanOutOptions> = {}
+  ): Promise<HttpToolResponse> {
+    try {
+      const result = await this.toolHandler.callToolAcrossTenants(toolName, args, tenants, options);
+      return {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.error(`HTTP fan-out failed: ${toolName}`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Run a read-only tool for registered tenants (all active ones when no IDs are given),
+   * using their stored credentials. Admin only.
+   */
+  async callToolAcrossRegisteredTenants(
+    toolName: string,
+    tenantIds: string[] | undefined,
+    args: Record<string, any>,
+    options: Partial<FanOutOptions> = {}
+  ): Promise<HttpToolResponse> {
+    const registry = this.autotaskService.getTenantRegistry();
+    if (!registry) {
+      return {
+        success: false,
+        error: 'Tenant registry is not configured (requires MULTI_TENANT_ENABLED=true and TENANT_REGISTRY_KEY)',
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    try {
+      const ids = tenantIds ?? (await registry.listTenants()).filter(t => t.status === 'active').map(t => t.tenantId);
+      // Pass resolved contexts, so the decrypted credentials never appear in tool arguments
+      const tenants: TenantContext[] = await Promise.all(ids.map(async tenantId => ({
+        tenantId,
+        credentials: await registry.getActiveCredentials(tenantId)
+      })));
+      return this.callToolAcrossTenants(toolName, tenants, args, options);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
   /**
    * Get list of available tools
    */
@@ -189,6 +257,48 @@ export class McpHttpBridge {
     return this.callTool('test_connection', request);
   }
 
+  /**
+   * Get the tenant registry (null when not configured)
+   */
+  getTenantRegistry(): TenantRegistry | null {
+    return this.autotaskService.getTenantRegistry();
+  }
+
+  /**
+   * Subscribe to per-tenant API budget warnings. Returns an unsubscribe function.
+   */
+  onRateLimitWarning(listener: RateLimitWarningListener): () => void {
+    return this.autotaskService.onRateLimitWarning(listener);
+  }
+
+  /**
+   * Circuit breaker state for a tenant (single-tenant mode when no tenant is given)
+   */
+  async getCircuitState(tenant?: HttpToolRequest['tenant']): Promise<CircuitBreakerSnapshot> {
+    return this.autotaskService.getCircuitState(this.toTenantContext(tenant));
+  }
+
+  /**
+   * Key identifying the Autotask tenant behind HTTP tenant fields (hashed, safe to log)
+   */
+  getTenantKey(tenant?: HttpToolRequest['tenant']): string {
+    return this.autotaskService.getTenantPartitionKey(this.toTenantContext(tenant));
+  }
+
+  /**
+   * Hourly API budget usage for a tenant (null before its first call)
+   */
+  async getRateLimitStats(tenant?: HttpToolRequest['tenant']): Promise<TenantRateLimitStats | null> {
+    return this.autotaskService.getRateLimitStats(this.toTenantContext(tenant));
+  }
+
+  /**
+   * Circuit breaker state for every tenant
+   */
+  getCircuitStates(): CircuitBreakerSnapshot[] {
+    return this.autotaskService.getCircuitStates();
+  }
+
   /**
    * Get server health status
    */
@@ -218,6 +328,28 @@ export class McpHttpBridge {
     }
   }
 
+  /**
+   * Build a tenant context from HTTP tenant fields (without going through a tool call)
+   */
+  private toTenantContext(tenant?: HttpToolRequest['tenant']): TenantContext | undefined {
+    if (!tenant?.tenantId && !tenant?.username) {
+      return undefined;
+    }
+    const tenantId = tenant.tenantId || `tenant_${tenant.username}`;
+    if (tenant.username && tenant.secret && tenant.integrationCode) {
+      return {
+        tenantId,
+        credentials: {
+          username: tenant.username,
+          secret: tenant.secret,
+          integrationCode: tenant.integrationCode,
+          ...(tenant.apiUrl && { apiUrl: tenant.apiUrl })
+        }
+      };
+    }
+    return { tenantId, ...(tenant.accessKey && { accessKey: tenant.accessKey }) };
+  }
+
   /**
    * Sanitize arguments for logging (remove sensitive data)
    */
@@ -229,6 +361,7 @@ export class McpHttpBridge {
       sanitized._tenant = {
         ...sanitized._tenant,
         secret: '[REDACTED]',
+        ...(sanitized._tenant.accessKey && { accessKey: '[REDACTED]' }),
         username: sanitized._tenant.username ? `${sanitized._tenant.username.substring(0, 3)}***` : undefined
       };
     }
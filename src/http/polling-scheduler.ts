@@ -0,0 +1,60 @@
+// Polling Scheduler for SSE polling
+// Works out how long a polling session waits before its next poll: longer while nothing changes
+// or the tenant's hourly API budget runs low, shorter after bursts of changes - within min/max bounds.
+
+export type PollingIntervalReason = 'base' | 'idle' | 'burst' | 'budget';
+
+export interface PollingIntervalInput {
+  baseIntervalMs: number;      // Interval the session was started with
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  currentIntervalMs: number;
+  idleCycles: number;          // Polls in a row (including this one) that found no changes
+  changes: number;             // Changes found by this poll
+  backlog: boolean;            // A change feed has more pages than this poll read
+  budgetUsed?: number;         // Fraction of the tenant's hourly request budget used, when known
+}
+
+// Polls without changes before the interval starts growing, and how fast it grows
+export const IDLE_CYCLES_BEFORE_BACKOFF = 3;
+const IDLE_BACKOFF_FACTOR = 1.5;
+
+// Changes in one poll that count as a burst; each burst halves the interval
+export const BURST_CHANGES = 10;
+
+// Budget usage -> slowest the base interval is multiplied by (checked in order)
+const BUDGET_THRESHOLDS: Array<{ used: number; factor: number }> = [
+  { used: 0.9, factor: Infinity },
+  { used: 0.75, factor: 4 },
+  { used: 0.5, factor: 2 }
+];
+
+/**
+ * Interval before the next poll, and what decided it
+ */
+export function getNextPollingInterval(input: PollingIntervalInput): { intervalMs: number; reason: PollingIntervalReason } {
+  let intervalMs = input.baseIntervalMs;
+  let reason: PollingIntervalReason = 'base';
+
+  if (input.backlog || input.changes >= BURST_CHANGES) {
+    intervalMs = Math.min(input.currentIntervalMs, input.baseIntervalMs) / 2;
+    reason = 'burst';
+  } else if (input.idleCycles >= IDLE_CYCLES_BEFORE_BACKOFF) {
+    intervalMs = Math.max(input.currentIntervalMs, input.baseIntervalMs) * IDLE_BACKOFF_FACTOR;
+    reason = 'idle';
+  }
+
+  // A running-low budget overrides everything else
+  const threshold = input.budgetUsed === undefined
+    ? undefined
+    : BUDGET_THRESHOLDS.find(({ used }) => input.budgetUsed! >= used);
+  if (threshold && intervalMs < input.baseIntervalMs * threshold.factor) {
+    intervalMs = input.baseIntervalMs * threshold.factor;
+    reason = 'budget';
+  }
+
+  return {
+    intervalMs: Math.round(Math.min(input.maxIntervalMs, Math.max(input.minIntervalMs, intervalMs))),
+    reason
+  };
+}
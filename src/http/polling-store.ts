@@ -0,0 +1,67 @@
+// Polling Store for SSE polling
+// Keeps polling sessions - config, tenant credentials, watermarks and snapshots of the records
+// they have seen - in an encrypted local file, so pollers survive a server restart.
+
+import type { HttpToolRequest } from './mcp-bridge.js';
+import type { PollingConfig, PollingEntity } from './sse-manager.js';
+import { Logger } from '../utils/logger.js';
+import { EncryptedJsonFile } from '../utils/encrypted-file.js';
+
+export interface PollingStoreConfig {
+  storePath: string;
+  encryptionKey: string;
+}
+
+/**
+ * A polling session as persisted. Change feed cursors are not kept: a restored session reads
+ * again from its watermark, and its snapshot stops already-seen records from being re-reported.
+ */
+export interface PersistedPollingSession {
+  pollId: string;
+  tenantId: string;
+  tenant: NonNullable<HttpToolRequest['tenant']>;
+  config: PollingConfig;
+  consumers: string[];          // Consumer IDs from start-polling (SSE clients don't outlive a restart)
+  startedAt: string;
+  lastPollAt: string | null;
+  lastListenedAt: string;       // Last time an SSE client of the tenant was connected
+  pollCount: number;
+  errorCount: number;
+  effectiveIntervalMs: number;
+  idleCycles: number;
+  feeds: Partial<Record<PollingEntity, { watermark: string; snapshot: Record<string, any>[] }>>;
+}
+
+export class PollingStore {
+  private logger: Logger;
+  private file: EncryptedJsonFile<PersistedPollingSession[]>;   // Sessions include tenant credentials, so the file is encrypted
+
+  constructor(config: PollingStoreConfig, logger: Logger) {
+    if (!config.encryptionKey) {
+      throw new Error('Polling store requires an encryption key (POLLING_STORE_KEY)');
+    }
+    this.logger = logger;
+    this.file = new EncryptedJsonFile({
+      filePath: config.storePath,
+      encryptionKey: config.encryptionKey,
+      label: 'polling store',
+      keyEnvVar: 'POLLING_STORE_KEY'
+    });
+  }
+
+  /**
+   * Sessions saved by the last save (none if nothing was persisted yet)
+   */
+  async load(): Promise<PersistedPollingSession[]> {
+    const sessions = await this.file.read() ?? [];
+    this.logger.debug(`Polling store loaded: ${sessions.length} sessions`);
+    return sessions;
+  }
+
+  /**
+   * Replace the stored sessions
+   */
+  async save(sessions: PersistedPollingSession[]): Promise<void> {
+    await this.file.write(sessions);
+  }
+}
@@ -3,8 +3,12 @@
 
 import express from 'express';
 import cors from 'cors';
+import crypto from 'crypto';
 import { McpHttpBridge, HttpToolRequest } from './mcp-bridge.js';
-import { SseManager } from './sse-manager.js';
+import { SseManager, PollingConfig, POLLING_ENTITIES, isPollingEntity } from './sse-manager.js';
+import { PollingStore } from './polling-store.js';
+import { TenantRegistry } from '../services/tenant-registry.service.js';
+import { FanOutOptions } from '../services/fan-out.service.js';
 import { Logger } from '../utils/logger.js';
 import { loadEnvironmentConfig, mergeWithMcpConfig, createMultiTenantConfig } from '../utils/config.js';
 
@@ -14,9 +18,11 @@ export class AutotaskHttpServer {
   private sseManager: SseManager;
   private logger: Logger;
   private port: number;
+  private adminToken: string | undefined;
 
   constructor(port: number = 3000) {
     this.port = port;
+    this.adminToken = process.env.TENANT_ADMIN_TOKEN;
     
     // Load configuration
     const envConfig = loadEnvironmentConfig();
@@ -39,6 +45,30 @@ export class AutotaskHttpServer {
       if (envConfig.multiTenant.sessionTimeout) {
         configOptions.sessionTimeout = envConfig.multiTenant.sessionTimeout;
       }
+      if (envConfig.multiTenant.tenantRegistry) {
+        configOptions.tenantRegistry = envConfig.multiTenant.tenantRegistry;
+      }
+      if (envConfig.rateLimit) {
+        configOptions.rateLimit = envConfig.rateLimit;
+      }
+      if (envConfig.retry) {
+        configOptions.retry = envConfig.retry;
+      }
+      if (envConfig.circuitBreaker) {
+        configOptions.circuitBreaker = envConfig.circuitBreaker;
+      }
+      if (envConfig.zoneDiscovery) {
+        configOptions.zoneDiscovery = envConfig.zoneDiscovery;
+      }
+      if (envConfig.countCache) {
+        configOptions.countCache = envConfig.countCache;
+      }
+      if (envConfig.metadataCache) {
+        configOptions.metadataCache = envConfig.metadataCache;
+      }
+      if (envConfig.policy) {
+        configOptions.policy = envConfig.policy;
+      }
       
       mcpConfig = createMultiTenantConfig(configOptions);
     } else {
@@ -48,7 +78,10 @@ export class AutotaskHttpServer {
     // Initialize Express app and MCP bridge
     this.app = express();
     this.bridge = new McpHttpBridge(mcpConfig, this.logger);
-    this.sseManager = new SseManager(this.bridge, this.logger);
+    this.sseManager = new SseManager(this.bridge, this.logger, {
+      ...(envConfig.pollingStore && { pollingStore: new PollingStore(envConfig.pollingStore, this.logger) }),
+      ...(envConfig.pollingStore?.sessionTtlMs && { pollingSessionTtlMs: envConfig.pollingStore.sessionTtlMs })
+    });
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -188,15 +221,70 @@ export class AutotaskHttpServer {
       }
     });
 
+    // Circuit breaker state for the calling tenant
+    this.app.post('/api/autotask/circuit-breaker', async (req, res) => {
+      try {
+        const { tenant } = req.body;
+        const circuit = await this.bridge.getCircuitState(tenant);
+        res.json({
+          success: true,
+          data: circuit,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        res.status(400).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get circuit breaker state',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Run a read-only tool for several tenants (each with its own credentials or access key)
+    this.app.post('/api/autotask/fan-out/:toolName', async (req, res) => {
+      const { tenants, arguments: args = {}, concurrency, timeoutMs } = req.body || {};
+      if (!Array.isArray(tenants) || tenants.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request: tenants must be a non-empty array',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const result = await this.bridge.callToolAcrossTenants(req.params.toolName, tenants, args, this.getFanOutOptions(concurrency, timeoutMs));
+      res.status(result.success ? 200 : 400).json(result);
+    });
+
     // SSE Endpoints
 
+    // SSE client statistics (registered before the stream route, which would take "stats" as a tenant ID)
+    this.app.get('/api/autotask/stream/stats', (_req, res) => {
+      try {
+        const stats = this.sseManager.getStats();
+        res.json({
+          success: true,
+          data: stats,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to get SSE stats',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
     // SSE Stream endpoint
     this.app.get('/api/autotask/stream/:tenantId?', (req, res) => {
       try {
         const tenantId = req.params.tenantId;
         const clientId = `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        // EventSource sends Last-Event-ID when it reconnects; the query parameter is for clients that cannot set headers
+        const lastEventId = req.get('Last-Event-ID') ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
         
-        this.sseManager.addClient(clientId, res, tenantId);
+        this.sseManager.addClient(clientId, res, tenantId, lastEventId);
         
         // Keep connection alive with heartbeat
         const heartbeat = setInterval(() => {
@@ -223,7 +311,7 @@ export class AutotaskHttpServer {
     // Start polling for a tenant
     this.app.post('/api/autotask/stream/start-polling', async (req, res) => {
       try {
-        const { tenant, intervalMs = 30000 } = req.body;
+        const { tenant, intervalMs = 30000, minIntervalMs, maxIntervalMs, entities, pageSize, filters, clientId } = req.body;
         
         if (!tenant) {
           return res.status(400).json({
@@ -233,11 +321,47 @@ export class AutotaskHttpServer {
           });
         }
 
-        const pollId = await this.sseManager.startPolling(tenant, intervalMs);
+        const invalid = this.validatePollingOptions({ intervalMs, minIntervalMs, maxIntervalMs, entities, pageSize, filters });
+        if (invalid) {
+          return res.status(400).json({
+            success: false,
+            error: invalid,
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        // An SSE client consumes the poller until it disconnects; other callers get a consumerId for stop-polling
+        if (clientId !== undefined && !this.sseManager.hasClient(clientId)) {
+          return res.status(404).json({
+            success: false,
+            error: `SSE client not connected: ${clientId}`,
+            timestamp: new Date().toISOString()
+          });
+        }
+        const consumerId = clientId ?? `consumer_${crypto.randomUUID()}`;
+
+        const config: Partial<PollingConfig> = {
+          ...(minIntervalMs && { minIntervalMs }),
+          ...(maxIntervalMs && { maxIntervalMs }),
+          ...(entities && { entities }),
+          ...(pageSize && { pageSize }),
+          ...(filters && { filters })
+        };
+        const pollId = await this.sseManager.startPolling(tenant, intervalMs, config, consumerId);
+        const session = this.sseManager.getPollingSession(pollId);
         
         return res.json({
           success: true,
-          data: { pollId, intervalMs },
+          data: {
+            pollId,
+            consumerId,
+            intervalMs,
+            minIntervalMs: session?.config.minIntervalMs,
+            maxIntervalMs: session?.config.maxIntervalMs,
+            entities: session?.config.entities,
+            pageSize: session?.config.pageSize,
+            consumers: session?.consumers.size
+          },
           timestamp: new Date().toISOString()
         });
       } catch (error) {
@@ -252,7 +376,7 @@ export class AutotaskHttpServer {
     // Stop polling
     this.app.post('/api/autotask/stream/stop-polling', (req, res) => {
       try {
-        const { pollId } = req.body;
+        const { pollId, consumerId } = req.body;
         
         if (!pollId) {
           return res.status(400).json({
@@ -262,6 +386,27 @@ export class AutotaskHttpServer {
           });
         }
 
+        // With consumerId only that consumer leaves; the shared poller keeps running for the others
+        if (consumerId) {
+          const released = this.sseManager.releasePolling(pollId, consumerId);
+          const consumers = this.sseManager.getPollingSession(pollId)?.consumers.size ?? 0;
+          return res.json({
+            success: released,
+            data: { pollId, consumerId, released, stopped: released && consumers === 0, consumers },
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        // Without a consumerId, only a poller nobody else uses may be stopped
+        const consumers = this.sseManager.getPollingSession(pollId)?.consumers.size ?? 0;
+        if (consumers > 1) {
+          return res.status(409).json({
+            success: false,
+            error: `Polling session ${pollId} is shared by ${consumers} consumers - pass your consumerId to leave it`,
+            timestamp: new Date().toISOString()
+          });
+        }
+
         const stopped = this.sseManager.stopPolling(pollId);
         
         return res.json({
@@ -307,22 +452,65 @@ export class AutotaskHttpServer {
       }
     });
 
-    // SSE client statistics
-    this.app.get('/api/autotask/stream/stats', (_req, res) => {
-      try {
-        const stats = this.sseManager.getStats();
-        res.json({
-          success: true,
-          data: stats,
+    // Subscriptions of an SSE client (its clientId comes with the connected event)
+    this.app.get('/api/autotask/stream/:clientId/subscriptions', (req, res) => {
+      const subscriptions = this.sseManager.getSubscriptions(req.params.clientId);
+      if (!subscriptions) {
+        return res.status(404).json({
+          success: false,
+          error: `SSE client not connected: ${req.params.clientId}`,
           timestamp: new Date().toISOString()
         });
+      }
+      return res.json({
+        success: true,
+        data: { clientId: req.params.clientId, subscriptions },
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Subscribe an SSE client to event types, optionally only for matching records
+    this.app.post('/api/autotask/stream/:clientId/subscriptions', (req, res) => {
+      const { events = [], where } = req.body || {};
+      let subscription;
+      try {
+        subscription = this.sseManager.subscribe(req.params.clientId, events, where);
       } catch (error) {
-        res.status(500).json({
+        return res.status(400).json({
           success: false,
-          error: 'Failed to get SSE stats',
+          error: error instanceof Error ? error.message : 'Invalid subscription',
+          timestamp: new Date().toISOString()
+        });
+      }
+      if (!subscription) {
+        return res.status(404).json({
+          success: false,
+          error: `SSE client not connected: ${req.params.clientId}`,
+          timestamp: new Date().toISOString()
+        });
+      }
+      return res.json({
+        success: true,
+        data: subscription,
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Remove one subscription, or all of a client's subscriptions
+    this.app.delete('/api/autotask/stream/:clientId/subscriptions/:subscriptionId?', (req, res) => {
+      const { clientId, subscriptionId } = req.params;
+      if (!this.sseManager.unsubscribe(clientId, subscriptionId)) {
+        return res.status(404).json({
+          success: false,
+          error: 'No such SSE client or subscription',
           timestamp: new Date().toISOString()
         });
       }
+      return res.json({
+        success: true,
+        data: { clientId, subscriptions: this.sseManager.getSubscriptions(clientId) },
+        timestamp: new Date().toISOString()
+      });
     });
 
     // Convenience endpoints for common operations
@@ -330,9 +518,9 @@ export class AutotaskHttpServer {
     // Search companies
     this.app.post('/api/autotask/companies/search', async (req, res) => {
       try {
-        const { searchTerm, isActive, pageSize, tenant } = req.body;
+        const { searchTerm, isActive, page, pageSize, cursor, tenant } = req.body;
         const result = await this.bridge.callTool('search_companies', {
-          arguments: { searchTerm, isActive, pageSize },
+          arguments: { searchTerm, isActive, page, pageSize, cursor },
           tenant
         });
         res.status(result.success ? 200 : 400).json(result);
@@ -348,9 +536,9 @@ export class AutotaskHttpServer {
     // Search tickets
     this.app.post('/api/autotask/tickets/search', async (req, res) => {
       try {
-        const { searchTerm, status, assignedResourceID, companyId, pageSize, tenant } = req.body;
+        const { searchTerm, status, assignedResourceID, companyId, page, pageSize, cursor, tenant } = req.body;
         const result = await this.bridge.callTool('search_tickets', {
-          arguments: { searchTerm, status, assignedResourceID, companyId, pageSize },
+          arguments: { searchTerm, status, assignedResourceID, companyId, page, pageSize, cursor },
           tenant
         });
         res.status(result.success ? 200 : 400).json(result);
@@ -381,6 +569,160 @@ export class AutotaskHttpServer {
       }
     });
 
+    // Records created or updated since a watermark. GET bodies are often dropped, so the tenant comes from
+    // Authorization: Basic base64(tenantId:accessKey) (a JSON body tenant is still accepted)
+    this.app.get('/api/autotask/:entity/changes', async (req, res) => {
+      let tenant: HttpToolRequest['tenant'];
+      try {
+        tenant = this.getBasicAuthTenant(req) ?? req.body?.tenant;
+      } catch (error) {
+        res.status(401).json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid authorization',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      try {
+        const { since, cursor, pageSize } = req.query;
+        const result = await this.bridge.callTool('get_changes_since', {
+          arguments: {
+            entity: req.params.entity,
+            ...(typeof since === 'string' && { since }),
+            ...(typeof cursor === 'string' && { cursor }),
+            ...(typeof pageSize === 'string' && { pageSize: Number(pageSize) })
+          },
+          ...(tenant && { tenant })
+        });
+        res.status(result.success ? 200 : 400).json(result);
+      } catch (error) {
+        res.status(500).json({
+          success: false,
+          error: 'Change feed failed',
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
+    // Tenant registry admin endpoints (require TENANT_ADMIN_TOKEN bearer token)
+    const requireAdmin = this.requireAdmin.bind(this);
+
+    // List registered tenants
+    this.app.get('/api/admin/tenants', requireAdmin, async (_req, res) => {
+      try {
+        const tenants = await this.getRegistry().listTenants();
+        res.json({
+          success: true,
+          data: tenants,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        this.sendAdminError(res, error, 'Failed to list tenants');
+      }
+    });
+
+    // Register a tenant - returns the access key once, it is not stored in plain text
+    this.app.post('/api/admin/tenants', requireAdmin, async (req, res) => {
+      try {
+        const { tenantId, name, credentials } = req.body;
+        const result = await this.getRegistry().createTenant({
+          ...(tenantId && { tenantId }),
+          ...(name && { name }),
+          credentials
+        });
+        res.status(201).json({
+          success: true,
+          data: result,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        this.sendAdminError(res, error, 'Failed to register tenant');
+      }
+    });
+
+    // Rotate a tenant's access key (and optionally its Autotask credentials)
+    this.app.post('/api/admin/tenants/:tenantId/rotate', requireAdmin, async (req, res) => {
+      try {
+        const result = await this.getRegistry().rotateTenant(req.params.tenantId, req.body?.credentials);
+        res.json({
+          success: true,
+          data: result,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        this.sendAdminError(res, error, 'Failed to rotate tenant access key');
+      }
+    });
+
+    // Disable a tenant - its access key is rejected until re-enabled
+    this.app.post('/api/admin/tenants/:tenantId/disable', requireAdmin, async (req, res) => {
+      try {
+        const tenant = await this.getRegistry().setTenantStatus(req.params.tenantId, 'disabled');
+        res.json({
+          success: true,
+          data: tenant,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        this.sendAdminError(res, error, 'Failed to disable tenant');
+      }
+    });
+
+    // Re-enable a disabled tenant
+    this.app.post('/api/admin/tenants/:tenantId/enable', requireAdmin, async (req, res) => {
+      try {
+        const tenant = await this.getRegistry().setTenantStatus(req.params.tenantId, 'active');
+        res.json({
+          success: true,
+          data: tenant,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        this.sendAdminError(res, error, 'Failed to enable tenant');
+      }
+    });
+
+    // Delete a tenant and its stored credentials
+    this.app.delete('/api/admin/tenants/:tenantId', requireAdmin, async (req, res) => {
+      try {
+        const tenantId = req.params.tenantId;
+        const deleted = await this.getRegistry().deleteTenant(tenantId);
+        res.status(deleted ? 200 : 404).json({
+          success: deleted,
+          ...(deleted ? { data: { tenantId, deleted } } : { error: `Tenant ${tenantId} is not registered` }),
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        this.sendAdminError(res, error, 'Failed to delete tenant');
+      }
+    });
+
+    // Circuit breaker state for every tenant that has called Autotask
+    this.app.get('/api/admin/circuit-breakers', requireAdmin, (_req, res) => {
+      res.json({
+        success: true,
+        data: this.bridge.getCircuitStates(),
+        timestamp: new Date().toISOString()
+      });
+    });
+
+    // Run a read-only tool across registered tenants (all active tenants unless tenantIds is given)
+    this.app.post('/api/admin/fan-out/:toolName', requireAdmin, async (req, res) => {
+      const { tenantIds, arguments: args = {}, concurrency, timeoutMs } = req.body || {};
+      if (tenantIds !== undefined && !Array.isArray(tenantIds)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request: tenantIds must be an array',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const result = await this.bridge.callToolAcrossRegisteredTenants(req.params.toolName, tenantIds, args, this.getFanOutOptions(concurrency, timeoutMs));
+      res.status(result.success ? 200 : 400).json(result);
+    });
+
     // API documentation endpoint
     this.app.get('/api/docs', (_req, res) => {
       res.json({
@@ -395,20 +737,36 @@ export class AutotaskHttpServer {
           'GET /api/autotask/resources/*': 'Read specific resource',
           'POST /api/autotask/tools/:toolName': 'Execute a tool',
           'POST /api/autotask/test-connection': 'Test API connection',
+          'POST /api/autotask/circuit-breaker': 'Get circuit breaker state for the tenant in the request body',
+          'POST /api/autotask/fan-out/:toolName': 'Run a read-only tool for the tenants in the request body and merge the results',
           'POST /api/autotask/companies/search': 'Search companies',
           'POST /api/autotask/tickets/search': 'Search tickets',
           'POST /api/autotask/tickets': 'Create ticket',
+          'GET /api/autotask/:entity/changes?since=': 'Records created or updated since a watermark (tickets, companies, contacts, projects, tasks, timeentries, opportunities, configurationitems); pass cursor to continue. Tenant via Authorization: Basic tenantId:accessKey',
           
           // Server-Sent Events endpoints
-          'GET /api/autotask/stream/:tenantId?': 'Open SSE connection for real-time updates',
-          'POST /api/autotask/stream/start-polling': 'Start polling Autotask data for real-time updates',
-          'POST /api/autotask/stream/stop-polling': 'Stop polling for a specific poll ID',
+          'GET /api/autotask/stream/:tenantId?': 'Open SSE connection for real-time updates (Last-Event-ID header or ?lastEventId= replays missed events)',
+          'POST /api/autotask/stream/start-polling': 'Start polling Autotask data for real-time updates (intervalMs adapting within minIntervalMs..maxIntervalMs, entities, pageSize, filters); identical requests for a tenant share one poller, held by clientId or the returned consumerId',
+          'POST /api/autotask/stream/stop-polling': 'Leave a poller (pollId + consumerId; it stops with its last consumer); pollId alone only stops a poller with at most one consumer',
           'POST /api/autotask/stream/broadcast': 'Broadcast message to SSE clients',
-          'GET /api/autotask/stream/stats': 'Get SSE client statistics'
+          'GET /api/autotask/stream/:clientId/subscriptions': 'List the subscriptions of an SSE client',
+          'POST /api/autotask/stream/:clientId/subscriptions': 'Subscribe an SSE client to event types ({ events, where: { companyID: 42 } }); clients without subscriptions get every event',
+          'DELETE /api/autotask/stream/:clientId/subscriptions/:subscriptionId?': 'Remove one subscription, or all of them',
+          'GET /api/autotask/stream/stats': 'Get SSE client statistics',
+
+          // Tenant registry admin endpoints (Authorization: Bearer TENANT_ADMIN_TOKEN)
+          'GET /api/admin/tenants': 'List registered tenants',
+          'POST /api/admin/tenants': 'Register a tenant and issue its access key',
+          'POST /api/admin/tenants/:tenantId/rotate': 'Rotate tenant access key (optionally replace credentials)',
+          'POST /api/admin/tenants/:tenantId/disable': 'Disable a tenant',
+          'POST /api/admin/tenants/:tenantId/enable': 'Re-enable a disabled tenant',
+          'DELETE /api/admin/tenants/:tenantId': 'Delete a tenant',
+          'GET /api/admin/circuit-breakers': 'Circuit breaker state for all tenants',
+          'POST /api/admin/fan-out/:toolName': 'Run a read-only tool across registered tenants (all active unless tenantIds is given)'
         },
         multiTenant: {
           enabled: true,
-          description: 'Include tenant credentials in request body for multi-tenant mode'
+          description: 'Include tenant credentials in request body for multi-tenant mode, or tenantId + accessKey for tenants registered via /api/admin/tenants'
         },
         serverSentEvents: {
           enabled: true,
@@ -416,9 +774,13 @@ export class AutotaskHttpServer {
           events: [
             'connected - Initial connection established',
             'heartbeat - Keep-alive ping every 30 seconds',
-            'tickets-update - Real-time ticket updates',
+            'resync-required - Sent on reconnect when the missed events are no longer held; reload data before relying on further events',
+            'ticket-created / ticket-updated - A polled ticket was created or changed (updates list the changed fields)',
+            'ticket-status-changed / ticket-assigned / ticket-completed - Ticket status moves, (re)assignment and completion',
+            'company-, contact-, project-, task-, time-entry-, opportunity- and configuration-item-created / -updated - Changes to other polled entities',
             'operation-complete - Notification when operations finish',
             'polling-error - Errors during data polling',
+            'polling-health - Poller health every 30 seconds, with the current intervalMs and why (base, idle, burst, budget)',
             'subscription-updated - Event subscription changes'
           ]
         }
@@ -436,7 +798,127 @@ export class AutotaskHttpServer {
     });
   }
 
+  /**
+   * Fan-out options from a request body (ignores non-numeric values)
+   */
+  private getFanOutOptions(concurrency: unknown, timeoutMs: unknown): Partial<FanOutOptions> {
+    return {
+      ...(typeof concurrency === 'number' && { concurrency }),
+      ...(typeof timeoutMs === 'number' && { timeoutMs })
+    };
+  }
+
+  /**
+   * Problem with the polling options of a start-polling request, if any
+   */
+  private validatePollingOptions(options: Record<string, unknown>): string | null {
+    const { intervalMs, minIntervalMs, maxIntervalMs, entities, pageSize, filters } = options;
+    for (const [name, value] of Object.entries({ intervalMs, minIntervalMs, maxIntervalMs })) {
+      if (value !== undefined && !(Number.isInteger(value) && (value as number) > 0)) {
+        return `${name} must be a positive integer (milliseconds)`;
+      }
+    }
+    if ((minIntervalMs !== undefined && (minIntervalMs as number) > (intervalMs as number))
+      || (maxIntervalMs !== undefined && (maxIntervalMs as number) < (intervalMs as number))) {
+      return 'Polling intervals must satisfy minIntervalMs <= intervalMs <= maxIntervalMs';
+    }
+    if (entities !== undefined && (!Array.isArray(entities) || entities.length === 0 || !entities.every(isPollingEntity))) {
+      return `entities must be a non-empty array of: ${POLLING_ENTITIES.join(', ')}`;
+    }
+    if (pageSize !== undefined && !(Number.isInteger(pageSize) && (pageSize as number) > 0)) {
+      return 'pageSize must be a positive integer';
+    }
+    if (filters !== undefined && (typeof filters !== 'object' || filters === null || Array.isArray(filters))) {
+      return 'filters must be an object of field -> value (an array value means "any of")';
+    }
+    return null;
+  }
+
+  /**
+   * Guard admin routes with the TENANT_ADMIN_TOKEN bearer token
+   */
+  private requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction): void {
+    if (!this.adminToken) {
+      res.status(404).json({
+        success: false,
+        error: 'Tenant admin API is disabled (set TENANT_ADMIN_TOKEN to enable)',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    const header = req.get('Authorization') || '';
+    const provided = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+    const expected = Buffer.from(this.adminToken);
+
+    if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+      this.logger.warn('🔐 Rejected tenant admin request', { path: req.path, ip: req.ip });
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or missing admin token',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    next();
+  }
+
+  /**
+   * Registry tenant from `Authorization: Basic base64(tenantId:accessKey)`; undefined without a Basic header
+   */
+  private getBasicAuthTenant(req: express.Request): HttpToolRequest['tenant'] {
+    const header = req.get('Authorization') || '';
+    if (!header.startsWith('Basic ')) {
+      return undefined;
+    }
+
+    const decoded = Buffer.from(header.slice(6).trim(), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator <= 0) {
+      throw new Error('Basic authorization must be tenantId:accessKey');
+    }
+    return { tenantId: decoded.substring(0, separator), accessKey: decoded.substring(separator + 1) };
+  }
+
+  /**
+   * Get the tenant registry or fail if it isn't configured
+   */
+  private getRegistry(): TenantRegistry {
+    const registry = this.bridge.getTenantRegistry();
+    if (!registry) {
+      throw new Error('Tenant registry is not configured (requires MULTI_TENANT_ENABLED=true and TENANT_REGISTRY_KEY)');
+    }
+    return registry;
+  }
+
+  /**
+   * Map tenant registry errors to HTTP status codes
+   */
+  private sendAdminError(res: express.Response, error: unknown, fallback: string): void {
+    const message = error instanceof Error ? error.message : fallback;
+    let status = 400;
+    if (message.includes('not configured')) status = 503;
+    else if (message.includes('not registered')) status = 404;
+    else if (message.includes('already registered')) status = 409;
+    else if (message.includes('decrypt')) status = 500;
+
+    this.logger.error(`${fallback}:`, { error: message });
+    res.status(status).json({
+      success: false,
+      error: message,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   async start(): Promise<void> {
+    // Bring back the pollers that were running before the restart
+    try {
+      await this.sseManager.restorePollingSessions();
+    } catch (error) {
+      this.logger.error('Failed to restore polling sessions:', error);
+    }
+
     return new Promise((resolve, reject) => {
       try {
         this.app.listen(this.port, () => {
@@ -451,4 +933,12 @@ export class AutotaskHttpServer {
       }
     });
   }
+
+  /**
+   * Save polling sessions and close SSE connections before the process exits
+   */
+  async stop(): Promise<void> {
+    await this.sseManager.flushPollingSessions();
+    this.sseManager.destroy();
+  }
 } 
\ No newline at end of file
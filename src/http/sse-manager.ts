@@ -4,6 +4,11 @@
 
 import { Response } from 'express';
 import { McpHttpBridge, HttpToolRequest } from './mcp-bridge.js';
+import { DetectedChange, RecordSnapshot, detectChanges, toComparedFields } from './change-detector.js';
+import { EventReplayBuffer } from './event-replay-buffer.js';
+import { PollingIntervalReason, getNextPollingInterval } from './polling-scheduler.js';
+import { PersistedPollingSession, PollingStore } from './polling-store.js';
+import { ChangeFeedPage } from '../services/change-feed.service.js';
 import { Logger } from '../utils/logger.js';
 
 // ============================================
@@ -15,10 +20,21 @@ export interface SseClient {
   response: Response;
   tenantId: string | undefined;
   lastActivity: Date;
-  subscriptions: Set<string>;
+  subscriptions: Map<string, SseSubscription>;
   connectedAt: Date;
 }
 
+/**
+ * Events a client wants. A client without subscriptions receives every event for its tenant;
+ * otherwise an event is delivered when any of its subscriptions matches.
+ */
+export interface SseSubscription {
+  id: string;
+  events: string[];              // Event types (empty: all types)
+  // Field -> value the event's record must match (an array value means "any of"): { companyID: 42 }
+  where?: Record<string, any>;
+}
+
 export interface SseMessage {
   id?: string;
   event?: string;
@@ -26,31 +42,70 @@ export interface SseMessage {
   retry?: number;
 }
 
+export type PollingEntity =
+  | 'tickets'
+  | 'companies'
+  | 'contacts'
+  | 'projects'
+  | 'tasks'
+  | 'timeEntries'
+  | 'opportunities'
+  | 'configurationItems';
+
 /**
  * Configuration for a polling session
  */
 export interface PollingConfig {
-  intervalMs: number;
-  entities: ('tickets' | 'companies' | 'timeEntries')[];
+  intervalMs: number;      // Starting interval; adapts to change rate and API budget within the bounds
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  entities: PollingEntity[];
   pageSize: number;
+  // Field -> value conditions changed records must match (an array value means "any of").
+  // A key naming a polled entity holds conditions for that entity only: { tickets: { queueID: 8 } }
   filters?: Record<string, any>;
 }
 
 /**
- * Active polling session with health tracking
+ * Where a session's change feed for one entity stands
+ */
+export interface PollingFeedState {
+  watermark: string;     // Changes after this time have not been seen yet
+  cursor?: string;       // Set while a feed has more pages than one poll reads
+  snapshot: RecordSnapshot;
+}
+
+/**
+ * Active polling session with health tracking. Sessions are shared by every consumer that starts
+ * polling the same tenant with the same config, and stop when the last consumer leaves.
  */
 export interface PollingSession {
   pollId: string;
   tenantId: string;
+  tenant: NonNullable<HttpToolRequest['tenant']>;
   config: PollingConfig;
-  interval: NodeJS.Timeout;
+  pollerKey: string;           // Tenant key + normalized config
+  consumers: Set<string>;      // SSE client IDs or consumer IDs handed out by start-polling
+  timer: NodeJS.Timeout | null;  // Next scheduled poll
+  effectiveIntervalMs: number;
+  intervalReason: PollingIntervalReason;
+  idleCycles: number;            // Polls in a row that found no changes
   startedAt: Date;
   lastPollAt: Date | null;
+  lastListenedAt: Date;          // Last time an SSE client of the tenant was connected
   pollCount: number;
   errorCount: number;
   consecutiveErrors: number;
   lastError?: string;
   isHealthy: boolean;
+  feeds: Map<PollingEntity, PollingFeedState>;
+}
+
+export interface SseManagerOptions {
+  // Persists polling sessions so restorePollingSessions can bring them back after a restart
+  pollingStore?: PollingStore;
+  // Sessions nobody of their tenant has listened to for this long are stopped (and not restored)
+  pollingSessionTtlMs?: number;
 }
 
 /**
@@ -61,11 +116,28 @@ export const SSE_EVENT_TYPES = {
   CONNECTED: 'connected',
   DISCONNECTED: 'disconnected',
   HEARTBEAT: 'heartbeat',
+  RESYNC_REQUIRED: 'resync-required',
   
-  // Data update events
-  TICKETS_UPDATE: 'tickets-update',
-  COMPANIES_UPDATE: 'companies-update',
-  TIME_ENTRIES_UPDATE: 'time-entries-update',
+  // Change events (sent only when a polled record was created or actually changed)
+  TICKET_CREATED: 'ticket-created',
+  TICKET_UPDATED: 'ticket-updated',
+  TICKET_STATUS_CHANGED: 'ticket-status-changed',
+  TICKET_ASSIGNED: 'ticket-assigned',
+  TICKET_COMPLETED: 'ticket-completed',
+  COMPANY_CREATED: 'company-created',
+  COMPANY_UPDATED: 'company-updated',
+  TIME_ENTRY_CREATED: 'time-entry-created',
+  TIME_ENTRY_UPDATED: 'time-entry-updated',
+  CONTACT_CREATED: 'contact-created',
+  CONTACT_UPDATED: 'contact-updated',
+  PROJECT_CREATED: 'project-created',
+  PROJECT_UPDATED: 'project-updated',
+  TASK_CREATED: 'task-created',
+  TASK_UPDATED: 'task-updated',
+  OPPORTUNITY_CREATED: 'opportunity-created',
+  OPPORTUNITY_UPDATED: 'opportunity-updated',
+  CONFIGURATION_ITEM_CREATED: 'configuration-item-created',
+  CONFIGURATION_ITEM_UPDATED: 'configuration-item-updated',
   
   // Pagination events
   PAGINATION_WARNING: 'pagination-warning',
@@ -86,13 +158,54 @@ export const SSE_EVENT_TYPES = {
   SUBSCRIPTION_UPDATED: 'subscription-updated',
 } as const;
 
-// Circuit breaker constants for polling
-const POLLING_CIRCUIT_BREAKER = {
-  maxConsecutiveErrors: 3,
-  cooldownPeriodMs: 60000, // 1 minute cooldown
-  healthCheckIntervalMs: 30000, // 30 second health checks
+// Polling health events are broadcast this often. Tripping/recovery is handled by the
+// tenant's circuit breaker in AutotaskService, shared with every other call for that tenant.
+const POLLING_HEALTH_CHECK_INTERVAL_MS = 30000;
+
+// Bounds for adaptive polling intervals when a session doesn't set its own
+const DEFAULT_MIN_POLLING_INTERVAL_MS = 5000;
+const DEFAULT_MAX_POLLING_INTERVAL_MS = 300000;
+
+export const DEFAULT_POLLING_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How long a tenant stream's replay buffer outlives its last client and poller
+const REPLAY_BUFFER_IDLE_TTL_MS = 10 * 60 * 1000;
+
+// Session changes are written to the polling store at most this often
+const POLLING_STORE_WRITE_DELAY_MS = 5000;
+
+// How stale a listened session's lastListenedAt may get before it is updated and written (at most a tenth of the TTL)
+const LISTENED_AT_PERSIST_INTERVAL_MS = 60 * 60 * 1000;
+
+// Change feed pages read per entity in one poll; a longer backlog continues on the next poll
+const MAX_PAGES_PER_POLL = 5;
+
+// Change feed, event names and record key behind each pollable entity
+const POLLED_ENTITIES: Record<PollingEntity, { feed: string; recordKey: string; created: string; updated: string }> = {
+  tickets: { feed: 'tickets', recordKey: 'ticket', created: SSE_EVENT_TYPES.TICKET_CREATED, updated: SSE_EVENT_TYPES.TICKET_UPDATED },
+  companies: { feed: 'companies', recordKey: 'company', created: SSE_EVENT_TYPES.COMPANY_CREATED, updated: SSE_EVENT_TYPES.COMPANY_UPDATED },
+  contacts: { feed: 'contacts', recordKey: 'contact', created: SSE_EVENT_TYPES.CONTACT_CREATED, updated: SSE_EVENT_TYPES.CONTACT_UPDATED },
+  projects: { feed: 'projects', recordKey: 'project', created: SSE_EVENT_TYPES.PROJECT_CREATED, updated: SSE_EVENT_TYPES.PROJECT_UPDATED },
+  tasks: { feed: 'tasks', recordKey: 'task', created: SSE_EVENT_TYPES.TASK_CREATED, updated: SSE_EVENT_TYPES.TASK_UPDATED },
+  timeEntries: { feed: 'timeentries', recordKey: 'timeEntry', created: SSE_EVENT_TYPES.TIME_ENTRY_CREATED, updated: SSE_EVENT_TYPES.TIME_ENTRY_UPDATED },
+  opportunities: { feed: 'opportunities', recordKey: 'opportunity', created: SSE_EVENT_TYPES.OPPORTUNITY_CREATED, updated: SSE_EVENT_TYPES.OPPORTUNITY_UPDATED },
+  configurationItems: {
+    feed: 'configurationitems',
+    recordKey: 'configurationItem',
+    created: SSE_EVENT_TYPES.CONFIGURATION_ITEM_CREATED,
+    updated: SSE_EVENT_TYPES.CONFIGURATION_ITEM_UPDATED
+  }
 };
 
+export const POLLING_ENTITIES = Object.keys(POLLED_ENTITIES) as PollingEntity[];
+
+/**
+ * Whether a name is an entity polling sessions can watch
+ */
+export function isPollingEntity(name: unknown): name is PollingEntity {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(POLLED_ENTITIES, name);
+}
+
 export class SseManager {
   private clients: Map<string, SseClient> = new Map();
   private bridge: McpHttpBridge;
@@ -102,10 +215,26 @@ export class SseManager {
   // Proper polling session management (not using `this as any`)
   private pollingSessions: Map<string, PollingSession> = new Map();
   private pollingHealthCheckInterval: NodeJS.Timeout | null = null;
+  private pollerIds: Map<string, string> = new Map();  // Poller key -> pollId
+  private pollerCount = 0;
+  private consumerCount = 0;
 
-  constructor(bridge: McpHttpBridge, logger: Logger) {
+  private subscriptionCount = 0;
+
+  // Recent broadcasts per tenant stream ('' for clients without a tenant), for Last-Event-ID resume.
+  // Kept while the stream has clients or pollers, then for REPLAY_BUFFER_IDLE_TTL_MS so clients can reconnect
+  private replayBuffers: Map<string, EventReplayBuffer> = new Map();
+  private replayBufferIdleSince: Map<string, number> = new Map();
+
+  private pollingStore: PollingStore | undefined;
+  private pollingSessionTtlMs: number;
+  private persistTimer: NodeJS.Timeout | null = null;
+
+  constructor(bridge: McpHttpBridge, logger: Logger, options: SseManagerOptions = {}) {
     this.bridge = bridge;
     this.logger = logger;
+    this.pollingStore = options.pollingStore;
+    this.pollingSessionTtlMs = options.pollingSessionTtlMs ?? DEFAULT_POLLING_SESSION_TTL_MS;
     
     // Cleanup inactive clients every 30 seconds
     this.cleanupInterval = setInterval(() => {
@@ -114,6 +243,12 @@ export class SseManager {
     
     // Start polling health check
     this.startPollingHealthCheck();
+
+    // Forward API budget warnings from the rate limiter to the tenant's SSE clients
+    // (single-tenant mode has no tenant IDs, so its warnings go to every client)
+    this.bridge.onRateLimitWarning(({ tenantId, tenantKey, used, limit }) => {
+      this.sendRateLimitWarning(tenantKey === 'single-tenant' ? undefined : tenantId, used, limit);
+    });
   }
 
   // ============================================
@@ -121,9 +256,10 @@ export class SseManager {
   // ============================================
 
   /**
-   * Add a new SSE client
+   * Add a new SSE client. With lastEventId (the Last-Event-ID of a reconnecting client) the
+   * tenant's events after it are replayed, or resync-required is sent if they are no longer held.
    */
-  addClient(clientId: string, response: Response, tenantId?: string): SseClient {
+  addClient(clientId: string, response: Response, tenantId?: string, lastEventId?: string): SseClient {
     // Set SSE headers
     response.writeHead(200, {
       'Content-Type': 'text/event-stream',
@@ -140,7 +276,7 @@ export class SseManager {
       tenantId,
       lastActivity: now,
       connectedAt: now,
-      subscriptions: new Set()
+      subscriptions: new Map()
     };
 
     this.clients.set(clientId, client);
@@ -162,10 +298,95 @@ export class SseManager {
       }
     });
 
+    if (lastEventId !== undefined) {
+      this.replayMissedEvents(clientId, tenantId, lastEventId);
+    } else {
+      // Start numbering the stream now, so a reconnect can resume even if nothing was broadcast yet
+      this.getReplayBuffer(tenantId ?? '');
+    }
+
     this.logger.info(`SSE client connected: ${clientId}`, { tenantId });
     return client;
   }
 
+  /**
+   * Send a reconnecting client the events broadcast on its stream after lastEventId
+   */
+  private replayMissedEvents(clientId: string, tenantId: string | undefined, lastEventId: string): void {
+    const buffer = this.getReplayBuffer(tenantId ?? '');
+    const lastId = /^\d+$/.test(lastEventId.trim()) ? Number(lastEventId) : NaN;
+    const missed = buffer.since(lastId);
+
+    if (!missed) {
+      // Carries the latest ID so the client resumes from here once it has resynced
+      this.sendToClient(clientId, {
+        ...(buffer.latestId > 0 && { id: String(buffer.latestId) }),
+        event: SSE_EVENT_TYPES.RESYNC_REQUIRED,
+        data: {
+          lastEventId,
+          oldestAvailableId: buffer.latestId > 0 ? buffer.oldestId : null,
+          latestEventId: buffer.latestId,
+          message: 'Missed events are no longer available - reload current data before relying on further events',
+          timestamp: new Date().toISOString()
+        }
+      });
+      this.logger.info(`SSE client ${clientId} needs a resync`, { tenantId, lastEventId, latestEventId: buffer.latestId });
+      return;
+    }
+
+    for (const event of missed) {
+      this.sendToClient(clientId, { id: String(event.id), ...(event.event && { event: event.event }), data: event.data });
+    }
+    this.logger.debug(`Replayed ${missed.length} SSE events to ${clientId}`, { tenantId, lastEventId });
+  }
+
+  private getReplayBuffer(streamKey: string): EventReplayBuffer {
+    let buffer = this.replayBuffers.get(streamKey);
+    if (!buffer) {
+      buffer = new EventReplayBuffer();
+      this.replayBuffers.set(streamKey, buffer);
+    }
+    return buffer;
+  }
+
+  /**
+   * Whether a tenant stream has a connected client or a polling session
+   */
+  private isActiveStream(streamKey: string): boolean {
+    for (const client of this.clients.values()) {
+      if ((client.tenantId ?? '') === streamKey) {
+        return true;
+      }
+    }
+    for (const session of this.pollingSessions.values()) {
+      if (session.tenantId === streamKey) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Drop the replay buffers of streams that have had no clients or pollers for REPLAY_BUFFER_IDLE_TTL_MS
+   */
+  private evictIdleReplayBuffers(now: number = Date.now()): void {
+    for (const streamKey of Array.from(this.replayBuffers.keys())) {
+      if (this.isActiveStream(streamKey)) {
+        this.replayBufferIdleSince.delete(streamKey);
+        continue;
+      }
+
+      const idleSince = this.replayBufferIdleSince.get(streamKey);
+      if (idleSince === undefined) {
+        this.replayBufferIdleSince.set(streamKey, now);
+      } else if (now - idleSince >= REPLAY_BUFFER_IDLE_TTL_MS) {
+        this.replayBuffers.delete(streamKey);
+        this.replayBufferIdleSince.delete(streamKey);
+        this.logger.debug(`Dropped idle SSE replay buffer`, { tenantId: streamKey });
+      }
+    }
+  }
+
   /**
    * Remove a client
    */
@@ -180,6 +401,20 @@ export class SseManager {
       this.clients.delete(clientId);
       this.logger.info(`SSE client disconnected: ${clientId}`, { tenantId: client.tenantId });
     }
+
+    // Pollers this client was consuming no longer run for it
+    for (const session of Array.from(this.pollingSessions.values())) {
+      if (session.consumers.has(clientId)) {
+        this.releasePolling(session.pollId, clientId);
+      }
+    }
+  }
+
+  /**
+   * Whether an SSE client is connected
+   */
+  hasClient(clientId: string): boolean {
+    return this.clients.has(clientId);
   }
 
   /**
@@ -204,18 +439,36 @@ export class SseManager {
   }
 
   /**
-   * Broadcast message to all clients or filtered by tenant
+   * Broadcast message to all clients or filtered by tenant and subscriptions. The message is numbered
+   * and kept on each tenant stream it goes to, so clients that reconnect can have it replayed.
+   * Subscription conditions are checked against subject (the record the event is about), or the message data.
    */
-  broadcast(message: SseMessage, tenantId?: string): number {
+  broadcast(message: SseMessage, tenantId?: string, subject?: Record<string, any>): number {
     let sentCount = 0;
+
+    const streamKeys = tenantId
+      ? [tenantId]
+      : new Set([...this.replayBuffers.keys(), ...Array.from(this.clients.values(), client => client.tenantId ?? '')]);
+    const eventIds = new Map<string, string>();
+    for (const streamKey of streamKeys) {
+      // Streams nobody listens to or polls get no buffer
+      const buffer = this.replayBuffers.get(streamKey) ?? (this.isActiveStream(streamKey) ? this.getReplayBuffer(streamKey) : undefined);
+      if (buffer) {
+        eventIds.set(streamKey, String(buffer.push(message.event, message.data)));
+      }
+    }
     
     for (const [clientId, client] of this.clients) {
       // Filter by tenant if specified
       if (tenantId && client.tenantId !== tenantId) {
         continue;
       }
+      if (!this.isSubscribed(client, message.event, subject ?? message.data)) {
+        continue;
+      }
 
-      if (this.sendToClient(clientId, message)) {
+      const id = eventIds.get(client.tenantId ?? '');
+      if (this.sendToClient(clientId, { ...message, ...(id && { id }) })) {
         sentCount++;
       }
     }
@@ -224,27 +477,82 @@ export class SseManager {
   }
 
   /**
-   * Subscribe client to specific event types
+   * Subscribe client to event types (all types when empty), optionally only for records matching where
    */
-  subscribe(clientId: string, eventTypes: string[]): boolean {
+  subscribe(clientId: string, eventTypes: string[], where?: Record<string, any>): SseSubscription | null {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return null;
+    }
+    if (!Array.isArray(eventTypes) || !eventTypes.every(eventType => typeof eventType === 'string' && eventType)) {
+      throw new Error('events must be an array of event type names');
+    }
+    if (where !== undefined && (typeof where !== 'object' || where === null || Array.isArray(where))) {
+      throw new Error('where must be an object of field -> value (an array value means "any of")');
+    }
+
+    const subscription: SseSubscription = {
+      id: `sub_${++this.subscriptionCount}`,
+      events: Array.from(new Set(eventTypes)),
+      ...(where && Object.keys(where).length > 0 && { where })
+    };
+    client.subscriptions.set(subscription.id, subscription);
+    this.sendSubscriptionUpdate(client);
+    return subscription;
+  }
+
+  /**
+   * Remove one of a client's subscriptions, or all of them without subscriptionId
+   */
+  unsubscribe(clientId: string, subscriptionId?: string): boolean {
     const client = this.clients.get(clientId);
     if (!client) {
       return false;
     }
 
-    eventTypes.forEach(eventType => {
-      client.subscriptions.add(eventType);
-    });
+    if (subscriptionId === undefined) {
+      client.subscriptions.clear();
+    } else if (!client.subscriptions.delete(subscriptionId)) {
+      return false;
+    }
+    this.sendSubscriptionUpdate(client);
+    return true;
+  }
 
-    this.sendToClient(clientId, {
+  /**
+   * A client's subscriptions (undefined for unknown clients)
+   */
+  getSubscriptions(clientId: string): SseSubscription[] | undefined {
+    const client = this.clients.get(clientId);
+    return client && Array.from(client.subscriptions.values());
+  }
+
+  private sendSubscriptionUpdate(client: SseClient): void {
+    this.sendToClient(client.id, {
       event: SSE_EVENT_TYPES.SUBSCRIPTION_UPDATED,
       data: {
-        subscriptions: Array.from(client.subscriptions),
+        subscriptions: Array.from(client.subscriptions.values()),
         timestamp: new Date().toISOString()
       }
     });
+  }
 
-    return true;
+  /**
+   * Whether a client's subscriptions let an event through
+   */
+  private isSubscribed(client: SseClient, event: string | undefined, subject: unknown): boolean {
+    if (client.subscriptions.size === 0) {
+      return true;
+    }
+    for (const subscription of client.subscriptions.values()) {
+      if (subscription.events.length > 0 && !(event && subscription.events.includes(event))) {
+        continue;
+      }
+      if (!subscription.where || matchesConditions(subject, subscription.where)) {
+        return true;
+      }
+    }
+    return false;
   }
 
   // ============================================
@@ -252,49 +560,79 @@ export class SseManager {
   // ============================================
 
   /**
-   * Start polling Autotask data for real-time updates
-   * Returns pollId for session management
+   * Start polling Autotask data for real-time updates, or join the poller already running for
+   * the same tenant and config. Returns pollId for session management; the consumer keeps the
+   * poller running until it is released with releasePolling (SSE clients also on disconnect).
    */
   async startPolling(
     tenant: HttpToolRequest['tenant'], 
     intervalMs: number = 30000,
-    config?: Partial<PollingConfig>
+    config?: Partial<PollingConfig>,
+    consumerId: string = `consumer_${++this.consumerCount}`
   ): Promise<string> {
     if (!tenant) {
       throw new Error('Tenant credentials required for polling');
     }
 
     const tenantId = tenant.tenantId || 'unknown';
-    const pollId = `poll_${tenantId}_${Date.now()}`;
     
     const pollingConfig: PollingConfig = {
       intervalMs,
-      entities: config?.entities || ['tickets'],
+      minIntervalMs: config?.minIntervalMs ?? Math.min(intervalMs, DEFAULT_MIN_POLLING_INTERVAL_MS),
+      maxIntervalMs: config?.maxIntervalMs ?? Math.max(intervalMs, DEFAULT_MAX_POLLING_INTERVAL_MS),
+      entities: Array.from(new Set(config?.entities || ['tickets'])),
       pageSize: config?.pageSize || 10,
       ...(config?.filters && { filters: config.filters })
     };
 
+    const unsupported = pollingConfig.entities.filter(entity => !isPollingEntity(entity));
+    if (unsupported.length > 0) {
+      throw new Error(`Polling is not supported for ${unsupported.join(', ')} (use ${POLLING_ENTITIES.join(', ')})`);
+    }
+    if (!(pollingConfig.minIntervalMs <= intervalMs && intervalMs <= pollingConfig.maxIntervalMs)) {
+      throw new Error('Polling intervals must satisfy minIntervalMs <= intervalMs <= maxIntervalMs');
+    }
+
+    const pollerKey = `${this.bridge.getTenantKey(tenant)}|${JSON.stringify(normalizePollingConfig(pollingConfig))}`;
+    const existing = this.pollingSessions.get(this.pollerIds.get(pollerKey) ?? '');
+    if (existing) {
+      existing.consumers.add(consumerId);
+      this.schedulePersist();
+      this.logger.info(`Joined polling session: ${existing.pollId}`, { tenantId, consumers: existing.consumers.size });
+      return existing.pollId;
+    }
+
+    const pollId = `poll_${tenantId}_${Date.now()}_${++this.pollerCount}`;
+
+    // Only changes after the session starts are reported
+    const startedAt = new Date();
+    const feeds = new Map<PollingEntity, PollingFeedState>(
+      pollingConfig.entities.map(entity => [entity, { watermark: startedAt.toISOString(), snapshot: new Map() }])
+    );
+
     // Create polling session
     const session: PollingSession = {
       pollId,
       tenantId,
+      tenant,
       config: pollingConfig,
-      interval: null as any, // Will be set below
-      startedAt: new Date(),
+      timer: null,
+      effectiveIntervalMs: intervalMs,
+      intervalReason: 'base',
+      idleCycles: 0,
+      startedAt,
       lastPollAt: null,
+      lastListenedAt: startedAt,
       pollCount: 0,
       errorCount: 0,
       consecutiveErrors: 0,
-      isHealthy: true
+      isHealthy: true,
+      feeds,
+      pollerKey,
+      consumers: new Set([consumerId])
     };
 
-    // Create the polling interval
-    const pollInterval = setInterval(async () => {
-      await this.executePoll(pollId, tenant);
-    }, intervalMs);
-
-    session.interval = pollInterval;
-    this.pollingSessions.set(pollId, session);
+    this.activatePollingSession(session);
 
     // Notify clients about polling start
     this.broadcast({
@@ -317,6 +655,157 @@ export class SseManager {
     return pollId;
   }
 
+  /**
+   * Restore the sessions saved in the polling store - same pollIds, watermarks and snapshots, so
+   * records they had already seen are not reported as created again. Expired sessions are dropped.
+   */
+  async restorePollingSessions(): Promise<number> {
+    if (!this.pollingStore) {
+      return 0;
+    }
+
+    const persisted = await this.pollingStore.load();
+    let restored = 0;
+    for (const saved of persisted) {
+      if (this.pollingSessions.has(saved.pollId)) {
+        continue;
+      }
+      if (Date.now() - Date.parse(saved.lastListenedAt) > this.pollingSessionTtlMs) {
+        this.logger.info(`Dropping expired polling session: ${saved.pollId}`, { tenantId: saved.tenantId });
+        continue;
+      }
+
+      const pollerKey = `${this.bridge.getTenantKey(saved.tenant)}|${JSON.stringify(normalizePollingConfig(saved.config))}`;
+      if (this.pollerIds.has(pollerKey)) {
+        continue;
+      }
+      this.activatePollingSession({
+        pollId: saved.pollId,
+        tenantId: saved.tenantId,
+        tenant: saved.tenant,
+        config: saved.config,
+        pollerKey,
+        consumers: new Set(saved.consumers),
+        timer: null,
+        effectiveIntervalMs: saved.effectiveIntervalMs,
+        intervalReason: 'base',
+        idleCycles: saved.idleCycles,
+        startedAt: new Date(saved.startedAt),
+        lastPollAt: saved.lastPollAt ? new Date(saved.lastPollAt) : null,
+        lastListenedAt: new Date(saved.lastListenedAt),
+        pollCount: saved.pollCount,
+        errorCount: saved.errorCount,
+        consecutiveErrors: 0,
+        isHealthy: true,
+        feeds: new Map(saved.config.entities.map(entity => {
+          const feed = saved.feeds[entity];
+          const snapshot: RecordSnapshot = new Map((feed?.snapshot ?? []).map(record => [record.id, record]));
+          return [entity, { watermark: feed?.watermark ?? saved.startedAt, snapshot }];
+        }))
+      });
+      restored++;
+    }
+
+    // Rewrite the store without the sessions that were dropped
+    this.schedulePersist();
+    this.logger.info(`Restored ${restored} of ${persisted.length} polling sessions`);
+    return restored;
+  }
+
+  private activatePollingSession(session: PollingSession): void {
+    this.pollingSessions.set(session.pollId, session);
+    this.pollerIds.set(session.pollerKey, session.pollId);
+    this.scheduleNextPoll(session);
+    this.schedulePersist();
+  }
+
+  /**
+   * Poll again after the session's current interval (each poll may change it)
+   */
+  private scheduleNextPoll(session: PollingSession): void {
+    session.timer = setTimeout(async () => {
+      await this.executePoll(session.pollId, session.tenant);
+      if (this.pollingSessions.get(session.pollId) === session) {
+        this.scheduleNextPoll(session);
+      }
+    }, session.effectiveIntervalMs);
+  }
+
+  /**
+   * Write all polling sessions to the store shortly (changes in between are written together)
+   */
+  private schedulePersist(): void {
+    if (!this.pollingStore || this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.persistPollingSessions();
+    }, POLLING_STORE_WRITE_DELAY_MS);
+  }
+
+  /**
+   * Write pending polling session changes now - call before shutting down
+   */
+  async flushPollingSessions(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    await this.persistPollingSessions();
+  }
+
+  private async persistPollingSessions(): Promise<void> {
+    if (!this.pollingStore) {
+      return;
+    }
+    try {
+      await this.pollingStore.save(Array.from(this.pollingSessions.values(), session => this.toPersistedSession(session)));
+    } catch (error) {
+      this.logger.error('Failed to persist polling sessions:', error);
+    }
+  }
+
+  private toPersistedSession(session: PollingSession): PersistedPollingSession {
+    return {
+      pollId: session.pollId,
+      tenantId: session.tenantId,
+      tenant: session.tenant,
+      config: session.config,
+      // SSE clients reconnect with new IDs after a restart
+      consumers: Array.from(session.consumers).filter(consumerId => !this.clients.has(consumerId)),
+      startedAt: session.startedAt.toISOString(),
+      lastPollAt: session.lastPollAt?.toISOString() ?? null,
+      lastListenedAt: session.lastListenedAt.toISOString(),
+      pollCount: session.pollCount,
+      errorCount: session.errorCount,
+      effectiveIntervalMs: session.effectiveIntervalMs,
+      idleCycles: session.idleCycles,
+      feeds: Object.fromEntries(Array.from(session.feeds, ([entity, state]) =>
+        [entity, { watermark: state.watermark, snapshot: Array.from(state.snapshot.values(), toComparedFields) }]))
+    };
+  }
+
+  /**
+   * Stop sessions that no SSE client of their tenant has listened to within the session TTL
+   */
+  private expireUnusedPollingSessions(): void {
+    const now = new Date();
+    const listeningTenants = new Set(Array.from(this.clients.values(), client => client.tenantId));
+
+    for (const session of Array.from(this.pollingSessions.values())) {
+      if (listeningTenants.has(session.tenantId)) {
+        if (now.getTime() - session.lastListenedAt.getTime() >= Math.min(LISTENED_AT_PERSIST_INTERVAL_MS, this.pollingSessionTtlMs / 10)) {
+          session.lastListenedAt = now;
+          this.schedulePersist();
+        }
+      } else if (now.getTime() - session.lastListenedAt.getTime() > this.pollingSessionTtlMs) {
+        this.logger.info(`Polling session ${session.pollId} expired - no listeners since ${session.lastListenedAt.toISOString()}`);
+        this.stopPolling(session.pollId);
+      }
+    }
+  }
+
   /**
    * Execute a single poll cycle
    */
@@ -326,72 +815,47 @@ export class SseManager {
       return;
     }
 
-    // Check circuit breaker
-    if (!session.isHealthy) {
-      const cooldownElapsed = session.lastPollAt && 
-        (Date.now() - session.lastPollAt.getTime() > POLLING_CIRCUIT_BREAKER.cooldownPeriodMs);
-      
-      if (!cooldownElapsed) {
-        return; // Still in cooldown
+    // Skip polls while the tenant's circuit is open - the breaker lets probes through once it cools down
+    let circuit;
+    try {
+      circuit = await this.bridge.getCircuitState(tenant);
+    } catch {
+      circuit = null; // Credentials problem - let the poll surface the error
+    }
+    if (circuit?.state === 'open' && (circuit.retryAfterMs ?? 0) > 0) {
+      if (session.isHealthy) {
+        session.isHealthy = false;
+        this.logger.warn(`Circuit breaker OPEN - pausing polling session ${pollId}`);
+        this.broadcast({
+          event: SSE_EVENT_TYPES.POLLING_ERROR,
+          data: {
+            pollId,
+            error: circuit.lastFailureMessage,
+            consecutiveErrors: session.consecutiveErrors,
+            circuitBreakerOpen: true,
+            circuitState: circuit.state,
+            cooldownMs: circuit.retryAfterMs,
+            timestamp: new Date().toISOString()
+          }
+        }, session.tenantId);
       }
-      
-      // Try to recover
-      session.isHealthy = true;
-      session.consecutiveErrors = 0;
-      this.logger.info(`Polling session ${pollId} attempting recovery from circuit breaker`);
+      return;
     }
 
     try {
       session.pollCount++;
       session.lastPollAt = new Date();
 
-      // Poll for tickets
-      if (session.config.entities.includes('tickets')) {
-        const ticketResult = await this.bridge.callTool('search_tickets', {
-          arguments: {
-            pageSize: session.config.pageSize,
-            ...session.config.filters
-          },
-          tenant
-        });
-
-        if (ticketResult.success) {
-          this.broadcast({
-            event: SSE_EVENT_TYPES.TICKETS_UPDATE,
-            data: {
-              tickets: ticketResult.data,
-              pollId,
-              pollCount: session.pollCount,
-              timestamp: new Date().toISOString()
-            }
-          }, session.tenantId);
-        }
-      }
-
-      // Poll for time entries if configured
-      if (session.config.entities.includes('timeEntries')) {
-        const timeResult = await this.bridge.callTool('search_time_entries', {
-          arguments: {
-            pageSize: session.config.pageSize,
-            ...session.config.filters
-          },
-          tenant
-        });
-
-        if (timeResult.success) {
-          this.broadcast({
-            event: SSE_EVENT_TYPES.TIME_ENTRIES_UPDATE,
-            data: {
-              timeEntries: timeResult.data,
-              pollId,
-              pollCount: session.pollCount,
-              timestamp: new Date().toISOString()
-            }
-          }, session.tenantId);
-        }
+      let changes = 0;
+      for (const entity of session.config.entities) {
+        changes += await this.pollEntity(session, entity, tenant);
       }
+      await this.adaptInterval(session, changes, tenant);
 
       // Reset error counters on success
+      if (!session.isHealthy) {
+        this.logger.info(`Polling session ${pollId} recovered`);
+      }
       session.consecutiveErrors = 0;
       session.isHealthy = true;
 
@@ -406,38 +870,137 @@ export class SseManager {
         totalErrors: session.errorCount
       });
 
-      // Trip circuit breaker if too many consecutive errors
-      if (session.consecutiveErrors >= POLLING_CIRCUIT_BREAKER.maxConsecutiveErrors) {
-        session.isHealthy = false;
-        this.logger.warn(`Circuit breaker OPEN for polling session ${pollId}`);
-        
-        this.broadcast({
-          event: SSE_EVENT_TYPES.POLLING_ERROR,
-          data: {
-            pollId,
-            error: session.lastError,
-            consecutiveErrors: session.consecutiveErrors,
-            circuitBreakerOpen: true,
-            cooldownMs: POLLING_CIRCUIT_BREAKER.cooldownPeriodMs,
-            timestamp: new Date().toISOString()
-          }
-        }, session.tenantId);
-      } else {
-        this.broadcast({
-          event: SSE_EVENT_TYPES.POLLING_ERROR,
-          data: {
-            pollId,
-            error: session.lastError,
-            consecutiveErrors: session.consecutiveErrors,
-            timestamp: new Date().toISOString()
-          }
-        }, session.tenantId);
+      this.broadcast({
+        event: SSE_EVENT_TYPES.POLLING_ERROR,
+        data: {
+          pollId,
+          error: session.lastError,
+          consecutiveErrors: session.consecutiveErrors,
+          timestamp: new Date().toISOString()
+        }
+      }, session.tenantId);
+    }
+  }
+
+  /**
+   * Set the interval before the next poll from this poll's changes and the tenant's API budget
+   */
+  private async adaptInterval(session: PollingSession, changes: number, tenant: HttpToolRequest['tenant']): Promise<void> {
+    session.idleCycles = changes > 0 ? 0 : session.idleCycles + 1;
+
+    let budgetUsed: number | undefined;
+    try {
+      const budget = await this.bridge.getRateLimitStats(tenant);
+      budgetUsed = budget ? budget.used / budget.limit : undefined;
+    } catch {
+      budgetUsed = undefined; // Budget unknown - adapt to the change rate only
+    }
+
+    const next = getNextPollingInterval({
+      baseIntervalMs: session.config.intervalMs,
+      minIntervalMs: session.config.minIntervalMs,
+      maxIntervalMs: session.config.maxIntervalMs,
+      currentIntervalMs: session.effectiveIntervalMs,
+      idleCycles: session.idleCycles,
+      changes,
+      backlog: Array.from(session.feeds.values()).some(state => state.cursor !== undefined),
+      ...(budgetUsed !== undefined && { budgetUsed })
+    });
+    if (next.intervalMs !== session.effectiveIntervalMs) {
+      this.logger.debug(`Polling session ${session.pollId} interval ${session.effectiveIntervalMs}ms -> ${next.intervalMs}ms (${next.reason})`);
+    }
+    session.effectiveIntervalMs = next.intervalMs;
+    session.intervalReason = next.reason;
+  }
+
+  /**
+   * Read an entity's change feed (up to MAX_PAGES_PER_POLL pages) and emit events for what changed.
+   * Returns the number of changes found.
+   */
+  private async pollEntity(session: PollingSession, entity: PollingEntity, tenant: NonNullable<HttpToolRequest['tenant']>): Promise<number> {
+    const state = session.feeds.get(entity);
+    if (!state) {
+      return 0;
+    }
+
+    let changes = 0;
+    for (let pages = 0; pages < MAX_PAGES_PER_POLL; pages++) {
+      const result = await this.bridge.callTool('get_changes_since', {
+        arguments: {
+          entity: POLLED_ENTITIES[entity].feed,
+          ...(state.cursor ? { cursor: state.cursor } : { since: state.watermark }),
+          pageSize: session.config.pageSize,
+          ...(session.config.filters && { filter: toFilterConditions(session.config.filters, entity) })
+        },
+        tenant
+      });
+      const text = result.data?.[0]?.text;
+      if (!result.success || typeof text !== 'string') {
+        throw new Error(text || result.error || `Failed to poll ${entity}`);
       }
+
+      const page = JSON.parse(text) as ChangeFeedPage<Record<string, any>>;
+      let pageChanges = 0;
+      for (const change of detectChanges(state.snapshot, page.items)) {
+        this.emitChange(session, entity, change, page.since);
+        pageChanges++;
+      }
+      changes += pageChanges;
+      // The feed returns the records at the watermark again on every poll; the snapshot drops those
+      // repeats, and state is only written when the snapshot or watermark moved
+      if (pageChanges > 0 || page.nextWatermark !== state.watermark) {
+        this.schedulePersist();
+      }
+
+      if (!page.hasMore || !page.nextCursor) {
+        delete state.cursor;
+        state.watermark = page.nextWatermark;
+        return changes;
+      }
+      state.cursor = page.nextCursor;
     }
+    return changes;
   }
 
   /**
-   * Stop polling session
+   * Broadcast the events for one detected change
+   */
+  private emitChange(session: PollingSession, entity: PollingEntity, change: DetectedChange, since: string): void {
+    const polled = POLLED_ENTITIES[entity];
+    const base = { pollId: session.pollId, pollCount: session.pollCount, timestamp: new Date().toISOString() };
+
+    this.broadcast({
+      event: change.kind === 'created' ? polled.created : polled.updated,
+      data: { ...base, [polled.recordKey]: change.record, ...(change.changes && { changes: change.changes }) }
+    }, session.tenantId, change.record);
+
+    if (entity === 'tickets') {
+      for (const message of getTicketEvents(change, since)) {
+        this.broadcast({ event: message.event, data: { ...base, ...message.data } }, session.tenantId, change.record);
+      }
+    }
+  }
+
+  /**
+   * Leave a polling session; the poller stops once its last consumer has left
+   */
+  releasePolling(pollId: string, consumerId: string): boolean {
+    const session = this.pollingSessions.get(pollId);
+    if (!session || !session.consumers.delete(consumerId)) {
+      return false;
+    }
+
+    if (session.consumers.size === 0) {
+      this.stopPolling(pollId);
+    } else {
+      this.schedulePersist();
+      this.logger.info(`Left polling session: ${pollId}`, { consumers: session.consumers.size });
+    }
+    return true;
+  }
+
+  /**
+   * Stop polling session for all of its consumers
    */
   stopPolling(pollId: string): boolean {
     const session = this.pollingSessions.get(pollId);
@@ -445,8 +1008,12 @@ export class SseManager {
       return false;
     }
 
-    clearInterval(session.interval);
+    if (session.timer) {
+      clearTimeout(session.timer);
+    }
     this.pollingSessions.delete(pollId);
+    this.pollerIds.delete(session.pollerKey);
+    this.schedulePersist();
 
     // Notify clients
     this.broadcast({
@@ -493,6 +1060,7 @@ export class SseManager {
    */
   private startPollingHealthCheck(): void {
     this.pollingHealthCheckInterval = setInterval(() => {
+      this.expireUnusedPollingSessions();
       for (const [pollId, session] of this.pollingSessions) {
         this.broadcast({
           event: SSE_EVENT_TYPES.POLLING_HEALTH,
@@ -504,11 +1072,14 @@ export class SseManager {
             consecutiveErrors: session.consecutiveErrors,
             lastPollAt: session.lastPollAt?.toISOString(),
             uptime: Date.now() - session.startedAt.getTime(),
+            intervalMs: session.effectiveIntervalMs,
+            baseIntervalMs: session.config.intervalMs,
+            intervalReason: session.intervalReason,
             timestamp: new Date().toISOString()
           }
         }, session.tenantId);
       }
-    }, POLLING_CIRCUIT_BREAKER.healthCheckIntervalMs);
+    }, POLLING_HEALTH_CHECK_INTERVAL_MS);
   }
 
   // ============================================
@@ -537,7 +1108,7 @@ export class SseManager {
   /**
    * Send rate limit warning event
    */
-  sendRateLimitWarning(tenantId: string, currentCount: number, limit: number): void {
+  sendRateLimitWarning(tenantId: string | undefined, currentCount: number, limit: number): void {
     const percentUsed = Math.round((currentCount / limit) * 100);
     
     this.broadcast({
@@ -583,7 +1154,13 @@ export class SseManager {
         isHealthy: session.isHealthy,
         pollCount: session.pollCount,
         errorCount: session.errorCount,
-        uptime: Date.now() - session.startedAt.getTime()
+        uptime: Date.now() - session.startedAt.getTime(),
+        entities: session.config.entities,
+        intervalMs: session.effectiveIntervalMs,
+        baseIntervalMs: session.config.intervalMs,
+        intervalReason: session.intervalReason,
+        consumers: session.consumers.size,
+        watermarks: Object.fromEntries(Array.from(session.feeds, ([entity, state]) => [entity, state.watermark]))
       });
     }
 
@@ -606,7 +1183,8 @@ export class SseManager {
     return {
       clients: clientStats,
       pollingSessions,
-      totalPollingSessions: this.pollingSessions.size
+      totalPollingSessions: this.pollingSessions.size,
+      totalPollingConsumers: pollingSessions.reduce((total, session) => total + session.consumers, 0)
     };
   }
 
@@ -668,6 +1246,8 @@ export class SseManager {
     if (clientsToRemove.length > 0) {
       this.logger.info(`Cleaned up ${clientsToRemove.length} inactive SSE clients`);
     }
+
+    this.evictIdleReplayBuffers(now.getTime());
   }
 
   /**
@@ -684,6 +1264,12 @@ export class SseManager {
       clearInterval(this.pollingHealthCheckInterval);
     }
     
+    // Keep the stored sessions (with any pending changes) so they are restored on the next start
+    if (this.persistTimer) {
+      void this.flushPollingSessions();
+    }
+    this.pollingStore = undefined;
+
     // Stop all polling sessions
     for (const pollId of this.pollingSessions.keys()) {
       this.stopPolling(pollId);
@@ -697,3 +1283,83 @@ export class SseManager {
     this.logger.info('SSE Manager destroyed');
   }
 }
+
+/**
+ * Polling config in one canonical form (entities sorted, filter keys and "any of" values ordered),
+ * so requests asking for the same data share a poller
+ */
+function normalizePollingConfig(config: PollingConfig): PollingConfig {
+  return {
+    intervalMs: config.intervalMs,
+    minIntervalMs: config.minIntervalMs,
+    maxIntervalMs: config.maxIntervalMs,
+    entities: [...config.entities].sort(),
+    pageSize: config.pageSize,
+    ...(config.filters && Object.keys(config.filters).length > 0 && { filters: normalizeFilters(config.filters) })
+  };
+}
+
+function normalizeFilters(filters: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.keys(filters).sort().map(field => {
+    const value = filters[field];
+    if (Array.isArray(value)) {
+      return [field, [...value].sort((a, b) => String(a).localeCompare(String(b)))];
+    }
+    return [field, value && typeof value === 'object' ? normalizeFilters(value) : value];
+  }));
+}
+
+/**
+ * Whether a record has the values of subscription conditions ({ companyID: 42, assignedResourceID: [7, 9] })
+ */
+function matchesConditions(record: unknown, conditions: Record<string, any>): boolean {
+  if (!record || typeof record !== 'object') {
+    return false;
+  }
+  return Object.entries(conditions).every(([field, expected]) => {
+    const actual = (record as Record<string, any>)[field];
+    if (actual === undefined || actual === null) {
+      return expected === null;
+    }
+    // Compared as strings, so values from query strings ('42') match numeric fields
+    return (Array.isArray(expected) ? expected : [expected]).some(value => String(value) === String(actual));
+  });
+}
+
+/**
+ * Autotask filter conditions an entity's polling filters stand for ({ companyID: 42, status: [1, 8] })
+ */
+function toFilterConditions(filters: Record<string, any>, entity: PollingEntity): Record<string, any>[] {
+  const own = filters[entity];
+  const fields = Object.entries(filters)
+    .filter(([field]) => !isPollingEntity(field))
+    .concat(own && typeof own === 'object' && !Array.isArray(own) ? Object.entries(own) : []);
+  return fields.map(([field, value]) =>
+    Array.isArray(value) ? { op: 'in', field, value } : { op: 'eq', field, value });
+}
+
+/**
+ * Ticket-specific events for a change: status moves, (re)assignment and completion
+ */
+function getTicketEvents(change: DetectedChange, since: string): Array<{ event: string; data: Record<string, any> }> {
+  const { record, changes } = change;
+  const ticket = { ticketId: record.id, ticketNumber: record.ticketNumber, title: record.title };
+  const events: Array<{ event: string; data: Record<string, any> }> = [];
+
+  if (changes?.status) {
+    events.push({ event: SSE_EVENT_TYPES.TICKET_STATUS_CHANGED, data: { ...ticket, ...changes.status } });
+  }
+  if (changes?.assignedResourceID && changes.assignedResourceID.to !== null) {
+    events.push({ event: SSE_EVENT_TYPES.TICKET_ASSIGNED, data: { ...ticket, ...changes.assignedResourceID } });
+  }
+
+  // Completion is read from completedDate, which Autotask sets for whatever status a tenant uses as
+  // complete. Without an earlier version, completion inside the watched window still counts.
+  const completed = change.previous
+    ? changes?.completedDate?.from === null && changes.completedDate.to !== null
+    : change.kind === 'updated' && Date.parse(record.completedDate) > Date.parse(since);
+  if (completed) {
+    events.push({ event: SSE_EVENT_TYPES.TICKET_COMPLETED, data: { ...ticket, completedDate: record.completedDate ?? null } });
+  }
+  return events;
+}
@@ -11,10 +11,12 @@ import {
   McpError,
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 
 import { AutotaskService } from '../services/autotask.service.js';
 import { Logger } from '../utils/logger.js';
-import { McpServerConfig } from '../types/mcp.js';
+import { McpServerConfig, TenantContext } from '../types/mcp.js';
+import { TenantRegistry } from '../services/tenant-registry.service.js';
 import { AutotaskResourceHandler } from '../handlers/resource.handler.js';
 import { EnhancedAutotaskToolHandler } from '../handlers/enhanced.tool.handler.js';
 
@@ -80,10 +82,10 @@ export class AutotaskMcpServer {
     });
 
     // Read a specific resource
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
       try {
         this.logger.info(`Handling read resource request for: ${request.params.uri}`);
-        const content = await this.resourceHandler.readResource(request.params.uri);
+        const content = await this.resourceHandler.readResource(request.params.uri, this.getSessionTenantContext(extra));
         return { contents: [content] };
       } catch (error) {
         this.logger.error(`Failed to read resource ${request.params.uri}:`, error);
@@ -95,9 +97,10 @@ export class AutotaskMcpServer {
     });
 
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    this.server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
       try { 
-        const tools = await this.toolHandler.listTools(); // No tenant context available during listTools
+        // Only session-bound tenants (SSE) have a context here - tool calls may still carry their own _tenant
+        const tools = await this.toolHandler.listTools(this.getSessionTenantContext(extra));
         
         this.logger.info(`📋 Listed ${tools.length} tools ${tools.map(t => t.name).join(', ')}` );
         
@@ -112,7 +115,7 @@ export class AutotaskMcpServer {
     });
 
     // Call a tool
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const startTime = Date.now();
       const requestId = `mcp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       
@@ -156,7 +159,7 @@ export class AutotaskMcpServer {
         
         const result = await this.toolHandler.callTool(
           request.params.name,
-          request.params.arguments || {}
+          this.applySessionTenant(request.params.arguments || {}, extra, requestId)
         );
         
         const executionTime = Date.now() - startTime;
@@ -193,6 +196,47 @@ export class AutotaskMcpServer {
     this.logger.info('MCP request handlers set up successfully');
   }
 
+  /**
+   * Tenant bound to the transport session (set by the SSE server from the connect-time Authorization header)
+   */
+  private getSessionTenant(extra: { authInfo?: AuthInfo }): Record<string, any> | undefined {
+    const tenant = extra.authInfo?.extra?.tenant;
+    return tenant && typeof tenant === 'object' ? tenant as Record<string, any> : undefined;
+  }
+
+  private getSessionTenantContext(extra: { authInfo?: AuthInfo }): TenantContext | undefined {
+    const tenant = this.getSessionTenant(extra);
+    return tenant ? this.toolHandler.extractTenantContext({ _tenant: tenant }) : undefined;
+  }
+
+  /**
+   * Use the session's tenant for a tool call. A bound session always wins over per-call
+   * _tenant, so a read-only session can't be widened by the caller.
+   */
+  private applySessionTenant(args: Record<string, any>, extra: { authInfo?: AuthInfo }, requestId: string): Record<string, any> {
+    const tenant = this.getSessionTenant(extra);
+    if (!tenant) {
+      return args;
+    }
+
+    const { _tenant, tenant: tenantArg, credentials, ...rest } = args;
+    if (_tenant || tenantArg || credentials || rest.tenants) {
+      this.logger.warn('🔐 Ignoring per-call tenant on a session-bound connection', {
+        requestId,
+        sessionTenantId: tenant.tenantId
+      });
+    }
+    // fan_out on a bound session only reaches the session's own tenant
+    return { ...rest, ...(rest.tenants && { tenants: [tenant] }), _tenant: tenant };
+  }
+
+  /**
+   * Get the tenant registry (null unless multi-tenant mode with TENANT_REGISTRY_KEY)
+   */
+  getTenantRegistry(): TenantRegistry | null {
+    return this.autotaskService.getTenantRegistry();
+  }
+
   /**
    * Start the MCP server with stdio transport
    */
@@ -241,6 +285,8 @@ This server provides access to Kaseya Autotask PSA data and operations through t
 - **autotask://contacts** - List all contacts
 - **autotask://tickets/{id}** - Get ticket details by ID
 - **autotask://tickets** - List all tickets
+- **autotask://metadata/{entity}** - Field definitions, required/read-only flags and picklists of an entity
+- **autotask://metadata/{entity}/picklists/{field}** - Values and labels of one picklist field
 
 ## Available Tools:
 ### Company Operations
@@ -4,6 +4,7 @@
 
 // @ts-ignore - @apigrate/autotask-restapi doesn't have type definitions
 import { AutotaskRestApi, AutotaskApiError } from '@apigrate/autotask-restapi';
+import crypto from 'crypto';
 import { 
   AutotaskCompany, 
   AutotaskContact, 
@@ -29,45 +30,57 @@ import {
   AutotaskQueryOptionsExtended,
   PaginatedResponse,
   PaginationInfo,
-  AutotaskPageDetails,
+  AutotaskApiResponse,
   AutotaskCountResponse,
+  AutotaskFieldInfo,
+  AutotaskEntityMetadata,
+  AutotaskPicklistValue,
   formatPaginationStatus,
   formatNextAction,
   PAGINATION_CONFIG
 } from '../types/autotask.js';
 import { McpServerConfig, AutotaskCredentials, TenantContext } from '../types/mcp.js';
 import { Logger } from '../utils/logger.js';
+import { TenantRegistry } from './tenant-registry.service.js';
+import { RateLimiter, RateLimitWarningListener, TenantRateLimitStats } from './rate-limiter.service.js';
+import { RetryPolicy, runWithResponseCapture, getErrorStatus, getNetworkErrorCode } from './retry-policy.service.js';
+import { CircuitBreaker, CircuitBreakerSnapshot } from './circuit-breaker.service.js';
+import { ZoneResolver, ZoneSource, ZoneInfo } from './zone-resolver.service.js';
+import { PolicyEngine } from './policy-engine.service.js';
+import { CountCache, CountResult } from './count-cache.service.js';
+import { validateQuery, MAX_FILTER_CONDITIONS } from './query-filter.service.js';
+import { EntityMetadataService, PICKLIST_LABEL_FIELDS, findField, findPicklistValue, getPicklistLabelMaps } from './entity-metadata.service.js';
+import { encodeCursor, decodeCursor, getTenantFingerprint, parsePageUrl, toRelativePageUrl, InvalidCursorError } from './pagination-cursor.service.js';
+import { ChangeFeedPage, getChangeFeedEntity, normalizeWatermark, tagChanges } from './change-feed.service.js';
 
 /**
- * Helper to create PaginationInfo from Autotask API response
+ * Helper to create PaginationInfo for one page of a query
  */
 function createPaginationInfo(
   itemCount: number,
-  pageDetails: AutotaskPageDetails | undefined,
-  totalCount: number | undefined,
   currentPage: number,
-  pageSize: number
+  pageSize: number,
+  totalCount: number | undefined,
+  nextCursor: string | undefined
 ): PaginationInfo {
-  const total = totalCount ?? (pageDetails?.count ?? itemCount);
-  const hasMore = pageDetails?.nextPageUrl != null;
+  const retrieved = (currentPage - 1) * pageSize + itemCount;
+  const hasMore = nextCursor !== undefined;
+  // Without a count the total is only known once the last page has been reached
+  const total = totalCount ?? retrieved;
   
-  // Build base pagination info
   const paginationInfo: PaginationInfo = {
     showing: itemCount,
     total: total,
-    totalKnown: totalCount !== undefined || pageDetails !== undefined,
+    totalKnown: totalCount !== undefined || !hasMore,
     currentPage: currentPage,
     pageSize: pageSize,
     hasMore: hasMore,
-    percentComplete: total > 0 ? Math.round((itemCount / total) * 100) : 100
+    percentComplete: total > 0 ? Math.min(100, Math.round((retrieved / total) * 100)) : 100
   };
   
-  // Conditionally add optional URL properties (for exactOptionalPropertyTypes compliance)
-  if (pageDetails?.nextPageUrl) {
-    paginationInfo.nextPageUrl = pageDetails.nextPageUrl;
-  }
-  if (pageDetails?.prevPageUrl) {
-    paginationInfo.prevPageUrl = pageDetails.prevPageUrl;
+  // Conditionally add optional properties (for exactOptionalPropertyTypes compliance)
+  if (nextCursor) {
+    paginationInfo.nextCursor = nextCursor;
   }
   
   return paginationInfo;
@@ -117,18 +130,19 @@ interface ClientPoolEntry {
   tenantId: string;
   lastUsed: Date;
   credentials: AutotaskCredentials;
-  // Health tracking for circuit breaker pattern
-  consecutiveErrors: number;
-  lastError?: Date;
-  isHealthy: boolean;
 }
 
-// Circuit breaker configuration
-const CIRCUIT_BREAKER_CONFIG = {
-  maxConsecutiveErrors: 10,        // More tolerance before tripping
-  cooldownPeriodMs: 30000,         // 30 second cooldown (reduced from 1 minute)
-  resetOnSuccess: true             // Reset error count on first success
-};
+// How long a create's result is remembered for its idempotency key
+const IDEMPOTENCY_TTL_MS = 60 * 60 * 1000;
+
+// Identifies whose budget an API call is charged to
+interface ApiCallScope {
+  tenantKey: string;
+  tenantId: string;
+  // Which API user and how its zone was chosen, so a stale discovered zone can be invalidated
+  username: string;
+  zoneSource: ZoneSource;
+}
 
 export class AutotaskService {
   private client: AutotaskRestApi | null = null;
@@ -141,10 +155,18 @@ export class AutotaskService {
   private clientPool: Map<string, ClientPoolEntry> = new Map();
   private readonly poolSize: number;
   private readonly sessionTimeout: number;
+  private tenantRegistry: TenantRegistry | null = null;
+  private policyEngine: PolicyEngine | null = null;
   
-  // Rate limiting tracking (Autotask limit: 10,000 requests/hour)
-  private requestCounts: Map<string, { count: number; resetTime: Date }> = new Map();
-  private readonly RATE_LIMIT_THRESHOLD = 9000; // Warn at 90% of limit
+  // Rate limiting - every Autotask API call goes through the limiter (see wrapClient)
+  private rateLimiter: RateLimiter;
+  private retryPolicy: RetryPolicy;
+  private circuitBreaker: CircuitBreaker;
+  private zoneResolver: ZoneResolver;
+  private countCache: CountCache;
+  private entityMetadata: EntityMetadataService;
+  // Creates submitted with an idempotency key, so a repeated key returns the first result
+  private idempotentCreates: Map<string, { promise: Promise<unknown>; expiresAt: number }> = new Map();
 
   constructor(config: McpServerConfig, logger: Logger) {
     this.config = config;
@@ -152,6 +174,15 @@ export class AutotaskService {
     this.isMultiTenant = config.multiTenant?.enabled ?? false;
     this.poolSize = config.multiTenant?.clientPoolSize ?? 50;
     this.sessionTimeout = config.multiTenant?.sessionTimeout ?? 30 * 60 * 1000; // 30 minutes
+    this.rateLimiter = new RateLimiter(config.rateLimit ?? {}, logger);
+    this.retryPolicy = new RetryPolicy(config.retry ?? {}, logger);
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreaker ?? {}, logger);
+    this.zoneResolver = new ZoneResolver(config.zoneDiscovery ?? {}, logger);
+    this.countCache = new CountCache(config.countCache ?? {});
+    this.entityMetadata = new EntityMetadataService(config.metadataCache ?? {}, logger);
+    if (config.policy?.path) {
+      this.policyEngine = new PolicyEngine(config.policy, logger);
+    }
 
     if (!this.isMultiTenant) {
       // Single-tenant mode: initialize immediately if credentials available
@@ -161,8 +192,12 @@ export class AutotaskService {
     } else {
       this.logger.info('Multi-tenant mode enabled', { 
         poolSize: this.poolSize, 
-        sessionTimeout: this.sessionTimeout 
+        sessionTimeout: this.sessionTimeout,
+        tenantRegistry: !!config.multiTenant?.tenantRegistry
       });
+      if (config.multiTenant?.tenantRegistry) {
+        this.tenantRegistry = new TenantRegistry(config.multiTenant.tenantRegistry, logger);
+      }
       // Start cleanup interval for expired clients
       this.startClientCleanup();
     }
@@ -183,21 +218,19 @@ export class AutotaskService {
       hasTenantContext: !!tenantContext,
       tenantId: tenantContext?.tenantId,
       hasCredentials: !!tenantContext?.credentials,
+      hasAccessKey: !!tenantContext?.accessKey,
       sessionId: tenantContext?.sessionId
     });
 
+    await this.resolveRegisteredCredentials(tenantContext);
+
     if (!tenantContext?.credentials) {
       this.logger.error('❌ Multi-tenant mode requires tenant credentials but none provided');
       throw new Error('Multi-tenant mode requires tenant credentials');
     }
 
     const tenantId = tenantContext.tenantId;
-    const cacheKey = this.getTenantCacheKey(tenantContext.credentials);
-
-    // Check circuit breaker before proceeding
-    if (!this.isCircuitClosed(cacheKey)) {
-      throw new Error(`Circuit breaker OPEN for tenant ${tenantId}. Please wait before retrying.`);
-    }
+    const cacheKey = this.getTenantCacheKey(tenantContext.credentials, tenantContext.impersonationResourceId);
 
     this.logger.info('🔍 Checking client pool for tenant', {
       tenantId,
@@ -206,9 +239,6 @@ export class AutotaskService {
       poolKeys: Array.from(this.clientPool.keys()).map(k => k.substring(0, 8) + '...')
     });
 
-    // Track this request for rate limiting
-    this.trackRequest(tenantId);
-
     // Check if we have a cached client for this tenant
     const poolEntry = this.clientPool.get(cacheKey);
     if (poolEntry && this.isClientValid(poolEntry)) {
@@ -217,9 +247,7 @@ export class AutotaskService {
         tenantId,
         cacheKey: cacheKey.substring(0, 8) + '...',
         clientAge: Date.now() - poolEntry.lastUsed.getTime(),
-        poolSize: this.clientPool.size,
-        isHealthy: poolEntry.isHealthy,
-        consecutiveErrors: poolEntry.consecutiveErrors
+        poolSize: this.clientPool.size
       });
       return poolEntry.client;
     }
@@ -242,17 +270,15 @@ export class AutotaskService {
       poolSizeBefore: this.clientPool.size
     });
     
-    const client = await this.createTenantClient(tenantContext.credentials, tenantContext.impersonationResourceId);
+    const client = await this.createTenantClient(tenantContext.credentials, tenantId, tenantContext.impersonationResourceId);
 
-    // Store in pool (with size limit) - including health tracking fields
+    // Store in pool (with size limit)
     this.managePoolSize();
     this.clientPool.set(cacheKey, {
       client,
       tenantId,
       lastUsed: new Date(),
-      credentials: tenantContext.credentials,
-      consecutiveErrors: 0,
-      isHealthy: true
+      credentials: tenantContext.credentials
     });
 
     this.logger.info(`✅ Client created and cached for tenant: ${tenantId}`, {
@@ -265,12 +291,51 @@ export class AutotaskService {
   }
 
   /**
-   * Create cache key for tenant credentials
+   * Registered tenants send an access key - resolve their credentials server-side (sets tenantContext.credentials)
    */
-  private getTenantCacheKey(credentials: AutotaskCredentials): string {
-    // Create a hash-like key from credentials (excluding sensitive data from logs)
-    const keyData = `${credentials.username}:${credentials.integrationCode}:${credentials.apiUrl || 'auto'}`;
-    return Buffer.from(keyData).toString('base64').substring(0, 16);
+  private async resolveRegisteredCredentials(tenantContext?: TenantContext): Promise<void> {
+    if (tenantContext && !tenantContext.credentials && tenantContext.accessKey) {
+      if (!this.tenantRegistry) {
+        throw new Error('Tenant access keys require the tenant registry (set TENANT_REGISTRY_KEY)');
+      }
+      tenantContext.credentials = await this.tenantRegistry.resolveCredentials(tenantContext.tenantId, tenantContext.accessKey);
+    }
+  }
+
+  /**
+   * Create cache key for tenant credentials and impersonated resource
+   */
+  private getTenantCacheKey(credentials: AutotaskCredentials, impersonationResourceId?: number): string {
+    // Hash the full key so distinct tenants/impersonations never collide and no credential data leaks into logs
+    const keyData = `${credentials.username}:${credentials.integrationCode}:${credentials.secret}:${credentials.apiUrl || 'auto'}:${impersonationResourceId ?? 'self'}`;
+    return crypto.createHash('sha256').update(keyData).digest('hex').substring(0, 32);
+  }
+
+  /**
+   * Stable key identifying the Autotask tenant behind a request, for partitioning per-tenant caches.
+   * Ignores impersonation (lookups are the same for every user of a tenant). Registry tenants are keyed
+   * by tenantId + access key hash, so a cache hit is never served to a caller holding a wrong key.
+   */
+  public getTenantPartitionKey(tenantContext?: TenantContext): string {
+    if (tenantContext?.accessKey) {
+      const keyHash = crypto.createHash('sha256').update(tenantContext.accessKey).digest('hex').substring(0, 16);
+      return `registry:${tenantContext.tenantId}:${keyHash}`;
+    }
+    return tenantContext?.credentials ? this.getTenantCacheKey(tenantContext.credentials) : 'single-tenant';
+  }
+
+  /**
+   * Request options for create/update calls - sends the ImpersonationResourceId header
+   * so Autotask attributes the write to the impersonated resource instead of the API user
+   */
+  private getWriteOptions(tenantContext?: TenantContext): { ImpersonationResourceId?: number; idempotencyKey?: string } | undefined {
+    if (!tenantContext?.impersonationResourceId && !tenantContext?.idempotencyKey) {
+      return undefined;
+    }
+    return {
+      ...(tenantContext.impersonationResourceId && { ImpersonationResourceId: tenantContext.impersonationResourceId }),
+      ...(tenantContext.idempotencyKey && { idempotencyKey: tenantContext.idempotencyKey })
+    };
   }
 
   /**
@@ -328,84 +393,236 @@ export class AutotaskService {
       if (expiredKeys.length > 0) {
         this.logger.info(`Cleaned up ${expiredKeys.length} expired clients from pool`);
       }
-    }, 5 * 60 * 1000); // Check every 5 minutes
+    }, 5 * 60 * 1000).unref(); // Check every 5 minutes (don't keep the process alive)
   }
 
   /**
-   * Track API request for rate limiting
+   * Route every entity call on a client (client.Tickets.query(...), client.TicketNotes.create(...), ...)
+   * through executeApiCall so it is charged to the tenant's budget and concurrency limits.
+   * Impersonated clients share the tenant's scope - Autotask limits per database, not per user.
    */
-  private trackRequest(tenantId: string): void {
-    const now = new Date();
-    const hourFromNow = new Date(now.getTime() + 60 * 60 * 1000);
-    
-    let rateInfo = this.requestCounts.get(tenantId);
-    if (!rateInfo || rateInfo.resetTime < now) {
-      rateInfo = { count: 0, resetTime: hourFromNow };
+  private wrapClient(client: AutotaskRestApi, scope: ApiCallScope): AutotaskRestApi {
+    const entityNames = new Set<string>((client.available_entities || []).map((entity: { name: string }) => entity.name));
+    const wrappedEntities = new Map<string, any>();
+
+    return new Proxy(client, {
+      get: (target, prop, receiver) => {
+        const value = Reflect.get(target, prop, receiver);
+        if (typeof prop !== 'string' || !entityNames.has(prop) || !value) {
+          return value;
+        }
+
+        let wrapped = wrappedEntities.get(prop);
+        if (!wrapped) {
+          wrapped = new Proxy(value, {
+            get: (entity, method, entityReceiver) => {
+              if (method === 'queryNext') {
+                // Not part of the client: follows a query's nextPageUrl under the same limits as the query
+                return (pageUrl: string) => {
+                  const { endpoint, query } = parsePageUrl(pageUrl);
+                  return this.executeApiCall(scope, prop, method, [pageUrl], () => target._get(endpoint, query));
+                };
+              }
+              const fn = Reflect.get(entity, method, entityReceiver);
+              if (typeof fn !== 'function' || typeof method !== 'string') {
+                return fn;
+              }
+              return (...args: unknown[]) => this.executeApiCall(scope, prop, method, args, () => fn.apply(entity, args));
+            }
+          });
+          wrappedEntities.set(prop, wrapped);
+        }
+        return wrapped;
+      }
+    });
+  }
+
+  /**
+   * Run an Autotask API call under the tenant's rate limit, retrying transient failures.
+   * Creates are only retried (and de-duplicated) when the write options carry an idempotency key.
+   * Throws RateLimitError (with retryAfterMs) when the tenant is over budget or the queue is full.
+   */
+  private async executeApiCall<T>(scope: ApiCallScope, endpoint: string, method: string, args: unknown[], call: () => Promise<T>): Promise<T> {
+    const isCreate = method === 'create';
+    const lastArg = args[args.length - 1] as { idempotencyKey?: unknown } | undefined;
+    const idempotencyKey = isCreate && typeof lastArg?.idempotencyKey === 'string' ? lastArg.idempotencyKey : undefined;
+
+    if (!idempotencyKey) {
+      return this.executeWithRetry(scope, endpoint, method, !isCreate, call);
     }
-    
-    rateInfo.count++;
-    this.requestCounts.set(tenantId, rateInfo);
-    
-    if (rateInfo.count >= this.RATE_LIMIT_THRESHOLD) {
-      this.logger.warn(`⚠️ Rate limit warning for tenant ${tenantId}: ${rateInfo.count}/10000 requests used`);
+
+    // Same key again (concurrently or within the TTL) returns the original create's result
+    const now = Date.now();
+    for (const [key, entry] of this.idempotentCreates) {
+      if (entry.expiresAt <= now) this.idempotentCreates.delete(key);
     }
+    const dedupeKey = `${scope.tenantKey}:${endpoint}:${idempotencyKey}`;
+    const existing = this.idempotentCreates.get(dedupeKey);
+    if (existing) {
+      this.logger.info(`♻️ Returning result of earlier ${endpoint}.create for idempotency key`, { tenantId: scope.tenantId, idempotencyKey });
+      return existing.promise as Promise<T>;
+    }
+
+    const promise = this.executeWithRetry(scope, endpoint, method, true, call);
+    this.idempotentCreates.set(dedupeKey, { promise, expiresAt: now + IDEMPOTENCY_TTL_MS });
+    promise.catch(() => this.idempotentCreates.delete(dedupeKey));
+    return promise;
+  }
+
+  private async executeWithRetry<T>(scope: ApiCallScope, endpoint: string, method: string, idempotent: boolean, call: () => Promise<T>): Promise<T> {
+    const correlationId = crypto.randomBytes(6).toString('hex');
+    const operation = `${endpoint}.${method}`;
+
+    for (let attempt = 1; ; attempt++) {
+      // Fail fast while the tenant's circuit is open (before spending rate limit budget)
+      this.circuitBreaker.beforeCall(scope.tenantKey, scope.tenantId);
+
+      const queuedAt = Date.now();
+      let release;
+      try {
+        release = await this.rateLimiter.acquire(scope.tenantKey, endpoint, scope.tenantId);
+      } catch (error) {
+        this.circuitBreaker.recordFailure(scope.tenantKey, error);
+        throw error;
+      }
+      const startedAt = Date.now();
+
+      this.logger.debug(`➡️ ${operation} attempt ${attempt}/${this.retryPolicy.maxAttempts}`, {
+        correlationId,
+        tenantId: scope.tenantId,
+        queuedMs: startedAt - queuedAt
+      });
+
+      let outcome;
+      try {
+        outcome = await runWithResponseCapture(call);
+      } finally {
+        release();
+      }
+
+      // A redirect or 401 can mean the cached zone is stale (e.g. the database moved zones)
+      if (outcome.redirected || ('error' in outcome && getErrorStatus(outcome.error) === 401)) {
+        await this.invalidateZone(scope, outcome.redirected ? 'redirect' : '401');
+      }
+
+      if ('result' in outcome) {
+        this.circuitBreaker.recordSuccess(scope.tenantKey);
+        if (attempt > 1) {
+          this.logger.info(`✅ ${operation} succeeded on attempt ${attempt}`, { correlationId, tenantId: scope.tenantId });
+        }
+        return outcome.result;
+      }
+
+      const category = this.circuitBreaker.recordFailure(scope.tenantKey, outcome.error);
+      const decision = this.retryPolicy.decide(scope.tenantKey, outcome.error, {
+        attempt,
+        idempotent,
+        ...(outcome.retryAfterMs !== undefined && { retryAfterMs: outcome.retryAfterMs })
+      });
+
+      this.logger.warn(`🔁 ${operation} attempt ${attempt} failed${decision.retry ? `, retrying in ${decision.delayMs}ms` : ''}`, {
+        correlationId,
+        tenantId: scope.tenantId,
+        status: getErrorStatus(outcome.error),
+        code: getNetworkErrorCode(outcome.error),
+        category,
+        error: outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+        durationMs: Date.now() - startedAt,
+        retry: decision.retry,
+        reason: decision.reason
+      });
+
+      if (!decision.retry) {
+        throw outcome.error;
+      }
+      await new Promise(resolve => setTimeout(resolve, decision.delayMs));
+    }
+  }
+
+  /**
+   * Subscribe to hourly API budget warnings (fires once per tenant when usage crosses 90%)
+   */
+  public onRateLimitWarning(listener: RateLimitWarningListener): () => void {
+    return this.rateLimiter.onWarning(listener);
   }
 
   /**
-   * Mark client as healthy after successful request
+   * Circuit breaker state for a tenant (resolves registered tenants' credentials first)
    */
-  private markClientHealthy(cacheKey: string): void {
-    const entry = this.clientPool.get(cacheKey);
-    if (entry) {
-      entry.consecutiveErrors = 0;
-      entry.isHealthy = true;
+  public async getCircuitState(tenantContext?: TenantContext): Promise<CircuitBreakerSnapshot> {
+    if (!this.isMultiTenant) {
+      return this.circuitBreaker.getSnapshot('single-tenant');
+    }
+    await this.resolveRegisteredCredentials(tenantContext);
+    if (!tenantContext?.credentials) {
+      throw new Error('Multi-tenant mode requires tenant credentials');
     }
+    return this.circuitBreaker.getSnapshot(this.getTenantCacheKey(tenantContext.credentials), tenantContext.tenantId);
   }
 
   /**
-   * Mark client as having an error, implement circuit breaker
+   * Circuit breaker state for every tenant that has called Autotask
    */
-  private markClientError(cacheKey: string): boolean {
-    const entry = this.clientPool.get(cacheKey);
-    if (entry) {
-      entry.consecutiveErrors++;
-      entry.lastError = new Date();
-      
-      if (entry.consecutiveErrors >= CIRCUIT_BREAKER_CONFIG.maxConsecutiveErrors) {
-        entry.isHealthy = false;
-        this.logger.error(`🔴 Circuit breaker OPEN for tenant ${entry.tenantId}: ${entry.consecutiveErrors} consecutive errors`);
-        return false; // Circuit is open
-      }
+  public getCircuitStates(): CircuitBreakerSnapshot[] {
+    return this.circuitBreaker.getAllSnapshots();
+  }
+
+  /**
+   * Current API budget usage for a tenant (null before its first call; resolves registered tenants' credentials first)
+   */
+  public async getRateLimitStats(tenantContext?: TenantContext): Promise<TenantRateLimitStats | null> {
+    if (!this.isMultiTenant) {
+      return this.rateLimiter.getTenantStats('single-tenant');
     }
-    return true; // Circuit is still closed
+    await this.resolveRegisteredCredentials(tenantContext);
+    return tenantContext?.credentials ? this.rateLimiter.getTenantStats(this.getTenantCacheKey(tenantContext.credentials)) : null;
   }
 
   /**
-   * Check if circuit breaker allows requests
+   * Drop a discovered zone after a redirect/401, along with clients bound to it, so the next request rediscovers it.
+   * Explicitly configured API URLs are left alone.
    */
-  private isCircuitClosed(cacheKey: string): boolean {
-    const entry = this.clientPool.get(cacheKey);
-    if (!entry) return true;
-    
-    if (!entry.isHealthy && entry.lastError) {
-      const cooldownElapsed = Date.now() - entry.lastError.getTime() > CIRCUIT_BREAKER_CONFIG.cooldownPeriodMs;
-      if (cooldownElapsed) {
-        // Try to close the circuit (half-open state)
-        entry.isHealthy = true;
-        entry.consecutiveErrors = 0;
-        this.logger.info(`🟡 Circuit breaker HALF-OPEN for tenant ${entry.tenantId}: attempting recovery`);
-        return true;
+  private async invalidateZone(scope: ApiCallScope, reason: string): Promise<void> {
+    if (scope.zoneSource === 'explicit') {
+      return;
+    }
+
+    this.logger.warn(`🌐 Invalidating Autotask zone for tenant ${scope.tenantId} (${reason})`, { tenantId: scope.tenantId });
+    await this.zoneResolver.invalidate(scope.username);
+
+    for (const [key, entry] of this.clientPool) {
+      if (entry.credentials.username === scope.username) {
+        this.clientPool.delete(key);
       }
-      return false;
     }
-    
-    return entry.isHealthy;
+    if (!this.isMultiTenant) {
+      this.client = null;
+      this.initializationPromise = null;
+    }
+  }
+
+  /**
+   * Construct a client pinned to the API user's zone (explicit apiUrl, else the discovered/cached zone)
+   * and route its calls through executeApiCall
+   */
+  private async createZonedClient(
+    credentials: AutotaskCredentials,
+    scope: { tenantKey: string; tenantId: string }
+  ): Promise<AutotaskRestApi> {
+    const zone = await this.zoneResolver.resolve(credentials.username, credentials.apiUrl || this.config.multiTenant?.defaultApiUrl);
+    const client = new AutotaskRestApi(credentials.username, credentials.secret, credentials.integrationCode, { base_url: zone.url });
+
+    // Setting zoneInfo up front stops the client from running its own zoneInformation lookup
+    client.zoneInfo = { url: zone.url, ...(zone.webUrl && { webUrl: zone.webUrl }) };
+
+    this.logger.info('🌐 Using Autotask zone', { tenantId: scope.tenantId, url: zone.url, source: zone.source });
+    return this.wrapClient(client, { ...scope, username: credentials.username, zoneSource: zone.source });
   }
 
   /**
    * Create Autotask client for specific tenant using @apigrate/autotask-restapi
    */
-  private async createTenantClient(credentials: AutotaskCredentials, impersonationResourceId?: number): Promise<AutotaskRestApi> {
+  private async createTenantClient(credentials: AutotaskCredentials, tenantId: string, impersonationResourceId?: number): Promise<AutotaskRestApi> {
     try {
       const { username, secret, integrationCode } = credentials;
       
@@ -422,20 +639,13 @@ export class AutotaskService {
         throw new Error('Missing required Autotask credentials: username, secret, and integrationCode are required');
       }
 
-      // @apigrate/autotask-restapi uses synchronous constructor
-      // Zone discovery happens automatically on first API call
-      const client = new AutotaskRestApi(
-        username,
-        secret,
-        integrationCode
-      );
+      const client = await this.createZonedClient(credentials, { tenantKey: this.getTenantCacheKey(credentials), tenantId });
       
-      this.logger.info('✅ Autotask client created (zone will be discovered on first call)', {
+      this.logger.info('✅ Autotask client created', {
         impersonationResourceId: impersonationResourceId ? `[Resource ID: ${impersonationResourceId}]` : undefined 
       });
 
-      // Note: @apigrate/autotask-restapi handles impersonation via ImpersonationResourceId header
-      // Store impersonation info for later use if needed
+      // Impersonation is applied per write call via the ImpersonationResourceId header (see getWriteOptions)
       if (impersonationResourceId) {
         this.logger.info(`Impersonation will be used for resource ID: ${impersonationResourceId}`);
       }
@@ -460,7 +670,7 @@ export class AutotaskService {
    */
   async initialize(): Promise<void> {
     try {
-      const { username, secret, integrationCode } = this.config.autotask || {};
+      const { username, secret, integrationCode, apiUrl } = this.config.autotask || {};
       
       if (!username || !secret || !integrationCode) {
         const missing = [];
@@ -477,15 +687,12 @@ export class AutotaskService {
 
       this.logger.info('Initializing Autotask client (@apigrate/autotask-restapi)...');
       
-      // @apigrate/autotask-restapi uses synchronous constructor
-      // Zone discovery happens automatically on first API call
-      this.client = new AutotaskRestApi(
-        username,
-        secret,
-        integrationCode
+      this.client = await this.createZonedClient(
+        { username, secret, integrationCode, ...(apiUrl && { apiUrl }) },
+        { tenantKey: 'single-tenant', tenantId: 'single-tenant' }
       );
 
-      this.logger.info('✅ Autotask client initialized successfully (zone will be discovered on first call)');
+      this.logger.info('✅ Autotask client initialized successfully');
     } catch (error) {
       this.logger.error('Failed to initialize Autotask client:', error);
       throw error;
@@ -522,10 +729,369 @@ export class AutotaskService {
     await this.initializationPromise;
   }
 
+  /**
+   * Run one page of an entity query. Pages are Autotask's own (MaxRecords = pageSize); later pages
+   * are reached through nextPageUrl - from the cursor returned with the previous page, or by
+   * walking from page 1 when only a page number is given.
+   */
+  private async queryPage<T>(
+    client: AutotaskRestApi,
+    entity: string,
+    queryBody: { filter: any[]; includeFields?: string[] },
+    options: AutotaskQueryOptions,
+    tenantContext: TenantContext | undefined,
+    toolName: string
+  ): Promise<PaginatedResponse<T>> {
+    const tenant = getTenantFingerprint(this.getTenantPartitionKey(tenantContext));
+    let result: AutotaskApiResponse<T> | null;
+    let page: number;
+    let pageSize: number;
+    let totalCount: number | undefined;
+
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor, { entity, tenant });
+      ({ page, pageSize } = cursor);
+      totalCount = cursor.total;
+      result = await client[entity].queryNext(cursor.pageUrl);
+    } else {
+      pageSize = Math.max(1, Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE));
+      const targetPage = options.page || 1;
+      if (targetPage - 1 > PAGINATION_CONFIG.MAX_PAGE_WALK) {
+        throw new Error(`page ${targetPage} is too far to reach by page number (max ${PAGINATION_CONFIG.MAX_PAGE_WALK + 1}) - continue with the cursor returned by the previous page`);
+      }
+
+      // The count runs alongside the page walk; it never fails the search
+      const countPromise = this.countMatches(client, entity, queryBody.filter, tenantContext);
+      result = await client[entity].query({ ...queryBody, MaxRecords: pageSize });
+      page = 1;
+      while (page < targetPage && result?.pageDetails?.nextPageUrl) {
+        result = await client[entity].queryNext(toRelativePageUrl(result.pageDetails.nextPageUrl));
+        page++;
+      }
+      if (page < targetPage) {
+        this.logger.info(`${entity} query has only ${page} pages - page ${targetPage} is empty`);
+        result = null;
+        page = targetPage;
+      }
+      totalCount = await countPromise;
+    }
+
+    const items = result?.items || [];
+    const nextPageUrl = result?.pageDetails?.nextPageUrl;
+    if (result && !nextPageUrl) {
+      // The last page settles the total even when the count is missing or stale
+      totalCount = (page - 1) * pageSize + items.length;
+    }
+    const nextCursor = nextPageUrl
+      ? encodeCursor({
+          entity,
+          tenant,
+          page: page + 1,
+          pageSize,
+          pageUrl: toRelativePageUrl(nextPageUrl),
+          ...(totalCount !== undefined && { total: totalCount })
+        })
+      : undefined;
+
+    const pagination = createPaginationInfo(items.length, page, pageSize, totalCount, nextCursor);
+    this.logger.info(`📄 ${entity} page ${page}: ${items.length} items`, {
+      tenantId: tenantContext?.tenantId,
+      total: pagination.total,
+      totalKnown: pagination.totalKnown,
+      hasMore: pagination.hasMore
+    });
+    return createPaginatedResponse(items, pagination, toolName);
+  }
+
+  /**
+   * Total matches for a query filter, or undefined when the count call fails
+   */
+  private async countMatches(client: AutotaskRestApi, entity: string, filter: any[], tenantContext?: TenantContext): Promise<number | undefined> {
+    try {
+      return (await this.countWithCache(client, entity, filter, tenantContext)).count;
+    } catch (countError) {
+      this.logger.warn(`Could not get total count for ${entity}:`, countError);
+      return undefined;
+    }
+  }
+
+  private countWithCache(client: AutotaskRestApi, entity: string, filter: any[], tenantContext?: TenantContext): Promise<CountResult> {
+    return this.countCache.get(this.getTenantPartitionKey(tenantContext), entity, filter, async () => {
+      const countResult = await client[entity].count({ filter }) as AutotaskCountResponse;
+      if (typeof countResult?.queryCount !== 'number') {
+        throw new Error(`${entity} count response did not include queryCount`);
+      }
+      return countResult.queryCount;
+    });
+  }
+
+  /**
+   * Number of records matching a filter, via the Autotask /query/count endpoint (cached briefly per filter)
+   */
+  async countEntities(entity: string, filter: any[] = [], tenantContext?: TenantContext): Promise<CountResult> {
+    const client = await this.getClientForTenant(tenantContext);
+    if (typeof client[entity]?.count !== 'function') {
+      throw new Error(`Entity ${entity} does not support counting`);
+    }
+    // Autotask requires at least one condition; id >= 0 matches every record
+    const countFilter = filter.length > 0 ? filter : [{ op: 'gte', field: 'id', value: 0 }];
+
+    this.logger.debug(`Counting ${entity}:`, { filter: countFilter, tenantId: tenantContext?.tenantId });
+    return this.countWithCache(client, entity, countFilter, tenantContext);
+  }
+
+  /**
+   * An empty page, for endpoints that don't support listing
+   */
+  private emptyPage<T>(options: AutotaskQueryOptions, toolName: string): PaginatedResponse<T> {
+    const pageSize = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
+    return createPaginatedResponse<T>([], createPaginationInfo(0, options.page || 1, pageSize, 0, undefined), toolName);
+  }
+
+  /**
+   * Field definitions, required/read-only flags and picklist values for an entity, including
+   * user-defined fields. Entity names are matched ignoring case ("tickets" -> Tickets). Cached per tenant.
+   */
+  async getEntityMetadata(entity: string, tenantContext?: TenantContext): Promise<AutotaskEntityMetadata> {
+    const client = await this.getClientForTenant(tenantContext);
+    const entityName = this.resolveEntityName(client, entity);
+    return this.entityMetadata.getEntityMetadata(this.getTenantPartitionKey(tenantContext), entityName, client[entityName]);
+  }
+
+  async getEntityFields(entity: string, tenantContext?: TenantContext): Promise<AutotaskFieldInfo[]> {
+    return (await this.getEntityMetadata(entity, tenantContext)).fields;
+  }
+
+  /**
+   * Choices of one picklist field (e.g. Tickets status), active ones only unless includeInactive is set
+   */
+  async getPicklist(
+    entity: string,
+    fieldName: string,
+    tenantContext?: TenantContext,
+    includeInactive: boolean = false
+  ): Promise<{ entity: string; field: string; isUdf: boolean; picklistParentValueField?: string; values: AutotaskPicklistValue[] }> {
+    if (typeof fieldName !== 'string' || !fieldName) {
+      throw new Error('A field name is required');
+    }
+    const metadata = await this.getEntityMetadata(entity, tenantContext);
+    const field = findField(metadata, fieldName);
+    if (!field) {
+      throw new Error(`${metadata.entity} has no field named ${fieldName}`);
+    }
+    if (!field.isPickList) {
+      throw new Error(`${metadata.entity}.${field.name} is not a picklist field`);
+    }
+
+    const values = (field.picklistValues || [])
+      .filter(value => includeInactive || value.isActive)
+      .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+    return {
+      entity: metadata.entity,
+      field: field.name,
+      isUdf: field.isUdf,
+      ...(field.picklistParentValueField && { picklistParentValueField: field.picklistParentValueField }),
+      values
+    };
+  }
+
+  /**
+   * Add picklist labels to records' `_enhanced` (ticket status 5 -> statusLabel "Complete").
+   * Best effort: records are returned unlabeled when the metadata can't be loaded.
+   */
+  async addPicklistLabels<T>(entity: string, records: T[], tenantContext?: TenantContext): Promise<T[]> {
+    const labelFields = PICKLIST_LABEL_FIELDS[entity];
+    if (!labelFields || records.length === 0) {
+      return records;
+    }
+
+    let labelMaps: Map<string, Map<string, string>>;
+    try {
+      labelMaps = getPicklistLabelMaps(await this.getEntityMetadata(entity, tenantContext), Object.keys(labelFields));
+    } catch (error) {
+      this.logger.warn(`Could not load ${entity} picklists for labels:`, error instanceof Error ? error.message : error);
+      return records;
+    }
+
+    return records.map(record => {
+      const labels: Record<string, string> = {};
+      for (const [fieldName, labelKey] of Object.entries(labelFields)) {
+        const value = (record as any)[fieldName];
+        const label = value !== undefined && value !== null ? labelMaps.get(fieldName)?.get(String(value)) : undefined;
+        if (label) {
+          labels[labelKey] = label;
+        }
+      }
+      return Object.keys(labels).length > 0
+        ? { ...record, _enhanced: { ...(record as any)._enhanced, ...labels } }
+        : record;
+    });
+  }
+
+  /**
+   * Picklist value for a filter given as a label (status "Waiting Customer" -> 7). Numbers pass through.
+   */
+  async resolvePicklistValue(entity: string, fieldName: string, input: unknown, tenantContext?: TenantContext): Promise<unknown> {
+    if (typeof input !== 'string') {
+      return input;
+    }
+    if (/^\d+$/.test(input.trim())) {
+      return Number(input);
+    }
+
+    const metadata = await this.getEntityMetadata(entity, tenantContext);
+    const field = findField(metadata, fieldName);
+    const choice = field ? findPicklistValue(field, input) : undefined;
+    if (!field || !choice) {
+      const choices = (field?.picklistValues || []).filter(value => value.isActive).map(value => `${value.label} (${value.value})`);
+      throw new Error(`Unknown ${metadata.entity} ${fieldName} "${input}"${choices.length > 0 ? `. Valid values: ${choices.join(', ')}` : ''}`);
+    }
+    return /^\d+$/.test(choice.value) ? Number(choice.value) : choice.value;
+  }
+
+  /**
+   * Exact entity name the client knows, e.g. "timeentries" -> TimeEntries
+   */
+  private resolveEntityName(client: AutotaskRestApi, entity: string): string {
+    if (typeof entity !== 'string' || !entity) {
+      throw new Error('An entity name is required');
+    }
+    const compact = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const match = (client.available_entities || []).find((candidate: { name: string }) => compact(candidate.name) === compact(entity));
+    if (!match) {
+      throw new Error(`Unknown Autotask entity: ${entity}`);
+    }
+    return match.name;
+  }
+
+  /**
+   * Query any entity with a full filter tree (nested and/or groups, UDF conditions) and optional
+   * includeFields. The filter is validated against the entity's field definitions before it is sent.
+   */
+  async queryEntity<T = Record<string, any>>(
+    entity: string,
+    options: AutotaskQueryOptions,
+    tenantContext?: TenantContext
+  ): Promise<PaginatedResponse<T>> {
+    const client = await this.getClientForTenant(tenantContext);
+
+    if (options.cursor) {
+      // The cursor carries the query; nothing to validate
+      return this.queryPage<T>(client, entity, { filter: [] }, options, tenantContext, 'query_entity');
+    }
+
+    const fields = await this.getEntityFields(entity, tenantContext);
+    const queryBody = validateQuery(entity, options.filter, options.includeFields, fields);
+
+    this.logger.info(`Querying ${entity} with filter tree:`, { filter: queryBody.filter, tenantId: tenantContext?.tenantId });
+    return this.queryPage<T>(client, entity, queryBody, options, tenantContext, 'query_entity');
+  }
+
+  /**
+   * Fetch records of any entity by ID, in `id in [...]` queries of up to MAX_FILTER_CONDITIONS IDs.
+   * Chunks run one after another so a large lookup doesn't flood the tenant's rate limit.
+   */
+  async getEntitiesByIds<T = Record<string, any>>(
+    entity: string,
+    ids: number[],
+    includeFields?: string[],
+    tenantContext?: TenantContext
+  ): Promise<T[]> {
+    const uniqueIds = Array.from(new Set(ids.filter(id => Number.isInteger(id) && id > 0)));
+    if (uniqueIds.length === 0) {
+      return [];
+    }
+
+    const client = await this.getClientForTenant(tenantContext);
+    const records: T[] = [];
+    for (let start = 0; start < uniqueIds.length; start += MAX_FILTER_CONDITIONS) {
+      const chunk = uniqueIds.slice(start, start + MAX_FILTER_CONDITIONS);
+      const result = await client[entity].query({
+        filter: [{ op: 'in', field: 'id', value: chunk }],
+        ...(includeFields && includeFields.length > 0 && { includeFields: Array.from(new Set(['id', ...includeFields])) }),
+        MaxRecords: chunk.length
+      }) as AutotaskApiResponse<T>;
+      records.push(...(result?.items || []));
+    }
+
+    this.logger.debug(`Looked up ${records.length} of ${uniqueIds.length} ${entity} by ID`, { tenantId: tenantContext?.tenantId });
+    return records;
+  }
+
+  /**
+   * Records created or modified at or after a watermark (`since`), using the entity's last-modified field,
+   * optionally narrowed by more filter conditions (validated like query_entity filters).
+   * Follow nextCursor while hasMore; once the feed is drained, nextWatermark is the `since` for the next sync.
+   * Delivery is at-least-once: records modified at the watermark itself come back on the next sync, so
+   * records saved in the same instant aren't lost - callers de-duplicate by ID.
+   */
+  async getChangesSince<T = Record<string, any>>(
+    entityName: string,
+    options: { since?: string; cursor?: string; pageSize?: number; filter?: unknown },
+    tenantContext?: TenantContext
+  ): Promise<ChangeFeedPage<T>> {
+    const feed = getChangeFeedEntity(entityName);
+    const client = await this.getClientForTenant(tenantContext);
+    const tenant = getTenantFingerprint(this.getTenantPartitionKey(tenantContext));
+    let result: AutotaskApiResponse<T> | null;
+    let since: string;
+    let watermark: string;
+    let page: number;
+    let pageSize: number;
+
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor, { entity: feed.entity, tenant });
+      if (!cursor.since || !cursor.watermark) {
+        throw new InvalidCursorError('not a change feed cursor');
+      }
+      ({ page, pageSize, since, watermark } = cursor as Required<typeof cursor>);
+      result = await client[feed.entity].queryNext(cursor.pageUrl);
+    } else {
+      since = normalizeWatermark(options.since);
+      watermark = since;
+      page = 1;
+      pageSize = Math.max(1, Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE));
+      const extraFilter = Array.isArray(options.filter) && options.filter.length > 0
+        ? validateQuery(feed.entity, options.filter, undefined, await this.getEntityFields(feed.entity, tenantContext)).filter
+        : [];
+      result = await client[feed.entity].query({
+        filter: [{ op: 'gte', field: feed.modifiedField, value: since }, ...extraFilter],
+        MaxRecords: pageSize
+      });
+    }
+
+    const changes = tagChanges(feed, result?.items || [], since, watermark);
+    const nextPageUrl = result?.pageDetails?.nextPageUrl;
+    const nextCursor = nextPageUrl
+      ? encodeCursor({
+          entity: feed.entity,
+          tenant,
+          page: page + 1,
+          pageSize,
+          pageUrl: toRelativePageUrl(nextPageUrl),
+          since,
+          watermark: changes.watermark
+        })
+      : undefined;
+
+    this.logger.info(`${feed.entity} changes since ${since}, page ${page}: ${changes.items.length} records`, {
+      tenantId: tenantContext?.tenantId,
+      nextWatermark: changes.watermark,
+      hasMore: !!nextCursor
+    });
+    return {
+      entity: feed.entity,
+      since,
+      items: changes.items,
+      nextWatermark: changes.watermark,
+      hasMore: !!nextCursor,
+      ...(nextCursor && { nextCursor })
+    };
+  }
+
   // Company operations (updated to support multi-tenant and @apigrate/autotask-restapi)
   async getCompany(id: number, tenantContext?: TenantContext): Promise<AutotaskCompany | null> {
     const startTime = Date.now();
-    const cacheKey = tenantContext ? this.getTenantCacheKey(tenantContext.credentials!) : 'single-tenant';
     
     this.logger.info('🏢 Getting company by ID', {
       companyId: id,
@@ -543,7 +1109,6 @@ export class AutotaskService {
       const result = await client.Companies.get(id);
       
       const executionTime = Date.now() - startTime;
-      this.markClientHealthy(cacheKey);
       
       this.logger.info('✅ Company retrieved successfully', {
         companyId: id,
@@ -556,7 +1121,6 @@ export class AutotaskService {
       return result?.item as AutotaskCompany || null;
     } catch (error) {
       const executionTime = Date.now() - startTime;
-      this.markClientError(cacheKey);
       
       // Handle error - AutotaskApiError or standard Error
       const err = error as Error & { status?: number; details?: unknown };
@@ -578,7 +1142,6 @@ export class AutotaskService {
    */
   async searchCompaniesWithPagination(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskCompany>> {
     const startTime = Date.now();
-    const cacheKey = tenantContext ? this.getTenantCacheKey(tenantContext.credentials!) : 'single-tenant';
     
     this.logger.info('🔍 Searching companies with pagination', {
       hasTenantContext: !!tenantContext,
@@ -603,90 +1166,22 @@ export class AutotaskService {
         filterArray = options.filter;
       }
 
-      // Enforce page size limits from centralized config
-      const pageSize = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
-      const currentPage = options.page || 1;
-      
       // Use @apigrate/autotask-restapi query method
       const queryBody: any = { filter: filterArray };
       if (options.includeFields) queryBody.includeFields = options.includeFields;
       
-      // Calculate how many items we need based on page and pageSize
-      const itemsNeeded = currentPage * pageSize;
-      const apiMaxPerCall = PAGINATION_CONFIG.API_MAX;
-      
       this.logger.info('📡 Calling Companies.query with @apigrate', { 
         filterArray, 
-        pageSize, 
-        currentPage,
-        itemsNeeded,
-        maxAllowed: PAGINATION_CONFIG.MAX_PAGE_SIZE 
-      });
-      
-      // Fetch first batch
-      let result = await client.Companies.query(queryBody);
-      this.markClientHealthy(cacheKey);
-      
-      let companies: AutotaskCompany[] = result.items || [];
-      let pageDetails = result.pageDetails as AutotaskPageDetails | undefined;
-      
-      // If we need more items and there's a next page, fetch additional pages
-      // This allows returning up to 1000 items by fetching 2 API pages (2 x 500)
-      let fetchCount = 1;
-      const maxFetches = Math.ceil(PAGINATION_CONFIG.MAX_ITEMS_PER_CALL / apiMaxPerCall);
-      
-      while (companies.length < itemsNeeded && pageDetails?.nextPageUrl && fetchCount < maxFetches) {
-        this.logger.info(`Fetching additional page (${fetchCount + 1}/${maxFetches}) - have ${companies.length}, need ${itemsNeeded}`);
-        
-        try {
-          // @apigrate uses nextPageUrl for pagination - we need to make another query
-          // For now, we've fetched what we can from the first call
-          // TODO: Implement nextPageUrl following if needed
-          break;
-        } catch (nextPageError) {
-          this.logger.warn('Failed to fetch next page:', nextPageError);
-          break;
-        }
-      }
-      
-      // Handle page-based pagination (slice results based on page and pageSize)
-      const startIndex = (currentPage - 1) * pageSize;
-      const endIndex = startIndex + pageSize;
-      
-      this.logger.info('Pagination calculation for companies:', {
-        totalFromAPI: companies.length,
-        currentPage,
-        pageSize,
-        startIndex,
-        endIndex,
-        willSlice: startIndex > 0 || companies.length > pageSize
+        pageSize: options.pageSize, 
+        page: options.page,
+        hasCursor: !!options.cursor
       });
       
-      // Apply pagination offset and limit
-      if (startIndex > 0 || companies.length > pageSize) {
-        companies = companies.slice(startIndex, endIndex);
-        this.logger.info(`Companies sliced for page ${currentPage}: showing ${companies.length} items`);
-      }
+      const result = await this.queryPage<AutotaskCompany>(client, 'Companies', queryBody, options, tenantContext, 'search_companies');
       
       // Optimize company data to reduce response size - keep only essential fields
-      const optimizedCompanies = companies.map(company => this.optimizeCompanyData(company));
-      
-      // Try to get total count if not in pageDetails
-      let totalCount: number | undefined;
-      try {
-        const countResult = await client.Companies.count({ filter: filterArray }) as AutotaskCountResponse;
-        totalCount = countResult.queryCount;
-      } catch (countError) {
-        this.logger.warn('Could not get total count for companies:', countError);
-      }
-      
-      const pagination = createPaginationInfo(
-        optimizedCompanies.length,
-        pageDetails,
-        totalCount,
-        currentPage,
-        pageSize
-      );
+      const optimizedCompanies = result.items.map(company => this.optimizeCompanyData(company));
+      const pagination = result.pagination;
       
       const executionTime = Date.now() - startTime;
       this.logger.info(`✅ Retrieved ${optimizedCompanies.length} companies with pagination`, {
@@ -697,11 +1192,10 @@ export class AutotaskService {
         executionTimeMs: executionTime
       });
       
-      return createPaginatedResponse(optimizedCompanies, pagination, 'search_companies');
+      return { ...result, items: optimizedCompanies };
       
     } catch (error) {
       const executionTime = Date.now() - startTime;
-      this.markClientError(cacheKey);
       
       const err = error as Error & { status?: number; details?: unknown };
       this.logger.error('❌ Failed to search companies:', {
@@ -766,7 +1260,6 @@ export class AutotaskService {
 
   async createCompany(company: Partial<AutotaskCompany>, tenantContext?: TenantContext): Promise<number> {
     const client = await this.getClientForTenant(tenantContext);
-    const cacheKey = tenantContext ? this.getTenantCacheKey(tenantContext.credentials!) : 'single-tenant';
     
     try {
       this.logger.info('🏢 Creating company', {
@@ -791,14 +1284,12 @@ export class AutotaskService {
       });
 
       // @apigrate/autotask-restapi uses Companies.create()
-      const result = await client.Companies.create(company as any);
-      this.markClientHealthy(cacheKey);
+      const result = await client.Companies.create(company as any, this.getWriteOptions(tenantContext));
       
       const companyId = result?.itemId;
       this.logger.info(`Company created with ID: ${companyId}`);
       return companyId;
     } catch (error) {
-      this.markClientError(cacheKey);
       this.logger.error('Failed to create company:', error);
       throw error;
     }
@@ -809,7 +1300,7 @@ export class AutotaskService {
     
     try {
       this.logger.info(`Updating company ${id}:`, updates);
-      await client.Companies.update({ id, ...updates } as any);
+      await client.Companies.update({ id, ...updates } as any, this.getWriteOptions(tenantContext));
       this.logger.info(`Company ${id} updated successfully`);
     } catch (error) {
       this.logger.error(`Failed to update company ${id}:`, error);
@@ -832,7 +1323,10 @@ export class AutotaskService {
     }
   }
 
-  async searchContacts(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskContact[]> {
+  /**
+   * Search contacts - one page with pagination metadata
+   */
+  async searchContactsWithPagination(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskContact>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -852,36 +1346,32 @@ export class AutotaskService {
         filterArray = options.filter;
       }
 
-      // @apigrate query format - only filter and includeFields are valid
       const queryBody: any = { filter: filterArray };
       if (options.includeFields) queryBody.includeFields = options.includeFields;
       
       this.logger.info('Calling Contacts.query with @apigrate:', { filterArray });
 
-      const result = await client.Contacts.query(queryBody);
-      let contacts = (result?.items || []) as AutotaskContact[];
+      const result = await this.queryPage<AutotaskContact>(client, 'Contacts', queryBody, options, tenantContext, 'search_contacts');
       
-      // Apply page size limit in code (API returns up to 500)
-      const maxResults = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
-      if (contacts.length > maxResults) {
-        contacts = contacts.slice(0, maxResults);
-        this.logger.info(`Results capped to ${maxResults} (from ${result?.items?.length || 0})`);
-      }
-      
-      this.logger.info(`Retrieved ${contacts.length} contacts`);
-      return contacts;
+      this.logger.info(`Retrieved ${result.items.length} contacts`);
+      return result;
     } catch (error) {
       this.logger.error('Failed to search contacts:', error);
       throw error;
     }
   }
 
+  async searchContacts(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskContact[]> {
+    const result = await this.searchContactsWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   async createContact(contact: Partial<AutotaskContact>, tenantContext?: TenantContext): Promise<number> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
       this.logger.info('Creating contact:', contact);
-      const result = await client.CompanyContacts.create(contact.companyID, contact as any);
+      const result = await client.CompanyContacts.create(contact.companyID, contact as any, this.getWriteOptions(tenantContext));
       const contactId = result?.itemId;
       this.logger.info(`Contact created with ID: ${contactId}`);
       return contactId;
@@ -898,7 +1388,7 @@ export class AutotaskService {
       this.logger.info(`Updating contact ${id}:`, updates);
       // Contacts are child entities - need parent company ID
       const companyID = (updates as any).companyID;
-      await client.CompanyContacts.update(companyID, { id, ...updates } as any);
+      await client.CompanyContacts.update(companyID, { id, ...updates } as any, this.getWriteOptions(tenantContext));
       this.logger.info(`Contact ${id} updated successfully`);
     } catch (error) {
       this.logger.error(`Failed to update contact ${id}:`, error);
@@ -969,7 +1459,10 @@ export class AutotaskService {
 
 
 
-  async searchTickets(options: AutotaskQueryOptionsExtended = {}, tenantContext?: TenantContext): Promise<AutotaskTicket[]> {
+  /**
+   * Search tickets - one page with pagination metadata
+   */
+  async searchTicketsWithPagination(options: AutotaskQueryOptionsExtended = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskTicket>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -1129,66 +1622,46 @@ export class AutotaskService {
         });
       }
       
-      // @apigrate query format - only filter is valid
+      // Caller-supplied conditions (e.g. the handler's fallback search) are added to the built filters
+      if (Array.isArray(options.filter)) {
+        filters.push(...options.filter);
+      }
+      
       const queryBody = { filter: filters };
-      const maxResults = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
 
       this.logger.info('Calling Tickets.query with @apigrate:', { 
         filterCount: filters.length,
         filters: filters.map(f => `${f.field} ${f.op} ${f.value}`)
       });
       
-      // Use @apigrate/autotask-restapi query method
-      const result = await client.Tickets.query(queryBody);
-      
-      this.logger.info('Tickets.query raw response:', {
-        hasResult: !!result,
-        hasItems: !!(result?.items),
-        itemCount: result?.items?.length || 0,
-        pageDetails: result?.pageDetails
-      });
-      
-      let tickets = (result?.items || []) as AutotaskTicket[];
-      
-      // Handle page-based pagination (since @apigrate returns up to 500 at once)
-      const page = options.page || 1;
-      const startIndex = (page - 1) * maxResults;
-      const endIndex = startIndex + maxResults;
-      
-      this.logger.info('Pagination calculation:', {
-        totalFromAPI: tickets.length,
-        page,
-        maxResults,
-        startIndex,
-        endIndex
-      });
-      
-      // Apply pagination offset and limit
-      if (startIndex > 0 || tickets.length > maxResults) {
-        tickets = tickets.slice(startIndex, endIndex);
-        this.logger.info(`Tickets sliced for page ${page}: showing ${tickets.length} items (index ${startIndex}-${endIndex})`);
-      }
+      const result = await this.queryPage<AutotaskTicket>(client, 'Tickets', queryBody, options, tenantContext, 'search_tickets');
       
       // Log API call result
       this.logger.info('📊 API Result for searchTickets', {
         tenantId: tenantContext?.tenantId,
-        resultCount: tickets.length,
-        filterCount: filters.length
+        resultCount: result.items.length,
+        filterCount: filters.length,
+        page: result.pagination.currentPage
       });
       
-      const optimizedTickets = tickets.map(ticket => this.optimizeTicketDataAggressive(ticket));
+      const optimizedTickets = result.items.map(ticket => this.optimizeTicketDataAggressive(ticket));
       
       this.logger.info(`✅ Retrieved ${optimizedTickets.length} tickets`, {
         tenantId: tenantContext?.tenantId,
         resultCount: optimizedTickets.length
       });
-      return optimizedTickets;
+      return { ...result, items: optimizedTickets };
     } catch (error) {
       this.logger.error('Failed to search tickets:', error);
       throw error;
     }
   }
 
+  async searchTickets(options: AutotaskQueryOptionsExtended = {}, tenantContext?: TenantContext): Promise<AutotaskTicket[]> {
+    const result = await this.searchTicketsWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   /**
    * Aggressively optimize ticket data by keeping only essential fields
    * Since the API returns all 76 fields (~2KB per ticket), we need to be very selective
@@ -1270,7 +1743,7 @@ export class AutotaskService {
     
     try {
       this.logger.info('Creating ticket:', ticket);
-      const result = await client.Tickets.create(ticket as any);
+      const result = await client.Tickets.create(ticket as any, this.getWriteOptions(tenantContext));
       const ticketId = result?.itemId;
       this.logger.info(`Ticket created with ID: ${ticketId}`);
       return ticketId;
@@ -1285,7 +1758,7 @@ export class AutotaskService {
     
     try {
       this.logger.info(`Updating ticket ${id}:`, updates);
-      await client.Tickets.update({ id, ...updates } as any);
+      await client.Tickets.update({ id, ...updates } as any, this.getWriteOptions(tenantContext));
       this.logger.info(`Ticket ${id} updated successfully`);
     } catch (error) {
       this.logger.error(`Failed to update ticket ${id}:`, error);
@@ -1299,7 +1772,7 @@ export class AutotaskService {
     
     try {
       this.logger.info('Creating time entry:', timeEntry);
-      const result = await client.TimeEntries.create(timeEntry as any);
+      const result = await client.TimeEntries.create(timeEntry as any, this.getWriteOptions(tenantContext));
       const timeEntryId = result?.itemId;
       this.logger.info(`Time entry created with ID: ${timeEntryId}`);
       return timeEntryId;
@@ -1316,7 +1789,6 @@ export class AutotaskService {
    */
   async getTimeEntriesWithPagination(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskTimeEntry>> {
     const startTime = Date.now();
-    const cacheKey = tenantContext ? this.getTenantCacheKey(tenantContext.credentials!) : 'single-tenant';
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -1336,59 +1808,14 @@ export class AutotaskService {
         filterArray = options.filter;
       }
 
-      const pageSize = options.pageSize || 100;
-      const currentPage = options.page || 1;
-      
       // Use @apigrate/autotask-restapi query method for TimeEntries
       const queryBody: any = { filter: filterArray };
       
-      this.logger.info('📡 Calling TimeEntries.query with @apigrate', { filterArray, pageSize, currentPage });
-      
-      const result = await client.TimeEntries.query(queryBody);
-      
-      this.markClientHealthy(cacheKey);
-      
-      let timeEntries: AutotaskTimeEntry[] = result.items || [];
-      const pageDetails = result.pageDetails as AutotaskPageDetails | undefined;
+      this.logger.info('📡 Calling TimeEntries.query with @apigrate', { filterArray, pageSize: options.pageSize, page: options.page });
       
-      // Handle page-based pagination (slice results based on page and pageSize)
-      const maxPageSize = Math.min(pageSize, PAGINATION_CONFIG.MAX_PAGE_SIZE);
-      const startIndex = (currentPage - 1) * maxPageSize;
-      const endIndex = startIndex + maxPageSize;
-      
-      this.logger.info('Pagination calculation for time entries:', {
-        totalFromAPI: timeEntries.length,
-        currentPage,
-        maxPageSize,
-        startIndex,
-        endIndex
-      });
-      
-      // Apply pagination offset and limit
-      if (startIndex > 0 || timeEntries.length > maxPageSize) {
-        timeEntries = timeEntries.slice(startIndex, endIndex);
-        this.logger.info(`Time entries sliced for page ${currentPage}: showing ${timeEntries.length} items`);
-      }
-      
-      // Get total count for accurate "Showing X of Y"
-      let totalCount: number | undefined;
-      try {
-        const countResult = await client.TimeEntries.count({ filter: filterArray }) as AutotaskCountResponse;
-        totalCount = countResult.queryCount;
-        this.logger.info(`📊 Total time entries matching filter: ${totalCount}`);
-      } catch (countError) {
-        this.logger.warn('Could not get total count for time entries:', countError);
-        // Fall back to pageDetails count if available
-        totalCount = pageDetails?.count;
-      }
-      
-      const pagination = createPaginationInfo(
-        timeEntries.length,
-        pageDetails,
-        totalCount,
-        currentPage,
-        pageSize
-      );
+      const result = await this.queryPage<AutotaskTimeEntry>(client, 'TimeEntries', queryBody, options, tenantContext, 'search_time_entries');
+      const timeEntries = result.items;
+      const pagination = result.pagination;
       
       const executionTime = Date.now() - startTime;
       this.logger.info(`✅ Retrieved ${timeEntries.length} time entries with pagination`, {
@@ -1405,11 +1832,10 @@ export class AutotaskService {
         this.logger.warn(`⚠️ INCOMPLETE DATA: Showing ${pagination.showing} of ${pagination.total} time entries (${pagination.percentComplete}%)`);
       }
       
-      return createPaginatedResponse(timeEntries, pagination, 'search_time_entries');
+      return result;
       
     } catch (error) {
       const executionTime = Date.now() - startTime;
-      this.markClientError(cacheKey);
       
       const err = error as Error & { status?: number; details?: unknown };
       this.logger.error('❌ Failed to get time entries:', {
@@ -1433,7 +1859,6 @@ export class AutotaskService {
   }
 
   async getTimeEntry(id: number, tenantContext?: TenantContext): Promise<AutotaskTimeEntry | null> {
-    const cacheKey = tenantContext ? this.getTenantCacheKey(tenantContext.credentials!) : 'single-tenant';
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -1442,7 +1867,6 @@ export class AutotaskService {
       // @apigrate/autotask-restapi uses TimeEntries.get(id)
       const result = await client.TimeEntries.get(id);
       
-      this.markClientHealthy(cacheKey);
       
       if (result?.item) {
         this.logger.info(`Retrieved time entry ${id}`);
@@ -1452,7 +1876,6 @@ export class AutotaskService {
       this.logger.info(`Time entry ${id} not found`);
       return null;
     } catch (error) {
-      this.markClientError(cacheKey);
       this.logger.error(`Failed to get time entry ${id}:`, error);
       throw error;
     }
@@ -1474,7 +1897,10 @@ export class AutotaskService {
     }
   }
 
-  async searchProjects(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskProject[]> {
+  /**
+   * Search projects - one page with pagination metadata
+   */
+  async searchProjectsWithPagination(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskProject>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -1514,55 +1940,35 @@ export class AutotaskService {
         }
       }
 
-      // Add other search parameters
-      if (options.sort) searchBody.sort = options.sort;
-      if (options.page) searchBody.page = options.page;
-      
-      // @apigrate query format - only filter and includeFields are valid
-      // pageSize/MaxRecords are NOT valid query body parameters
       this.logger.info('Calling Projects.query with @apigrate:', { filter: searchBody.filter });
 
-      // Make the API call using @apigrate library
-      const result = await client.Projects.query({ filter: searchBody.filter });
-      
-      // Extract projects from response
-      let projects: AutotaskProject[] = [];
-      if (result && result.items) {
-        projects = result.items;
-      } else if (Array.isArray(result)) {
-        projects = result;
-      } else {
-        this.logger.warn('Unexpected response format from Projects.query');
-        projects = [];
-      }
-      
-      // Apply page size limit in code (API returns up to 500)
-      const maxResults = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
-      if (projects.length > maxResults) {
-        this.logger.info(`Projects capped from ${projects.length} to ${maxResults}`);
-        projects = projects.slice(0, maxResults);
-      }
+      const result = await this.queryPage<AutotaskProject>(client, 'Projects', { filter: searchBody.filter }, options, tenantContext, 'search_projects');
       
       // Transform projects to optimize data size
-      const optimizedProjects = projects.map(project => this.optimizeProjectData(project));
+      const optimizedProjects = result.items.map(project => this.optimizeProjectData(project));
       
       this.logger.info(`✅ Projects search successful:`, {
         resultCount: optimizedProjects.length,
-        fieldsReturned: projects.length > 0 ? Object.keys(projects[0]).length : 0
+        fieldsReturned: result.items.length > 0 ? Object.keys(result.items[0]).length : 0
       });
       
-      return optimizedProjects;
+      return { ...result, items: optimizedProjects };
     } catch (error: any) {
       // Check if it's the same 405 error pattern
       if (error.response && error.response.status === 405) {
         this.logger.warn('Projects endpoint may not support listing via API (405 Method Not Allowed). This is common with some Autotask configurations.');
-        return [];
+        return this.emptyPage(options, 'search_projects');
       }
       this.logger.error('Failed to search projects:', error);
       throw error;
     }
   }
 
+  async searchProjects(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskProject[]> {
+    const result = await this.searchProjectsWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   /**
    * Optimize project data by truncating large text fields
    */
@@ -1588,7 +1994,7 @@ export class AutotaskService {
     
     try {
       this.logger.info('Creating project:', project);
-      const result = await client.Projects.create(project as any);
+      const result = await client.Projects.create(project as any, this.getWriteOptions(tenantContext));
       const projectId = result?.itemId;
       this.logger.info(`Project created with ID: ${projectId}`);
       return projectId;
@@ -1603,7 +2009,7 @@ export class AutotaskService {
     
     try {
       this.logger.info(`Updating project ${id}:`, updates);
-      await client.Projects.update({ id, ...updates } as any);
+      await client.Projects.update({ id, ...updates } as any, this.getWriteOptions(tenantContext));
       this.logger.info(`Project ${id} updated successfully`);
     } catch (error) {
       this.logger.error(`Failed to update project ${id}:`, error);
@@ -1626,7 +2032,10 @@ export class AutotaskService {
     }
   }
 
-  async searchResources(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskResource[]> {
+  /**
+   * Search resources - one page with pagination metadata
+   */
+  async searchResourcesWithPagination(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskResource>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -1663,54 +2072,33 @@ export class AutotaskService {
         }
       }
 
-      // Add other search parameters
-      if (options.sort) searchBody.sort = options.sort;
-      if (options.page) searchBody.page = options.page;
-      
-      // @apigrate query format - only filter and includeFields are valid
       this.logger.info('Calling Resources.query with @apigrate:', { filter: searchBody.filter });
 
-      // Use @apigrate/autotask-restapi query method
-      const result = await client.Resources.query({ filter: searchBody.filter });
-      
-      this.logger.info('✅ Resources.query successful:', {
-        hasItems: !!(result && result.items),
-        itemsLength: result?.items?.length
-      });
-
-      // Extract resources from response
-      let resources: AutotaskResource[] = [];
-      if (result && result.items) {
-        resources = result.items;
-      } else if (Array.isArray(result)) {
-        resources = result;
-      } else {
-        this.logger.warn('❌ Unexpected response format from Resources.query');
-        resources = [];
-      }
+      const result = await this.queryPage<AutotaskResource>(client, 'Resources', { filter: searchBody.filter }, options, tenantContext, 'search_resources');
       
-      // Apply page size limit in code (API returns up to 500)
-      const maxResults = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
-      if (resources.length > maxResults) {
-        this.logger.info(`Resources capped from ${resources.length} to ${maxResults}`);
-        resources = resources.slice(0, maxResults);
-      }
-      
-      this.logger.info(`Retrieved ${resources.length} resources`);
-      return resources;
+      this.logger.info(`Retrieved ${result.items.length} resources`);
+      return result;
     } catch (error: any) {
       // Check if it's the same 405 error pattern
       if (error.response && error.response.status === 405) {
         this.logger.warn('Resources endpoint may not support listing via API (405 Method Not Allowed). This is common with some Autotask configurations.');
-        return [];
+        return this.emptyPage(options, 'search_resources');
       }
       this.logger.error('Failed to search resources:', error);
       throw error;
     }
   }
 
+  async searchResources(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskResource[]> {
+    const result = await this.searchResourcesWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   // Opportunity operations
-  async searchOpportunities(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskOpportunity[]> {
+  /**
+   * Search opportunities - one page with pagination metadata
+   */
+  async searchOpportunitiesWithPagination(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskOpportunity>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -1745,14 +2133,13 @@ export class AutotaskService {
       this.logger.info('Calling Opportunities.query with @apigrate:', { filterCount: queryBody.filter.length });
       
       try {
-        const result = await client.Opportunities.query(queryBody);
+        const result = await this.queryPage<AutotaskOpportunity>(client, 'Opportunities', queryBody, options, tenantContext, 'search_opportunities');
         
         this.logger.info('✅ Opportunities.query successful:', {
-          hasItems: !!(result && result.items),
-          itemsLength: result?.items?.length
+          itemsLength: result.items.length
         });
         
-        return (result?.items || []) as AutotaskOpportunity[];
+        return result;
       } catch (apiError: any) {
         this.logger.error('❌ Opportunities.query failed:', {
           error: apiError?.message,
@@ -1766,6 +2153,11 @@ export class AutotaskService {
     }
   }
 
+  async searchOpportunities(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskOpportunity[]> {
+    const result = await this.searchOpportunitiesWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   // async getOpportunity(id: number): Promise<AutotaskOpportunity | null> {
   //   const client = await this.ensureClient();
   //   
@@ -1835,7 +2227,10 @@ export class AutotaskService {
     }
   }
 
-  async searchConfigurationItems(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskConfigurationItem[]> {
+  /**
+   * Search configuration items - one page with pagination metadata
+   */
+  async searchConfigurationItemsWithPagination(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskConfigurationItem>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -1853,28 +2248,24 @@ export class AutotaskService {
         filterArray = options.filter;
       }
       
-      const result = await client.ConfigurationItems.query({ filter: filterArray });
-      let items = (result?.items || []) as AutotaskConfigurationItem[];
-      
-      // Apply page size limit
-      const maxResults = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
-      if (items.length > maxResults) {
-        items = items.slice(0, maxResults);
-      }
-      
-      return items;
+      return await this.queryPage<AutotaskConfigurationItem>(client, 'ConfigurationItems', { filter: filterArray }, options, tenantContext, 'search_configuration_items');
     } catch (error) {
       this.logger.error('Failed to search configuration items:', error);
       throw error;
     }
   }
 
+  async searchConfigurationItems(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskConfigurationItem[]> {
+    const result = await this.searchConfigurationItemsWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   async createConfigurationItem(configItem: Partial<AutotaskConfigurationItem>, tenantContext?: TenantContext): Promise<number> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
       this.logger.info('Creating configuration item:', configItem);
-      const result = await client.ConfigurationItems.create(configItem as any);
+      const result = await client.ConfigurationItems.create(configItem as any, this.getWriteOptions(tenantContext));
       const configItemId = result?.itemId;
       this.logger.info(`Configuration item created with ID: ${configItemId}`);
       return configItemId;
@@ -1889,7 +2280,7 @@ export class AutotaskService {
     
     try {
       this.logger.info(`Updating configuration item ${id}:`, updates);
-      await client.configurationItems.update(id, updates as any);
+      await client.ConfigurationItems.update({ id, ...updates } as any, this.getWriteOptions(tenantContext));
       this.logger.info(`Configuration item ${id} updated successfully`);
     } catch (error) {
       this.logger.error(`Failed to update configuration item ${id}:`, error);
@@ -1938,7 +2329,10 @@ export class AutotaskService {
     }
   }
 
-  async searchContracts(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskContract[]> {
+  /**
+   * Search contracts - one page with pagination metadata
+   */
+  async searchContractsWithPagination(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskContract>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -1973,33 +2367,10 @@ export class AutotaskService {
       this.logger.info('Calling Contracts.query with @apigrate:', { filterCount: queryBody.filter.length });
       
       try {
-        const result = await client.Contracts.query(queryBody);
-        
-        this.logger.info('✅ Contracts.query successful:', {
-          hasItems: !!(result && result.items),
-          itemsLength: result?.items?.length
-        });
-
-        // Extract contracts from response
-        let contracts: AutotaskContract[] = [];
-        if (result && result.items) {
-          contracts = result.items;
-        } else if (Array.isArray(result)) {
-          contracts = result;
-        } else {
-          this.logger.warn('❌ Unexpected response format from Contracts.query');
-          contracts = [];
-        }
-        
-        // Apply page size limit in code (API returns up to 500)
-        const maxResults = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
-        if (contracts.length > maxResults) {
-          this.logger.info(`Contracts capped from ${contracts.length} to ${maxResults}`);
-          contracts = contracts.slice(0, maxResults);
-        }
+        const result = await this.queryPage<AutotaskContract>(client, 'Contracts', queryBody, options, tenantContext, 'search_contracts');
         
-        this.logger.info(`✅ Contracts search completed: ${contracts.length} contracts`);
-        return contracts;
+        this.logger.info(`✅ Contracts search completed: ${result.items.length} contracts`);
+        return result;
       } catch (error) {
         this.logger.error('Failed to search contracts:', error);
         throw error;
@@ -2010,6 +2381,11 @@ export class AutotaskService {
     }
   }
 
+  async searchContracts(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskContract[]> {
+    const result = await this.searchContractsWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   // Invoice operations (read-only)
   async getInvoice(id: number, tenantContext?: TenantContext): Promise<AutotaskInvoice | null> {
     const client = await this.getClientForTenant(tenantContext);
@@ -2024,7 +2400,10 @@ export class AutotaskService {
     }
   }
 
-  async searchInvoices(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskInvoice[]> {
+  /**
+   * Search invoices - one page with pagination metadata
+   */
+  async searchInvoicesWithPagination(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskInvoice>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -2078,43 +2457,15 @@ export class AutotaskService {
         }
       }
 
-      // Add other search parameters
-      if (options.sort) searchBody.sort = options.sort;
-      if (options.page) searchBody.page = options.page;
-       
-      // @apigrate query format - only filter is valid
       const queryBody = { filter: searchBody.filter };
       
       this.logger.info('Calling Invoices.query with @apigrate:', { filterCount: queryBody.filter.length });
       
       try {
-        const result = await client.Invoices.query(queryBody);
+        const result = await this.queryPage<AutotaskInvoice>(client, 'Invoices', queryBody, options, tenantContext, 'search_invoices');
         
-        this.logger.info('✅ Invoices.query successful:', {
-          hasItems: !!(result && result.items),
-          itemsLength: result?.items?.length
-        });
-
-        // Extract invoices from response
-        let invoices: AutotaskInvoice[] = [];
-        if (result && result.items) {
-          invoices = result.items;
-        } else if (Array.isArray(result)) {
-          invoices = result;
-        } else {
-          this.logger.warn('❌ Unexpected response format from Invoices.query');
-          invoices = [];
-        }
-        
-        // Apply page size limit in code (API returns up to 500)
-        const maxResults = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
-        if (invoices.length > maxResults) {
-          this.logger.info(`Invoices capped from ${invoices.length} to ${maxResults}`);
-          invoices = invoices.slice(0, maxResults);
-        }
-        
-        this.logger.info(`✅ Retrieved ${invoices.length} invoices`);
-        return invoices;
+        this.logger.info(`✅ Retrieved ${result.items.length} invoices`);
+        return result;
         
       } catch (directApiError: any) {
         this.logger.error('❌ Direct POST /Invoices/query failed:', {
@@ -2132,12 +2483,12 @@ export class AutotaskService {
         // Handle specific error cases
         if (directApiError.response && directApiError.response.status === 405) {
           this.logger.warn('Invoices endpoint may not support listing via API (405 Method Not Allowed). This is common with some Autotask configurations.');
-          return [];
+          return this.emptyPage(options, 'search_invoices');
         }
         
         if (directApiError.code === 'ECONNABORTED') {
           this.logger.warn('Invoices request timed out after 15 seconds. The API may be overloaded or the query too complex.');
-          return [];
+          return this.emptyPage(options, 'search_invoices');
         }
         
         throw directApiError;
@@ -2148,6 +2499,11 @@ export class AutotaskService {
     }
   }
 
+  async searchInvoices(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskInvoice[]> {
+    const result = await this.searchInvoicesWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   // Task operations
   async getTask(id: number, tenantContext?: TenantContext): Promise<AutotaskTask | null> {
     const client = await this.getClientForTenant(tenantContext);
@@ -2187,7 +2543,10 @@ export class AutotaskService {
     }
   }
 
-  async searchTasks(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskTask[]> {
+  /**
+   * Search tasks - one page with pagination metadata
+   */
+  async searchTasksWithPagination(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskTask>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -2223,51 +2582,32 @@ export class AutotaskService {
         }
       }
 
-      // Add other search parameters
-      if (options.sort) searchBody.sort = options.sort;
-      if (options.page) searchBody.page = options.page;
-      
-      // @apigrate query format - only filter is valid
       const queryBody = { filter: searchBody.filter };
       
       this.logger.info('Calling Tasks.query with @apigrate:', { filterCount: queryBody.filter.length });
 
-      // Use @apigrate/autotask-restapi query method
-      const result = await client.Tasks.query(queryBody);
-      
-      // Extract tasks from response
-      let tasks: AutotaskTask[] = [];
-      if (result && result.items) {
-        tasks = result.items;
-      } else if (Array.isArray(result)) {
-        tasks = result;
-      } else {
-        this.logger.warn('Unexpected response format from Tasks.query');
-        tasks = [];
-      }
-      
-      // Apply page size limit in code (API returns up to 500)
-      const maxResults = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
-      if (tasks.length > maxResults) {
-        this.logger.info(`Tasks capped from ${tasks.length} to ${maxResults}`);
-        tasks = tasks.slice(0, maxResults);
-      }
+      const result = await this.queryPage<AutotaskTask>(client, 'Tasks', queryBody, options, tenantContext, 'search_tasks');
       
       // Transform tasks to optimize data size
-      const optimizedTasks = tasks.map(task => this.optimizeTaskData(task));
+      const optimizedTasks = result.items.map(task => this.optimizeTaskData(task));
       
       this.logger.info(`✅ Tasks search successful:`, {
         resultCount: optimizedTasks.length,
-        fieldsReturned: tasks.length > 0 ? Object.keys(tasks[0]).length : 0
+        fieldsReturned: result.items.length > 0 ? Object.keys(result.items[0]).length : 0
       });
       
-      return optimizedTasks;
+      return { ...result, items: optimizedTasks };
     } catch (error) {
       this.logger.error('Failed to search tasks:', error);
       throw error;
     }
   }
 
+  async searchTasks(options: AutotaskQueryOptions = {}, tenantContext?: TenantContext): Promise<AutotaskTask[]> {
+    const result = await this.searchTasksWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   /**
    * Optimize task data by truncating large text fields
    */
@@ -2294,7 +2634,7 @@ export class AutotaskService {
     try {
       this.logger.info('Creating task:', task);
       // Tasks are child entities of Projects
-      const result = await client.Tasks.create(task.projectID, task as any);
+      const result = await client.Tasks.create(task.projectID, task as any, this.getWriteOptions(tenantContext));
       const taskID = result?.itemId;
       this.logger.info(`Task created with ID: ${taskID}`);
       return taskID;
@@ -2311,7 +2651,7 @@ export class AutotaskService {
       this.logger.info(`Updating task ${id}:`, updates);
       // Tasks are child entities - need parent project ID
       const projectID = (updates as any).projectID;
-      await client.Tasks.update(projectID, { id, ...updates } as any);
+      await client.Tasks.update(projectID, { id, ...updates } as any, this.getWriteOptions(tenantContext));
       this.logger.info(`Task ${id} updated successfully`);
     } catch (error) {
       this.logger.error(`Failed to update task ${id}:`, error);
@@ -2392,48 +2732,33 @@ export class AutotaskService {
   }
 
   /**
-   * Test zone information discovery for debugging API URL issues
+   * Test zone information discovery for debugging API URL issues.
+   * Always asks zoneInformation (refreshing the cache) and reports which URL clients will actually use.
    */
-  async testZoneInformation(tenantContext?: TenantContext): Promise<any> {
+  async testZoneInformation(tenantContext?: TenantContext): Promise<ZoneInfo & { configuredApiUrl?: string }> {
     try {
-      const { username, secret, integrationCode } = tenantContext?.credentials || this.config.autotask || {};
+      await this.resolveRegisteredCredentials(tenantContext);
+      const credentials = tenantContext?.credentials || this.config.autotask || {};
+      const { username } = credentials;
       
-      if (!username || !secret || !integrationCode) {
+      if (!username) {
         throw new Error('Missing required credentials for zone information test');
       }
 
       this.logger.info('Testing zone information discovery...', {
-        username: username ? `${username.substring(0, 8)}***` : undefined,
-        integrationCode
+        username: `${username.substring(0, 8)}***`
       });
 
-      // Try to get zone information directly from Autotask
-      const zoneUrl = 'https://webservices.autotask.net/ATServicesRest/v1.0/zoneInformation';
-      
-      // Make direct API call to zone information endpoint
-      const response = await fetch(zoneUrl, {
-        method: 'GET',
-        headers: {
-          'ApiIntegrationcode': integrationCode,
-          'UserName': username,
-          'Secret': secret,
-          'Content-Type': 'application/json'
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error(`Zone information request failed: ${response.status} ${response.statusText}`);
-      }
-
-      const zoneInfo = await response.json() as any;
+      const zoneInfo = await this.zoneResolver.discover(username);
+      const configuredApiUrl = credentials.apiUrl || this.config.multiTenant?.defaultApiUrl;
       
       this.logger.info('Zone information retrieved:', {
         url: zoneInfo.url,
         webUrl: zoneInfo.webUrl,
-        zoneInfo
+        configuredApiUrl
       });
 
-      return zoneInfo;
+      return { ...zoneInfo, ...(configuredApiUrl && { configuredApiUrl }) };
     } catch (error) {
       this.logger.error('Zone information test failed:', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -2443,6 +2768,20 @@ export class AutotaskService {
     }
   }
 
+  /**
+   * Get the tenant registry (null unless multi-tenant mode with TENANT_REGISTRY_KEY)
+   */
+  public getTenantRegistry(): TenantRegistry | null {
+    return this.tenantRegistry;
+  }
+
+  /**
+   * Get the tool policy engine (null unless TOOL_POLICY_PATH is set)
+   */
+  public getPolicyEngine(): PolicyEngine | null {
+    return this.policyEngine;
+  }
+
   /**
    * Check if the service is running in multi-tenant mode
    */
@@ -2516,7 +2855,7 @@ export class AutotaskService {
         ticketId: ticketId
       };
       // TicketNotes is a child entity of Tickets
-      const result = await client.TicketNotes.create(ticketId, noteData as any);
+      const result = await client.TicketNotes.create(ticketId, noteData as any, this.getWriteOptions(tenantContext));
       const noteId = result?.itemId;
       this.logger.info(`Ticket note created with ID: ${noteId}`);
       return noteId;
@@ -2587,7 +2926,7 @@ export class AutotaskService {
         projectId: projectId
       };
       // ProjectNotes is a child entity of Projects
-      const result = await client.ProjectNotes.create(projectId, noteData as any);
+      const result = await client.ProjectNotes.create(projectId, noteData as any, this.getWriteOptions(tenantContext));
       const noteId = result?.itemId;
       this.logger.info(`Project note created with ID: ${noteId}`);
       return noteId;
@@ -2658,7 +2997,7 @@ export class AutotaskService {
         companyID: companyId
       };
       // CompanyNotes is a child entity of Companies
-      const result = await client.CompanyNotes.create(companyId, noteData as any);
+      const result = await client.CompanyNotes.create(companyId, noteData as any, this.getWriteOptions(tenantContext));
       const noteId = result?.itemId;
       this.logger.info(`Company note created with ID: ${noteId}`);
       return noteId;
@@ -2752,7 +3091,10 @@ export class AutotaskService {
     }
   }
 
-  async searchExpenseReports(options: AutotaskQueryOptionsExtended = {}, tenantContext?: TenantContext): Promise<AutotaskExpenseReport[]> {
+  /**
+   * Search expense reports - one page with pagination metadata
+   */
+  async searchExpenseReportsWithPagination(options: AutotaskQueryOptionsExtended = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskExpenseReport>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -2779,23 +3121,27 @@ export class AutotaskService {
       this.logger.info('Making direct API call to ExpenseReports/query with body:', searchBody);
 
       // Use the correct ExpenseReports/query endpoint
-      const result = await client.ExpenseReports.query(searchBody);
-      const reports = result?.items || [];
+      const result = await this.queryPage<AutotaskExpenseReport>(client, 'ExpenseReports', searchBody, options, tenantContext, 'search_expense_reports');
       
-      this.logger.info(`Retrieved ${reports.length} expense reports`);
-      return reports as AutotaskExpenseReport[];
+      this.logger.info(`Retrieved ${result.items.length} expense reports`);
+      return result;
     } catch (error) {
       this.logger.error('Failed to search expense reports:', error);
       throw error;
     }
   }
 
+  async searchExpenseReports(options: AutotaskQueryOptionsExtended = {}, tenantContext?: TenantContext): Promise<AutotaskExpenseReport[]> {
+    const result = await this.searchExpenseReportsWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   async createExpenseReport(report: Partial<AutotaskExpenseReport>, tenantContext?: TenantContext): Promise<number> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
       this.logger.info('Creating expense report:', report);
-      const result = await client.ExpenseReports.create(report as any);
+      const result = await client.ExpenseReports.create(report as any, this.getWriteOptions(tenantContext));
       const reportId = result?.itemId;
       this.logger.info(`Expense report created with ID: ${reportId}`);
       return reportId;
@@ -2810,7 +3156,7 @@ export class AutotaskService {
     
     try {
       this.logger.info(`Updating expense report ${id}:`, updates);
-      await client.ExpenseReports.update({ id, ...updates } as any);
+      await client.ExpenseReports.update({ id, ...updates } as any, this.getWriteOptions(tenantContext));
       this.logger.info(`Expense report ${id} updated successfully`);
     } catch (error) {
       this.logger.error(`Failed to update expense report ${id}:`, error);
@@ -2891,7 +3237,7 @@ export class AutotaskService {
       
       // Use @apigrate parent-child creation pattern: create(parentId, data)
       this.logger.info('Creating expense item with ExpenseItems.create:', { expenseReportId, itemData });
-      const result = await client.ExpenseItems.create(expenseReportId, itemData);
+      const result = await client.ExpenseItems.create(expenseReportId, itemData, this.getWriteOptions(tenantContext));
       
       let itemId: number;
       
@@ -2944,7 +3290,10 @@ export class AutotaskService {
     }
   }
 
-  async searchQuotes(options: AutotaskQueryOptionsExtended = {}, tenantContext?: TenantContext): Promise<AutotaskQuote[]> {
+  /**
+   * Search quotes - one page with pagination metadata
+   */
+  async searchQuotesWithPagination(options: AutotaskQueryOptionsExtended = {}, tenantContext?: TenantContext): Promise<PaginatedResponse<AutotaskQuote>> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
@@ -2972,30 +3321,27 @@ export class AutotaskService {
 
       this.logger.info('Calling Quotes.query with @apigrate:', { filterCount: queryBody.filter.length });
       
-      const result = await client.Quotes.query(queryBody);
-      let quotes = (result?.items || []) as AutotaskQuote[];
+      const result = await this.queryPage<AutotaskQuote>(client, 'Quotes', queryBody, options, tenantContext, 'search_quotes');
       
-      // Apply page size limit in code (API returns up to 500)
-      const maxResults = Math.min(options.pageSize || PAGINATION_CONFIG.DEFAULT_PAGE_SIZE, PAGINATION_CONFIG.MAX_PAGE_SIZE);
-      if (quotes.length > maxResults) {
-        this.logger.info(`Quotes capped from ${quotes.length} to ${maxResults}`);
-        quotes = quotes.slice(0, maxResults);
-      }
-      
-      this.logger.info(`Retrieved ${quotes.length} quotes`);
-      return quotes;
+      this.logger.info(`Retrieved ${result.items.length} quotes`);
+      return result;
     } catch (error) {
       this.logger.error('Failed to search quotes:', error);
       throw error;
     }
   }
 
+  async searchQuotes(options: AutotaskQueryOptionsExtended = {}, tenantContext?: TenantContext): Promise<AutotaskQuote[]> {
+    const result = await this.searchQuotesWithPagination(options, tenantContext);
+    return result.items;
+  }
+
   async createQuote(quote: Partial<AutotaskQuote>, tenantContext?: TenantContext): Promise<number> {
     const client = await this.getClientForTenant(tenantContext);
     
     try {
       this.logger.info('Creating quote:', quote);
-      const result = await client.Quotes.create(quote as any);
+      const result = await client.Quotes.create(quote as any, this.getWriteOptions(tenantContext));
       const quoteId = result?.itemId;
       this.logger.info(`Quote created with ID: ${quoteId}`);
       return quoteId;
@@ -3047,19 +3393,23 @@ export class AutotaskService {
     this.logger.info('🔍 Querying contacts with search parameter:', options.search);
     
     // Use existing searchContacts with contains filter
+    // Match on any of the name and email fields
     return this.searchContacts({
       filter: [{
-        field: 'firstName',
-        op: 'contains',
-        value: options.search
-      }, {
-        field: 'lastName',
-        op: 'contains',
-        value: options.search
-      }, {
-        field: 'emailAddress',
-        op: 'contains',
-        value: options.search
+        op: 'or',
+        items: [{
+          field: 'firstName',
+          op: 'contains',
+          value: options.search
+        }, {
+          field: 'lastName',
+          op: 'contains',
+          value: options.search
+        }, {
+          field: 'emailAddress',
+          op: 'contains',
+          value: options.search
+        }]
       }],
       pageSize: 50
     }, tenantContext);
@@ -0,0 +1,82 @@
+// Change Feed Service
+// Incremental sync support: which field marks a record as modified (the watermark) and created,
+// per entity, and how records changed since a watermark are tagged. Queries run in AutotaskService.
+
+export type ChangeType = 'created' | 'updated';
+
+export interface ChangeFeedEntity {
+  entity: string;         // Autotask entity name
+  modifiedField: string;  // Watermark: moves forward whenever the record changes
+  createdField: string;
+}
+
+// Entities with a change feed, keyed by the lowercase name tools and routes accept
+export const CHANGE_FEED_ENTITIES: Record<string, ChangeFeedEntity> = {
+  tickets: { entity: 'Tickets', modifiedField: 'lastActivityDate', createdField: 'createDate' },
+  companies: { entity: 'Companies', modifiedField: 'lastTrackedModifiedDateTime', createdField: 'createDate' },
+  contacts: { entity: 'Contacts', modifiedField: 'lastModifiedDate', createdField: 'createDate' },
+  projects: { entity: 'Projects', modifiedField: 'lastActivityDateTime', createdField: 'createDateTime' },
+  tasks: { entity: 'Tasks', modifiedField: 'lastActivityDateTime', createdField: 'createDateTime' },
+  timeentries: { entity: 'TimeEntries', modifiedField: 'lastModifiedDateTime', createdField: 'createDateTime' },
+  opportunities: { entity: 'Opportunities', modifiedField: 'lastActivity', createdField: 'createDate' },
+  configurationitems: { entity: 'ConfigurationItems', modifiedField: 'lastModifiedTime', createdField: 'createDate' }
+};
+
+export interface ChangeFeedPage<T> {
+  entity: string;
+  since: string;
+  items: (T & { _changeType: ChangeType })[];
+  // Newest watermark seen so far; store it once hasMore is false and pass it as `since` next time
+  // (records modified at exactly this time are returned again then)
+  nextWatermark: string;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+/**
+ * Change feed settings for an entity name such as "tickets", "Tickets" or "time_entries"
+ */
+export function getChangeFeedEntity(name: unknown): ChangeFeedEntity {
+  const key = typeof name === 'string' ? name.toLowerCase().replace(/[^a-z]/g, '') : '';
+  const feed = CHANGE_FEED_ENTITIES[key];
+  if (!feed) {
+    throw new Error(`Changes are not tracked for ${String(name)} (use ${Object.keys(CHANGE_FEED_ENTITIES).join(', ')})`);
+  }
+  return feed;
+}
+
+/**
+ * Watermark in the form Autotask filters on (ISO 8601, UTC)
+ */
+export function normalizeWatermark(since: unknown): string {
+  const time = typeof since === 'string' || typeof since === 'number' ? new Date(since).getTime() : NaN;
+  if (Number.isNaN(time)) {
+    throw new Error('since must be an ISO 8601 date-time, e.g. 2025-01-31T00:00:00Z');
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Tag records as created or updated since the watermark, and find the newest modification among them
+ */
+export function tagChanges<T>(
+  feed: ChangeFeedEntity,
+  records: T[],
+  since: string,
+  watermark: string
+): { items: (T & { _changeType: ChangeType })[]; watermark: string } {
+  const sinceTime = Date.parse(since);
+  let newest = Date.parse(watermark);
+
+  const items = records.map(record => {
+    const modified = Date.parse((record as any)[feed.modifiedField]);
+    if (modified > newest) {
+      newest = modified;
+    }
+    const created = Date.parse((record as any)[feed.createdField]);
+    const changeType: ChangeType = created > sinceTime ? 'created' : 'updated';
+    return { ...record, _changeType: changeType };
+  });
+
+  return { items, watermark: new Date(newest).toISOString() };
+}
@@ -0,0 +1,269 @@
+// Circuit Breaker Service
+// Three-state (closed / open / half-open) breaker per tenant. Failures are classified so only
+// errors that say "Autotask is unreachable or refusing us" trip it - a 404 or a validation
+// error proves the API is up and counts as a healthy response.
+
+import { Logger } from '../utils/logger.js';
+import { RateLimitError } from './rate-limiter.service.js';
+import { getErrorStatus, getNetworkErrorCode } from './retry-policy.service.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type ErrorCategory = 'auth' | 'throttling' | 'server' | 'network' | 'client' | 'local' | 'unknown';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;  // Consecutive tripping failures before opening
+  cooldownMs: number;        // Time spent open before probing
+  halfOpenMaxProbes: number; // Concurrent probe requests allowed while half-open
+  successThreshold: number;  // Successful probes needed to close again
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+  halfOpenMaxProbes: 1,
+  successThreshold: 2
+};
+
+// Categories that count against the breaker
+const TRIPPING_CATEGORIES: ReadonlySet<ErrorCategory> = new Set(['auth', 'throttling', 'server', 'network']);
+
+export interface CircuitBreakerSnapshot {
+  tenantId: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failuresByCategory: Partial<Record<ErrorCategory, number>>;
+  lastFailureCategory?: ErrorCategory;
+  lastFailureMessage?: string;
+  lastFailureAt?: string;
+  openedAt?: string;
+  retryAfterMs?: number;
+  activeProbes: number;
+}
+
+/**
+ * Thrown instead of calling Autotask while a tenant's circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly tenantId: string;
+  readonly retryAfterMs: number;
+
+  constructor(tenantId: string, retryAfterMs: number, category?: ErrorCategory) {
+    super(
+      `Circuit breaker OPEN for tenant ${tenantId}${category ? ` after repeated ${category} errors` : ''}. ` +
+      `Retry after ${Math.ceil(retryAfterMs / 1000)}s.`
+    );
+    this.name = 'CircuitOpenError';
+    this.tenantId = tenantId;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Classify an Autotask call failure
+ */
+export function classifyError(error: unknown): ErrorCategory {
+  if (error instanceof RateLimitError || error instanceof CircuitOpenError) {
+    return 'local'; // Rejected before reaching Autotask
+  }
+
+  const status = getErrorStatus(error);
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'throttling';
+  if (status === 500) {
+    // Autotask reports business rule violations as 500 with an errors array
+    const details = (error as { details?: { errors?: unknown } }).details;
+    return details && typeof details === 'object' && Array.isArray(details.errors) && details.errors.length > 0
+      ? 'client'
+      : 'server';
+  }
+  if (status !== undefined && status >= 500) return 'server';
+  if (status !== undefined && status >= 400) return 'client';
+
+  // No HTTP status - either the request never got a response, or a bug on our side
+  if (getNetworkErrorCode(error) !== undefined || (error instanceof TypeError && error.message === 'fetch failed')) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+interface CircuitEntry {
+  tenantId: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failuresByCategory: Partial<Record<ErrorCategory, number>>;
+  lastFailureCategory?: ErrorCategory;
+  lastFailureMessage?: string;
+  lastFailureAt?: number;
+  openedAt?: number;
+  activeProbes: number;
+  probeSuccesses: number;
+}
+
+export class CircuitBreaker {
+  private logger: Logger;
+  private config: CircuitBreakerConfig;
+  private circuits: Map<string, CircuitEntry> = new Map();
+
+  constructor(config: Partial<CircuitBreakerConfig>, logger: Logger) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+    this.logger = logger;
+  }
+
+  /**
+   * Admit a call for a tenant. Throws CircuitOpenError while open, or while half-open with all
+   * probe slots taken. Every admitted call must be followed by recordSuccess or recordFailure.
+   */
+  beforeCall(tenantKey: string, tenantId: string = tenantKey): void {
+    const entry = this.getEntry(tenantKey, tenantId);
+
+    if (entry.state === 'open') {
+      const remainingMs = this.remainingCooldownMs(entry);
+      if (remainingMs > 0) {
+        throw new CircuitOpenError(entry.tenantId, remainingMs, entry.lastFailureCategory);
+      }
+      this.transition(entry, 'half-open');
+    }
+
+    if (entry.state === 'half-open') {
+      if (entry.activeProbes >= this.config.halfOpenMaxProbes) {
+        throw new CircuitOpenError(entry.tenantId, 1000, entry.lastFailureCategory);
+      }
+      entry.activeProbes++;
+    }
+  }
+
+  /**
+   * Record a response from Autotask. Non-tripping errors (404, validation) count as success.
+   */
+  recordSuccess(tenantKey: string): void {
+    const entry = this.circuits.get(tenantKey);
+    if (!entry) return;
+
+    entry.consecutiveFailures = 0;
+    if (entry.state === 'half-open') {
+      entry.activeProbes = Math.max(0, entry.activeProbes - 1);
+      entry.probeSuccesses++;
+      if (entry.probeSuccesses >= this.config.successThreshold) {
+        this.transition(entry, 'closed');
+      }
+    }
+  }
+
+  /**
+   * Record a failed call. Returns the failure's category.
+   */
+  recordFailure(tenantKey: string, error: unknown): ErrorCategory {
+    const category = classifyError(error);
+    const entry = this.circuits.get(tenantKey);
+    if (!entry) return category;
+
+    if (category === 'local' || category === 'unknown') {
+      // Never reached Autotask (or failed on our side) - just give the probe slot back
+      if (entry.state === 'half-open') {
+        entry.activeProbes = Math.max(0, entry.activeProbes - 1);
+      }
+      return category;
+    }
+    if (!TRIPPING_CATEGORIES.has(category)) {
+      this.recordSuccess(tenantKey);
+      return category;
+    }
+
+    entry.consecutiveFailures++;
+    entry.failuresByCategory[category] = (entry.failuresByCategory[category] ?? 0) + 1;
+    entry.lastFailureCategory = category;
+    entry.lastFailureMessage = error instanceof Error ? error.message : String(error);
+    entry.lastFailureAt = Date.now();
+
+    if (entry.state === 'half-open') {
+      entry.activeProbes = Math.max(0, entry.activeProbes - 1);
+      this.transition(entry, 'open'); // A failed probe re-opens immediately
+    } else if (entry.state === 'closed' && entry.consecutiveFailures >= this.config.failureThreshold) {
+      this.transition(entry, 'open');
+    }
+    return category;
+  }
+
+  /**
+   * Current breaker state for a tenant (closed if it has never failed)
+   */
+  getSnapshot(tenantKey: string, tenantId: string = tenantKey): CircuitBreakerSnapshot {
+    const entry = this.circuits.get(tenantKey);
+    return entry ? this.toSnapshot(entry) : {
+      tenantId,
+      state: 'closed',
+      consecutiveFailures: 0,
+      failuresByCategory: {},
+      activeProbes: 0
+    };
+  }
+
+  /**
+   * Breaker state for every tenant that has made calls
+   */
+  getAllSnapshots(): CircuitBreakerSnapshot[] {
+    return Array.from(this.circuits.values()).map(entry => this.toSnapshot(entry));
+  }
+
+  private getEntry(tenantKey: string, tenantId: string): CircuitEntry {
+    let entry = this.circuits.get(tenantKey);
+    if (!entry) {
+      entry = {
+        tenantId,
+        state: 'closed',
+        consecutiveFailures: 0,
+        failuresByCategory: {},
+        activeProbes: 0,
+        probeSuccesses: 0
+      };
+      this.circuits.set(tenantKey, entry);
+    }
+    return entry;
+  }
+
+  private transition(entry: CircuitEntry, state: CircuitState): void {
+    const previous = entry.state;
+    entry.state = state;
+    entry.activeProbes = 0;
+    entry.probeSuccesses = 0;
+
+    if (state === 'open') {
+      entry.openedAt = Date.now();
+      this.logger.error(`🔴 Circuit breaker OPEN for tenant ${entry.tenantId}`, {
+        tenantId: entry.tenantId,
+        from: previous,
+        consecutiveFailures: entry.consecutiveFailures,
+        category: entry.lastFailureCategory,
+        cooldownMs: this.config.cooldownMs
+      });
+    } else if (state === 'half-open') {
+      this.logger.info(`🟡 Circuit breaker HALF-OPEN for tenant ${entry.tenantId}: probing`, { tenantId: entry.tenantId });
+    } else {
+      delete entry.openedAt;
+      entry.consecutiveFailures = 0;
+      entry.failuresByCategory = {};
+      this.logger.info(`🟢 Circuit breaker CLOSED for tenant ${entry.tenantId}`, { tenantId: entry.tenantId });
+    }
+  }
+
+  private remainingCooldownMs(entry: CircuitEntry): number {
+    return entry.openedAt === undefined ? 0 : Math.max(0, entry.openedAt + this.config.cooldownMs - Date.now());
+  }
+
+  private toSnapshot(entry: CircuitEntry): CircuitBreakerSnapshot {
+    const retryAfterMs = entry.state === 'open' ? this.remainingCooldownMs(entry) : undefined;
+    return {
+      tenantId: entry.tenantId,
+      state: entry.state,
+      consecutiveFailures: entry.consecutiveFailures,
+      failuresByCategory: { ...entry.failuresByCategory },
+      ...(entry.lastFailureCategory && { lastFailureCategory: entry.lastFailureCategory }),
+      ...(entry.lastFailureMessage && { lastFailureMessage: entry.lastFailureMessage }),
+      ...(entry.lastFailureAt !== undefined && { lastFailureAt: new Date(entry.lastFailureAt).toISOString() }),
+      ...(entry.openedAt !== undefined && { openedAt: new Date(entry.openedAt).toISOString() }),
+      ...(retryAfterMs !== undefined && { retryAfterMs }),
+      activeProbes: entry.activeProbes
+    };
+  }
+}
@@ -0,0 +1,114 @@
+// Count Cache Service
+// Briefly remembers /query/count totals per tenant, entity and filter, so paging through a
+// result set or a dashboard refreshing the same totals doesn't re-count on every call.
+// Concurrent requests for the same count share one API call.
+
+import crypto from 'crypto';
+
+export interface CountCacheOptions {
+  ttlMs: number;      // 0 disables caching
+  maxEntries: number; // Oldest entries are dropped beyond this
+}
+
+export const DEFAULT_COUNT_CACHE_OPTIONS: CountCacheOptions = {
+  ttlMs: 30000,
+  maxEntries: 1000
+};
+
+export interface CountResult {
+  count: number;
+  cached: boolean;
+}
+
+interface CachedCount {
+  promise: Promise<number>;
+  expiresAt: number;
+}
+
+export class CountCache {
+  private config: CountCacheOptions;
+  private entries: Map<string, CachedCount> = new Map();
+
+  constructor(config: Partial<CountCacheOptions> = {}) {
+    this.config = { ...DEFAULT_COUNT_CACHE_OPTIONS, ...config };
+  }
+
+  /**
+   * Cached count for a query, or the result of `count` when there is none. Failed counts are not cached.
+   */
+  async get(tenantKey: string, entity: string, filter: unknown, count: () => Promise<number>): Promise<CountResult> {
+    if (this.config.ttlMs <= 0) {
+      return { count: await count(), cached: false };
+    }
+
+    const key = `${tenantKey}:${entity.toLowerCase()}:${getFilterHash(filter)}`;
+    const now = Date.now();
+    const existing = this.entries.get(key);
+    if (existing && existing.expiresAt > now) {
+      return { count: await existing.promise, cached: true };
+    }
+
+    const promise = count();
+    this.entries.set(key, { promise, expiresAt: now + this.config.ttlMs });
+    this.evict(now);
+
+    try {
+      return { count: await promise, cached: false };
+    } catch (error) {
+      if (this.entries.get(key)?.promise === promise) {
+        this.entries.delete(key);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Forget cached counts for one tenant, or for all tenants
+   */
+  clear(tenantKey?: string): void {
+    if (!tenantKey) {
+      this.entries.clear();
+      return;
+    }
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(`${tenantKey}:`)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private evict(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+    // Map iteration order is insertion order, so the first keys are the oldest
+    while (this.entries.size > this.config.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+}
+
+/**
+ * Hash of a query filter that ignores object key order
+ */
+export function getFilterHash(filter: unknown): string {
+  return crypto.createHash('sha256').update(stableStringify(filter)).digest('hex').substring(0, 16);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>).sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,96 @@
+// Enrichment Service
+// Adds resolved names to records' `_enhanced` block (companyID -> companyName...). IDs are gathered
+// across every record first and each type is resolved with one batched MappingService lookup, so a
+// 200-ticket search costs a few `id in [...]` queries instead of one call per ID.
+
+import { TenantContext } from '../types/mcp.js';
+
+// One ID field to resolve: record[field] is looked up with the `type` resolver and stored as _enhanced[target]
+export interface EnrichmentRule {
+  field: string;
+  type: string;
+  target: string;
+}
+
+// The part of MappingService the pipeline needs
+export interface NameSource {
+  getNames(type: string, ids: number[], tenantContext?: TenantContext): Promise<Map<number, string>>;
+}
+
+const companyName: EnrichmentRule = { field: 'companyID', type: 'companies', target: 'companyName' };
+const contactName: EnrichmentRule = { field: 'contactID', type: 'contacts', target: 'contactName' };
+const projectName: EnrichmentRule = { field: 'projectID', type: 'projects', target: 'projectName' };
+
+// Name fields added per entity
+export const ENRICHMENT_RULES: Record<string, EnrichmentRule[]> = {
+  Companies: [{ field: 'ownerResourceID', type: 'resources', target: 'ownerResourceName' }],
+  Contacts: [companyName],
+  Tickets: [
+    companyName,
+    { field: 'assignedResourceID', type: 'resources', target: 'assignedResourceName' },
+    contactName,
+    projectName,
+    { field: 'contractID', type: 'contracts', target: 'contractName' },
+    { field: 'configurationItemID', type: 'configurationItems', target: 'configurationItemName' }
+  ],
+  Projects: [
+    companyName,
+    { field: 'projectLeadResourceID', type: 'resources', target: 'projectLeadResourceName' },
+    { field: 'department', type: 'departments', target: 'departmentName' }
+  ],
+  Tasks: [projectName, { field: 'assignedResourceID', type: 'resources', target: 'assignedResourceName' }],
+  TimeEntries: [{ field: 'resourceID', type: 'resources', target: 'resourceName' }],
+  Opportunities: [companyName, { field: 'ownerResourceID', type: 'resources', target: 'ownerResourceName' }],
+  Contracts: [companyName, contactName],
+  ConfigurationItems: [companyName, contactName],
+  Invoices: [companyName],
+  Quotes: [companyName, contactName]
+};
+
+/**
+ * Add resolved names to records of one entity. Each type is looked up once, one type after
+ * another; IDs that can't be resolved are shown as "Unknown (id)". Records without any
+ * enrichable IDs are returned as they are.
+ */
+export async function enrichRecords<T>(
+  names: NameSource,
+  entity: string,
+  records: T[],
+  tenantContext?: TenantContext,
+  rules: EnrichmentRule[] = ENRICHMENT_RULES[entity] || []
+): Promise<T[]> {
+  if (rules.length === 0 || records.length === 0) {
+    return records;
+  }
+
+  const idsByType = new Map<string, Set<number>>();
+  for (const record of records) {
+    for (const rule of rules) {
+      const id = (record as any)[rule.field];
+      if (typeof id === 'number' && id > 0) {
+        if (!idsByType.has(rule.type)) {
+          idsByType.set(rule.type, new Set());
+        }
+        idsByType.get(rule.type)!.add(id);
+      }
+    }
+  }
+
+  const resolved = new Map<string, Map<number, string>>();
+  for (const [type, ids] of idsByType) {
+    resolved.set(type, await names.getNames(type, Array.from(ids), tenantContext));
+  }
+
+  return records.map(record => {
+    const enhanced: Record<string, string> = {};
+    for (const rule of rules) {
+      const id = (record as any)[rule.field];
+      if (typeof id === 'number' && id > 0) {
+        enhanced[rule.target] = resolved.get(rule.type)?.get(id) || `Unknown (${id})`;
+      }
+    }
+    return Object.keys(enhanced).length > 0
+      ? { ...record, _enhanced: { ...(record as any)._enhanced, ...enhanced } }
+      : record;
+  });
+}
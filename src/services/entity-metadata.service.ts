@@ -0,0 +1,171 @@
+// Entity Metadata Service
+// Field definitions, required/read-only flags and picklist values per tenant and entity, from
+// Autotask's entityInformation/fields and userDefinedFields endpoints. Picklists (ticket statuses,
+// queues, priorities...) are configured per Autotask database, so nothing is shared across tenants.
+
+import { Logger } from '../utils/logger.js';
+import { AutotaskEntityMetadata, AutotaskFieldInfo, AutotaskPicklistValue } from '../types/autotask.js';
+
+export interface EntityMetadataOptions {
+  ttlMs: number;
+}
+
+export const DEFAULT_ENTITY_METADATA_OPTIONS: EntityMetadataOptions = {
+  ttlMs: 60 * 60 * 1000
+};
+
+// Picklist fields whose labels are added to `_enhanced` output, per entity (field -> label key)
+export const PICKLIST_LABEL_FIELDS: Record<string, Record<string, string>> = {
+  Tickets: {
+    status: 'statusLabel',
+    priority: 'priorityLabel',
+    queueID: 'queueName',
+    ticketType: 'ticketTypeLabel',
+    issueType: 'issueTypeLabel',
+    source: 'sourceLabel'
+  },
+  Projects: { status: 'statusLabel' },
+  Tasks: { status: 'statusLabel' },
+  Contracts: { contractType: 'contractTypeLabel' },
+  Opportunities: { stage: 'stageLabel' }
+};
+
+// The two client calls metadata is built from
+export interface EntityMetadataSource {
+  fieldInfo(): Promise<any>;
+  udfInfo(): Promise<any>;
+}
+
+interface CachedMetadata {
+  promise: Promise<AutotaskEntityMetadata>;
+  expiresAt: number;
+}
+
+export class EntityMetadataService {
+  private logger: Logger;
+  private options: EntityMetadataOptions;
+  private entries: Map<string, CachedMetadata> = new Map();
+
+  constructor(options: Partial<EntityMetadataOptions>, logger: Logger) {
+    this.options = { ...DEFAULT_ENTITY_METADATA_OPTIONS, ...options };
+    this.logger = logger;
+  }
+
+  /**
+   * Metadata for one tenant's entity, fetched once per TTL. Concurrent callers share the fetch.
+   */
+  async getEntityMetadata(tenantKey: string, entity: string, source: EntityMetadataSource): Promise<AutotaskEntityMetadata> {
+    const key = `${tenantKey}:${entity}`;
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.promise;
+    }
+
+    const promise = this.fetch(entity, source);
+    this.entries.set(key, { promise, expiresAt: Date.now() + this.options.ttlMs });
+    try {
+      return await promise;
+    } catch (error) {
+      if (this.entries.get(key)?.promise === promise) {
+        this.entries.delete(key);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Forget cached metadata for one tenant, or for all tenants
+   */
+  clear(tenantKey?: string): void {
+    if (!tenantKey) {
+      this.entries.clear();
+      return;
+    }
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(`${tenantKey}:`)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  private async fetch(entity: string, source: EntityMetadataSource): Promise<AutotaskEntityMetadata> {
+    const fieldInfo = await source.fieldInfo();
+    // Not every entity supports user-defined fields
+    const udfInfo = await source.udfInfo().catch(error => {
+      this.logger.debug(`No user-defined fields for ${entity}:`, error instanceof Error ? error.message : error);
+      return { fields: [] };
+    });
+
+    const fields = [...normalizeFields(fieldInfo?.fields, false), ...normalizeFields(udfInfo?.fields, true)];
+    this.logger.info(`Loaded ${fields.length} field definitions for ${entity}`);
+    return { entity, fields, fetchedAt: new Date().toISOString() };
+  }
+}
+
+function normalizeFields(rawFields: unknown, isUdf: boolean): AutotaskFieldInfo[] {
+  if (!Array.isArray(rawFields)) {
+    return [];
+  }
+
+  return rawFields.map((raw: any) => {
+    const picklistValues = Array.isArray(raw.picklistValues) ? raw.picklistValues.map(normalizePicklistValue) : [];
+    return {
+      name: raw.name,
+      ...(raw.label && { label: raw.label }),
+      dataType: String(raw.dataType ?? 'string'),
+      isQueryable: isUdf || raw.isQueryable !== false,
+      isUdf,
+      isRequired: raw.isRequired === true,
+      isReadOnly: raw.isReadOnly === true,
+      isPickList: raw.isPickList === true || picklistValues.length > 0,
+      ...(raw.isReference === true && raw.referenceEntityType && { referenceEntityType: raw.referenceEntityType }),
+      ...(typeof raw.length === 'number' && raw.length > 0 && { length: raw.length }),
+      ...(raw.picklistParentValueField && { picklistParentValueField: raw.picklistParentValueField }),
+      ...(picklistValues.length > 0 && { picklistValues })
+    };
+  });
+}
+
+function normalizePicklistValue(raw: any): AutotaskPicklistValue {
+  return {
+    value: String(raw.value),
+    label: String(raw.label ?? raw.value),
+    isActive: raw.isActive !== false,
+    isDefaultValue: raw.isDefaultValue === true,
+    ...(typeof raw.sortOrder === 'number' && { sortOrder: raw.sortOrder }),
+    ...(raw.parentValue !== undefined && raw.parentValue !== null && raw.parentValue !== '' && { parentValue: String(raw.parentValue) })
+  };
+}
+
+/**
+ * Look up a field by name, ignoring case. Standard fields win over UDFs with the same name.
+ */
+export function findField(metadata: AutotaskEntityMetadata, fieldName: string): AutotaskFieldInfo | undefined {
+  const name = fieldName.toLowerCase();
+  return metadata.fields.find(field => !field.isUdf && field.name.toLowerCase() === name)
+    ?? metadata.fields.find(field => field.isUdf && field.name.toLowerCase() === name);
+}
+
+/**
+ * Picklist choice matching a value or a label, ignoring case
+ */
+export function findPicklistValue(field: AutotaskFieldInfo, input: string | number): AutotaskPicklistValue | undefined {
+  const wanted = String(input).trim().toLowerCase();
+  const values = field.picklistValues || [];
+  return values.find(choice => choice.value.toLowerCase() === wanted)
+    ?? values.find(choice => choice.label.toLowerCase() === wanted);
+}
+
+/**
+ * Label lookup (value -> label) for each picklist field of an entity
+ */
+export function getPicklistLabelMaps(metadata: AutotaskEntityMetadata, fieldNames: string[]): Map<string, Map<string, string>> {
+  const maps = new Map<string, Map<string, string>>();
+  for (const fieldName of fieldNames) {
+    const field = findField(metadata, fieldName);
+    if (field?.picklistValues) {
+      maps.set(fieldName, new Map(field.picklistValues.map(choice => [choice.value, choice.label])));
+    }
+  }
+  return maps;
+}
@@ -0,0 +1,101 @@
+// Fan-Out Service
+// Runs the same task for many tenants with bounded concurrency and a per-tenant timeout.
+// One tenant failing or hanging never fails the whole run - each outcome is reported.
+
+export interface FanOutOptions {
+  concurrency: number; // Tenants queried at the same time
+  timeoutMs: number;   // Per tenant; a timed-out call keeps running but its result is discarded
+}
+
+export const DEFAULT_FAN_OUT_OPTIONS: FanOutOptions = {
+  concurrency: 5,
+  timeoutMs: 30000
+};
+
+// Hard caps so one request can't monopolize the rate limiter
+export const MAX_FAN_OUT_CONCURRENCY = 20;
+export const MAX_FAN_OUT_TENANTS = 200;
+
+export type FanOutStatus = 'ok' | 'error' | 'timeout';
+
+export interface FanOutOutcome<T> {
+  tenantId: string;
+  status: FanOutStatus;
+  durationMs: number;
+  result?: T;
+  error?: string;
+}
+
+// Merged result of a tool run across tenants. Records are tagged with `_tenantId`;
+// tools that answer in prose rather than JSON keep their text per tenant.
+export interface FanOutToolResult {
+  tool: string;
+  summary: {
+    tenants: number;
+    succeeded: number;
+    failed: number;
+    timedOut: number;
+    items: number;
+  };
+  items: Array<Record<string, any>>;
+  results: Array<{
+    tenantId: string;
+    status: FanOutStatus;
+    durationMs: number;
+    itemCount?: number;
+    text?: string;
+    error?: string;
+  }>;
+}
+
+class FanOutTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'FanOutTimeoutError';
+  }
+}
+
+/**
+ * Run `task` once per tenant. Outcomes are returned in the order of `tenantIds`.
+ */
+export async function fanOut<T>(
+  tenantIds: string[],
+  task: (tenantId: string) => Promise<T>,
+  options: Partial<FanOutOptions> = {}
+): Promise<FanOutOutcome<T>[]> {
+  const { concurrency, timeoutMs } = { ...DEFAULT_FAN_OUT_OPTIONS, ...options };
+  const workers = Math.max(1, Math.min(concurrency, MAX_FAN_OUT_CONCURRENCY, tenantIds.length));
+  const outcomes: FanOutOutcome<T>[] = new Array(tenantIds.length);
+  let next = 0;
+
+  const runOne = async (index: number): Promise<void> => {
+    const tenantId = tenantIds[index];
+    const startTime = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new FanOutTimeoutError(timeoutMs)), timeoutMs);
+      });
+      const result = await Promise.race([task(tenantId), timeout]);
+      outcomes[index] = { tenantId, status: 'ok', durationMs: Date.now() - startTime, result };
+    } catch (error) {
+      outcomes[index] = {
+        tenantId,
+        status: error instanceof FanOutTimeoutError ? 'timeout' : 'error',
+        durationMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workers }, async () => {
+    while (next < tenantIds.length) {
+      await runOne(next++);
+    }
+  }));
+
+  return outcomes;
+}
@@ -0,0 +1,110 @@
+// Pagination Cursor Service
+// Opaque continuation tokens for Autotask queries. A cursor wraps the nextPageUrl Autotask returned
+// with a page, so the next call resumes exactly where the previous one stopped.
+
+import crypto from 'crypto';
+
+const CURSOR_VERSION = 1;
+
+// Placeholder origin for parsing relative page URLs - never requested
+const PAGE_URL_BASE = 'https://autotask.invalid';
+
+export interface PaginationCursor {
+  entity: string;    // Entity the query ran against, e.g. "Tickets"
+  tenant: string;    // Fingerprint of the tenant that ran the query
+  page: number;      // Page the cursor fetches (1-based)
+  pageSize: number;
+  pageUrl: string;   // nextPageUrl path and query, relative to the API version root
+  total?: number;    // Matches counted when the query started
+  since?: string;    // Change feeds: watermark the feed started from
+  watermark?: string; // Change feeds: newest modification seen on earlier pages
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(`Invalid cursor: ${message}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Short identifier for a tenant partition key, so a cursor can't be replayed against another tenant
+ */
+export function getTenantFingerprint(partitionKey: string): string {
+  return crypto.createHash('sha256').update(partitionKey).digest('hex').substring(0, 12);
+}
+
+export function encodeCursor(cursor: PaginationCursor): string {
+  const payload = {
+    v: CURSOR_VERSION,
+    e: cursor.entity,
+    t: cursor.tenant,
+    p: cursor.page,
+    s: cursor.pageSize,
+    u: cursor.pageUrl,
+    ...(cursor.total !== undefined && { c: cursor.total }),
+    ...(cursor.since && { a: cursor.since }),
+    ...(cursor.watermark && { w: cursor.watermark })
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor and check it belongs to this entity and tenant
+ */
+export function decodeCursor(token: string, expected: { entity: string; tenant: string }): PaginationCursor {
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError('not a cursor returned by this server');
+  }
+
+  if (!payload || payload.v !== CURSOR_VERSION || typeof payload.e !== 'string' || typeof payload.u !== 'string' ||
+      !Number.isInteger(payload.p) || payload.p < 2 || !Number.isInteger(payload.s) || payload.s < 1) {
+    throw new InvalidCursorError('not a cursor returned by this server');
+  }
+  if (payload.e.toLowerCase() !== expected.entity.toLowerCase()) {
+    throw new InvalidCursorError(`cursor is for ${payload.e}, not ${expected.entity}`);
+  }
+  if (payload.t !== expected.tenant) {
+    throw new InvalidCursorError('cursor was issued to a different tenant');
+  }
+  if (parsePageUrl(payload.u).entity.toLowerCase() !== expected.entity.toLowerCase()) {
+    throw new InvalidCursorError('page URL does not match the cursor entity');
+  }
+
+  return {
+    entity: payload.e,
+    tenant: payload.t,
+    page: payload.p,
+    pageSize: payload.s,
+    pageUrl: payload.u,
+    ...(typeof payload.c === 'number' && { total: payload.c }),
+    ...(typeof payload.a === 'string' && { since: payload.a }),
+    ...(typeof payload.w === 'string' && { watermark: payload.w })
+  };
+}
+
+/**
+ * Strip the zone host and API version from an Autotask nextPageUrl
+ * (https://webservices5.autotask.net/ATServicesRest/V1.0/Tickets/query/next?paging=... -> /Tickets/query/next?paging=...)
+ */
+export function toRelativePageUrl(nextPageUrl: string): string {
+  const url = new URL(nextPageUrl, PAGE_URL_BASE);
+  const match = /\/v\d+(?:\.\d+)?(\/.+)$/i.exec(url.pathname);
+  return `${match ? match[1] : url.pathname}${url.search}`;
+}
+
+/**
+ * Split a relative page URL into the endpoint and query parameters the REST client expects.
+ * Only query continuation endpoints are accepted.
+ */
+export function parsePageUrl(pageUrl: string): { entity: string; endpoint: string; query: Record<string, string> } {
+  const url = new URL(pageUrl, PAGE_URL_BASE);
+  const match = /^\/(\w+)\/query\/next$/i.exec(url.pathname);
+  if (!pageUrl.startsWith('/') || url.origin !== PAGE_URL_BASE || !match) {
+    throw new InvalidCursorError('unexpected page URL');
+  }
+  return { entity: match[1], endpoint: url.pathname, query: Object.fromEntries(url.searchParams) };
+}
@@ -0,0 +1,286 @@
+// Policy Engine Service
+// Declarative per-tenant / per-API-user / per-access-key tool policies, layered on top of read/write mode:
+// which tools may be called, which entities may be touched, and how large a page may be.
+// Policies live in a JSON file that is reloaded when it changes.
+
+import { promises as fs } from 'fs';
+import crypto from 'crypto';
+import { Logger } from '../utils/logger.js';
+import { PolicyConfig, TenantContext } from '../types/mcp.js';
+
+/**
+ * One policy layer. Every applicable layer must allow a call - layers can only narrow access.
+ * Tool patterns support a trailing or leading `*` wildcard (e.g. "search_*").
+ * Entities are matched loosely: "invoices", "Invoice" and "invoice" are the same entity.
+ */
+export interface ToolPolicy {
+  allowTools?: string[];
+  denyTools?: string[];
+  allowEntities?: string[];
+  denyEntities?: string[];
+  maxPageSize?: number;
+}
+
+/**
+ * Policy file format. tenants apply to registry tenants, whose tenantId is verified with their access key;
+ * callers sending raw credentials choose their own tenantId, so apiUsers key them by Autotask API username.
+ * accessKeys are keyed by the key fingerprint shown in the tenant registry, never by the access key itself.
+ */
+export interface PolicyDocument {
+  default?: ToolPolicy;
+  tenants?: Record<string, ToolPolicy>;
+  apiUsers?: Record<string, ToolPolicy>;
+  accessKeys?: Record<string, ToolPolicy>;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+  maxPageSize?: number;
+  appliedPolicies: string[];
+}
+
+// Leading verbs of tool names - what follows names the entity the tool works on
+const TOOL_VERBS = new Set(['search', 'get', 'create', 'update', 'delete', 'find', 'query', 'count']);
+
+/**
+ * Short, non-reversible identifier for an access key, used to attach policies to a key
+ */
+export function getAccessKeyFingerprint(accessKey: string): string {
+  return crypto.createHash('sha256').update(accessKey).digest('hex').substring(0, 16);
+}
+
+export class PolicyEngine {
+  private logger: Logger;
+  private config: PolicyConfig;
+  private document: PolicyDocument | null;
+  private loadError: string | null = null;
+  private loadedMtimeMs: number | null = null;
+
+  constructor(config: PolicyConfig, logger: Logger, document?: PolicyDocument) {
+    this.config = config;
+    this.logger = logger;
+    this.document = document ?? null;
+  }
+
+  /**
+   * Decide whether a tool call is allowed for a tenant. Denials are logged with their reason.
+   */
+  async evaluate(toolName: string, args: Record<string, any>, tenantContext?: TenantContext): Promise<PolicyDecision> {
+    const decision = await this.decide(toolName, typeof args.entity === 'string' ? args.entity : undefined, tenantContext);
+    if (!decision.allowed) {
+      this.logger.warn('🚫 Tool call denied by policy', {
+        toolName,
+        tenantId: tenantContext?.tenantId,
+        reason: decision.reason,
+        policies: decision.appliedPolicies
+      });
+    }
+    return decision;
+  }
+
+  /**
+   * Drop tools a tenant may never call (entity checks that depend on arguments happen at call time)
+   */
+  async filterTools<T extends { name: string }>(tools: T[], tenantContext?: TenantContext): Promise<T[]> {
+    const allowed: T[] = [];
+    for (const tool of tools) {
+      if ((await this.decide(tool.name, undefined, tenantContext)).allowed) {
+        allowed.push(tool);
+      }
+    }
+    return allowed;
+  }
+
+  private async decide(toolName: string, entityArg: string | undefined, tenantContext?: TenantContext): Promise<PolicyDecision> {
+    await this.refresh();
+
+    if (!this.document) {
+      // A configured but unreadable policy fails closed
+      return { allowed: false, reason: `Tool policy unavailable: ${this.loadError ?? 'not loaded'}`, appliedPolicies: [] };
+    }
+
+    const layers = this.getLayers(tenantContext);
+    const entities = this.getToolEntities(toolName, entityArg);
+    let maxPageSize: number | undefined;
+
+    for (const [label, policy] of layers) {
+      const reason = this.checkLayer(policy, toolName, entities);
+      if (reason) {
+        return { allowed: false, reason: `Denied by ${label} policy: ${reason}`, appliedPolicies: layers.map(([l]) => l) };
+      }
+      if (policy.maxPageSize !== undefined) {
+        maxPageSize = Math.min(maxPageSize ?? Infinity, policy.maxPageSize);
+      }
+    }
+
+    return {
+      allowed: true,
+      ...(maxPageSize !== undefined && { maxPageSize }),
+      appliedPolicies: layers.map(([label]) => label)
+    };
+  }
+
+  private checkLayer(policy: ToolPolicy, toolName: string, entities: string[]): string | null {
+    if (policy.denyTools?.some(pattern => this.matchesTool(pattern, toolName))) {
+      return `tool "${toolName}" is denied`;
+    }
+    if (policy.allowTools && !policy.allowTools.some(pattern => this.matchesTool(pattern, toolName))) {
+      return `tool "${toolName}" is not in the allowed tools`;
+    }
+
+    const denied = policy.denyEntities?.map(normalizeEntity).find(entity => entities.includes(entity));
+    if (denied) {
+      return `entity "${denied}" is denied`;
+    }
+    if (policy.allowEntities && entities.length > 0) {
+      const allowedEntities = policy.allowEntities.map(normalizeEntity);
+      // A tool's own name may list several candidate entities (ticket, ticketnote) - one allowed is enough
+      if (!entities.some(entity => allowedEntities.includes(entity))) {
+        return `entity "${entities[entities.length - 1]}" is not in the allowed entities`;
+      }
+    }
+    return null;
+  }
+
+  private getLayers(tenantContext?: TenantContext): Array<[string, ToolPolicy]> {
+    const layers: Array<[string, ToolPolicy]> = [];
+    if (this.document?.default) {
+      layers.push(['default', this.document.default]);
+    }
+    // Only a tenantId backed by an access key identifies the tenant - with raw credentials it is the caller's choice
+    const tenantPolicy = tenantContext?.accessKey && this.document?.tenants?.[tenantContext.tenantId];
+    if (tenantPolicy) {
+      layers.push([`tenant ${tenantContext.tenantId}`, tenantPolicy]);
+    }
+    const apiUser = tenantContext?.credentials?.username?.toLowerCase();
+    const apiUserPolicy = apiUser && this.findApiUserPolicy(apiUser);
+    if (apiUserPolicy) {
+      layers.push([`API user ${apiUser}`, apiUserPolicy]);
+    }
+    if (tenantContext?.accessKey) {
+      const fingerprint = getAccessKeyFingerprint(tenantContext.accessKey);
+      const keyPolicy = this.document?.accessKeys?.[fingerprint];
+      if (keyPolicy) {
+        layers.push([`access key ${fingerprint}`, keyPolicy]);
+      }
+    }
+    return layers;
+  }
+
+  private findApiUserPolicy(apiUser: string): ToolPolicy | undefined {
+    const entry = Object.entries(this.document?.apiUsers ?? {}).find(([username]) => username.toLowerCase() === apiUser);
+    return entry?.[1];
+  }
+
+  /**
+   * Entities a tool call touches: every run of words after the verb in its name
+   * (create_ticket_note -> ticket, note, ticketnote) plus an `entity` argument
+   */
+  private getToolEntities(toolName: string, entityArg?: string): string[] {
+    // Generic tools (query_entity, get_entity, count_entities) name their entity in the arguments instead
+    const words = toolName.split('_').filter(word => word !== 'entity' && word !== 'entities');
+    if (TOOL_VERBS.has(words[0])) {
+      words.shift();
+    }
+
+    const entities = new Set<string>();
+    for (let start = 0; start < words.length; start++) {
+      for (let end = start + 1; end <= words.length; end++) {
+        entities.add(normalizeEntity(words.slice(start, end).join('')));
+      }
+    }
+    if (entityArg) {
+      entities.add(normalizeEntity(entityArg));
+    }
+    return Array.from(entities);
+  }
+
+  private matchesTool(pattern: string, toolName: string): boolean {
+    if (pattern === '*') return true;
+    if (pattern.endsWith('*')) return toolName.startsWith(pattern.slice(0, -1));
+    if (pattern.startsWith('*')) return toolName.endsWith(pattern.slice(1));
+    return pattern === toolName;
+  }
+
+  /**
+   * Load the policy file, reloading it when it changes on disk. A broken edit keeps the last good policy.
+   */
+  private async refresh(): Promise<void> {
+    if (!this.config.path) {
+      return;
+    }
+
+    try {
+      const stat = await fs.stat(this.config.path);
+      if (this.document && this.loadedMtimeMs === stat.mtimeMs) {
+        return;
+      }
+      const document = JSON.parse(await fs.readFile(this.config.path, 'utf8')) as PolicyDocument;
+      validatePolicyDocument(document);
+      this.document = document;
+      this.loadedMtimeMs = stat.mtimeMs;
+      this.loadError = null;
+      this.logger.info('📜 Tool policy loaded', {
+        path: this.config.path,
+        tenants: Object.keys(document.tenants ?? {}).length,
+        apiUsers: Object.keys(document.apiUsers ?? {}).length,
+        accessKeys: Object.keys(document.accessKeys ?? {}).length
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (message !== this.loadError) {
+        this.logger.error('Failed to load tool policy file', { path: this.config.path, error: message });
+      }
+      this.loadError = message;
+    }
+  }
+}
+
+/**
+ * Singular, lowercase, alphanumeric form of an entity name
+ */
+function normalizeEntity(name: string): string {
+  const compact = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (compact.endsWith('ies')) return `${compact.slice(0, -3)}y`;
+  if (compact.endsWith('sses')) return compact.slice(0, -2);
+  if (compact.endsWith('s') && !compact.endsWith('ss')) return compact.slice(0, -1);
+  return compact;
+}
+
+/**
+ * Reject policy files with misspelled or mistyped rules instead of silently ignoring them
+ */
+export function validatePolicyDocument(document: PolicyDocument): void {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error('Policy document must be a JSON object');
+  }
+
+  const policies: Array<[string, unknown]> = [];
+  if (document.default !== undefined) policies.push(['default', document.default]);
+  for (const section of ['tenants', 'apiUsers', 'accessKeys'] as const) {
+    for (const [key, policy] of Object.entries(document[section] ?? {})) {
+      policies.push([`${section}.${key}`, policy]);
+    }
+  }
+
+  const listKeys = ['allowTools', 'denyTools', 'allowEntities', 'denyEntities'];
+  for (const [label, policy] of policies) {
+    if (!policy || typeof policy !== 'object') {
+      throw new Error(`Policy ${label} must be an object`);
+    }
+    for (const [key, value] of Object.entries(policy)) {
+      if (listKeys.includes(key)) {
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+          throw new Error(`Policy ${label}.${key} must be an array of strings`);
+        }
+      } else if (key === 'maxPageSize') {
+        if (typeof value !== 'number' || value < 1) {
+          throw new Error(`Policy ${label}.maxPageSize must be a positive number`);
+        }
+      } else {
+        throw new Error(`Policy ${label} has unknown rule "${key}"`);
+      }
+    }
+  }
+}
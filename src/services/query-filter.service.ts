@@ -0,0 +1,142 @@
+// Query Filter Service
+// Validates Autotask filter trees (conditions and nested and/or groups) against an entity's
+// field metadata before they are sent, so mistakes come back as one readable error
+// instead of an opaque 500 from Autotask.
+
+import { AutotaskFieldInfo, AutotaskFilterNode, AutotaskFilterOperator } from '../types/autotask.js';
+
+export const FILTER_OPERATORS: readonly AutotaskFilterOperator[] = [
+  'eq', 'noteq', 'gt', 'gte', 'lt', 'lte', 'beginsWith', 'endsWith', 'contains', 'exist', 'notExist', 'in', 'notIn'
+];
+
+// Autotask rejects queries with more conditions (or `in` values) than this
+export const MAX_FILTER_CONDITIONS = 500;
+export const MAX_FILTER_DEPTH = 5;
+
+const STRING_OPERATORS = new Set<AutotaskFilterOperator>(['beginsWith', 'endsWith', 'contains']);
+const NON_STRING_TYPES = new Set(['integer', 'long', 'short', 'double', 'decimal', 'boolean', 'datetime', 'date']);
+
+export class InvalidFilterError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid filter: ${issues.join('; ')}`);
+    this.name = 'InvalidFilterError';
+    this.issues = issues;
+  }
+}
+
+export interface ValidatedQuery {
+  filter: AutotaskFilterNode[];
+  includeFields?: string[];
+}
+
+/**
+ * Check a filter tree and includeFields against the entity's fields. Returns a copy with
+ * field and operator names in the exact case Autotask expects; throws InvalidFilterError listing every problem.
+ */
+export function validateQuery(
+  entity: string,
+  filter: unknown,
+  includeFields: unknown,
+  fields: AutotaskFieldInfo[]
+): ValidatedQuery {
+  const issues: string[] = [];
+  const standardFields = new Map(fields.filter(field => !field.isUdf).map(field => [field.name.toLowerCase(), field]));
+  const udfs = new Map(fields.filter(field => field.isUdf).map(field => [field.name.toLowerCase(), field]));
+  const operators = new Map(FILTER_OPERATORS.map(op => [op.toLowerCase(), op]));
+  let conditionCount = 0;
+
+  const validateNode = (node: any, path: string, depth: number): AutotaskFilterNode | null => {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      issues.push(`${path} must be a condition or an and/or group`);
+      return null;
+    }
+
+    const op = typeof node.op === 'string' ? node.op.toLowerCase() : undefined;
+    if (op === 'and' || op === 'or') {
+      if (depth >= MAX_FILTER_DEPTH) {
+        issues.push(`${path} nests groups deeper than ${MAX_FILTER_DEPTH} levels`);
+        return null;
+      }
+      if (!Array.isArray(node.items) || node.items.length === 0) {
+        issues.push(`${path} is an "${op}" group without items`);
+        return null;
+      }
+      const items = node.items.map((item: unknown, index: number) => validateNode(item, `${path}.items[${index}]`, depth + 1));
+      return { op, items };
+    }
+
+    conditionCount++;
+    const operator = op ? operators.get(op) : undefined;
+    if (!operator) {
+      issues.push(`${path} has unknown operator "${node.op}" (use and, or, ${FILTER_OPERATORS.join(', ')})`);
+      return null;
+    }
+
+    const fieldName = typeof node.field === 'string' ? node.field : '';
+    const isUdf = node.udf === true;
+    const field = (isUdf ? udfs : standardFields).get(fieldName.toLowerCase());
+    if (!field) {
+      const hint = !isUdf && udfs.has(fieldName.toLowerCase()) ? ' - it is a user-defined field, add "udf": true' : '';
+      issues.push(`${path} refers to unknown ${isUdf ? 'user-defined field' : 'field'} "${fieldName}" on ${entity}${hint}`);
+      return null;
+    }
+    if (!field.isQueryable) {
+      issues.push(`${path} field "${field.name}" cannot be used in a ${entity} filter`);
+      return null;
+    }
+    if (STRING_OPERATORS.has(operator) && NON_STRING_TYPES.has(field.dataType.toLowerCase())) {
+      issues.push(`${path} uses "${operator}" on ${field.dataType} field "${field.name}"`);
+      return null;
+    }
+
+    const condition: any = { op: operator, field: field.name, ...(isUdf && { udf: true }) };
+    if (operator === 'exist' || operator === 'notExist') {
+      return condition;
+    }
+    if (operator === 'in' || operator === 'notIn') {
+      if (!Array.isArray(node.value) || node.value.length === 0) {
+        issues.push(`${path} "${operator}" needs a non-empty array value`);
+        return null;
+      }
+      if (node.value.length > MAX_FILTER_CONDITIONS) {
+        issues.push(`${path} "${operator}" has more than ${MAX_FILTER_CONDITIONS} values`);
+        return null;
+      }
+    } else if (node.value === undefined || node.value === null || (typeof node.value === 'object')) {
+      issues.push(`${path} "${operator}" needs a single value`);
+      return null;
+    }
+    return { ...condition, value: node.value };
+  };
+
+  const nodes = Array.isArray(filter) ? filter : [filter];
+  if (filter === undefined || filter === null || nodes.length === 0) {
+    issues.push('filter needs at least one condition');
+  }
+  const validated = nodes.map((node, index) => validateNode(node, `filter[${index}]`, 0));
+  if (conditionCount > MAX_FILTER_CONDITIONS) {
+    issues.push(`filter has ${conditionCount} conditions (max ${MAX_FILTER_CONDITIONS})`);
+  }
+
+  let fieldNames: string[] | undefined;
+  if (includeFields !== undefined) {
+    if (!Array.isArray(includeFields) || includeFields.some(name => typeof name !== 'string')) {
+      issues.push('includeFields must be an array of field names');
+    } else {
+      fieldNames = includeFields.map(name => {
+        const field = standardFields.get(name.toLowerCase());
+        if (!field) {
+          issues.push(`includeFields refers to unknown field "${name}" on ${entity}`);
+        }
+        return field?.name ?? name;
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new InvalidFilterError(issues);
+  }
+  return { filter: validated as AutotaskFilterNode[], ...(fieldNames && { includeFields: fieldNames }) };
+}
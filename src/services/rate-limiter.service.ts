@@ -0,0 +1,399 @@
+// Rate Limiter Service
+// Per-tenant token bucket for Autotask's hourly request budget plus a concurrency
+// governor for its per-endpoint thread limit. Requests that can't run yet wait in a
+// per-tenant queue; queues are served round-robin so one busy tenant can't starve others.
+
+import { Logger } from '../utils/logger.js';
+
+export interface RateLimiterConfig {
+  hourlyLimit: number;              // Autotask: 10,000 requests/hour per database
+  maxConcurrentPerEndpoint: number; // Autotask: 3 concurrent threads per entity endpoint
+  maxConcurrentTotal: number;       // In-flight calls across all tenants
+  maxQueueWaitMs: number;           // Reject instead of queueing longer than this
+  maxQueuedPerTenant: number;
+  warningThreshold: number;         // Fraction of the hourly budget that triggers a warning
+}
+
+export const DEFAULT_RATE_LIMITER_CONFIG: RateLimiterConfig = {
+  hourlyLimit: 10000,
+  maxConcurrentPerEndpoint: 3,
+  maxConcurrentTotal: 20,
+  maxQueueWaitMs: 30000,
+  maxQueuedPerTenant: 100,
+  warningThreshold: 0.9
+};
+
+export type RateLimitReason = 'hourly-budget' | 'queue-full' | 'queue-timeout';
+
+/**
+ * Back-pressure error - tells the caller how long to wait before retrying
+ */
+export class RateLimitError extends Error {
+  readonly retryAfterMs: number;
+  readonly tenantId: string;
+  readonly reason: RateLimitReason;
+
+  constructor(message: string, tenantId: string, reason: RateLimitReason, retryAfterMs: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.tenantId = tenantId;
+    this.reason = reason;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface RateLimitWarning {
+  tenantId: string;
+  tenantKey: string;
+  used: number;
+  limit: number;
+}
+
+export type RateLimitWarningListener = (warning: RateLimitWarning) => void;
+
+export interface TenantRateLimitStats {
+  tenantId: string;
+  used: number;
+  remaining: number;
+  limit: number;
+  queued: number;
+  active: number;
+  activeByEndpoint: Record<string, number>;
+  rejected: number;
+}
+
+interface PendingRequest {
+  endpoint: string;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface TenantBucket {
+  tenantKey: string;
+  tenantId: string;
+  tokens: number;
+  lastRefill: number;
+  queue: PendingRequest[];
+  activeByEndpoint: Map<string, number>;
+  active: number;
+  rejected: number;
+  warned: boolean;
+}
+
+// Warning re-arms once usage drops this far below the threshold
+const WARNING_HYSTERESIS = 0.05;
+
+export class RateLimiter {
+  private logger: Logger;
+  private config: RateLimiterConfig;
+  private buckets: Map<string, TenantBucket> = new Map();
+  private roundRobin: string[] = [];
+  private activeTotal = 0;
+  private refillTimer: NodeJS.Timeout | null = null;
+  private warningListeners: Set<RateLimitWarningListener> = new Set();
+
+  constructor(config: Partial<RateLimiterConfig>, logger: Logger) {
+    this.config = { ...DEFAULT_RATE_LIMITER_CONFIG, ...config };
+    this.logger = logger;
+  }
+
+  /**
+   * Wait for a slot to call `endpoint` for a tenant. Resolves with a release function that
+   * must be called when the API call settles; rejects with RateLimitError under back-pressure.
+   */
+  acquire(tenantKey: string, endpoint: string, tenantId: string = tenantKey): Promise<() => void> {
+    const bucket = this.getBucket(tenantKey, tenantId);
+    this.refill(bucket);
+
+    if (bucket.queue.length >= this.config.maxQueuedPerTenant) {
+      return Promise.reject(this.reject(bucket, 'queue-full', this.estimateWaitMs(bucket, bucket.queue.length + 1)));
+    }
+
+    const waitMs = this.estimateWaitMs(bucket, bucket.queue.length + 1);
+    if (waitMs > this.config.maxQueueWaitMs) {
+      return Promise.reject(this.reject(bucket, 'hourly-budget', waitMs));
+    }
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest = {
+        endpoint,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          const index = bucket.queue.indexOf(pending);
+          if (index !== -1) {
+            bucket.queue.splice(index, 1);
+            reject(this.reject(bucket, 'queue-timeout', this.estimateWaitMs(bucket, bucket.queue.length + 1)));
+          }
+        }, this.config.maxQueueWaitMs)
+      };
+      pending.timer.unref();
+
+      bucket.queue.push(pending);
+      if (!this.roundRobin.includes(tenantKey)) {
+        this.roundRobin.push(tenantKey);
+      }
+      this.drain();
+    });
+  }
+
+  /**
+   * Subscribe to hourly budget warnings. Returns an unsubscribe function.
+   */
+  onWarning(listener: RateLimitWarningListener): () => void {
+    this.warningListeners.add(listener);
+    return () => {
+      this.warningListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Current usage for one tenant, or null if it has made no recent requests
+   */
+  getTenantStats(tenantKey: string): TenantRateLimitStats | null {
+    const bucket = this.buckets.get(tenantKey);
+    if (!bucket) {
+      return null;
+    }
+    this.refill(bucket);
+    return this.toStats(bucket);
+  }
+
+  /**
+   * Usage for every tracked tenant
+   */
+  getStats(): { activeTotal: number; maxConcurrentTotal: number; tenants: TenantRateLimitStats[] } {
+    return {
+      activeTotal: this.activeTotal,
+      maxConcurrentTotal: this.config.maxConcurrentTotal,
+      tenants: Array.from(this.buckets.values()).map(bucket => {
+        this.refill(bucket);
+        return this.toStats(bucket);
+      })
+    };
+  }
+
+  /**
+   * Start as many queued requests as budgets and concurrency limits allow, taking at most
+   * one request per tenant per pass so queues are served fairly
+   */
+  private drain(): void {
+    let started = true;
+    let nextTokenMs: number | null = null;
+
+    while (started && this.activeTotal < this.config.maxConcurrentTotal) {
+      started = false;
+      nextTokenMs = null;
+
+      for (const tenantKey of [...this.roundRobin]) {
+        if (this.activeTotal >= this.config.maxConcurrentTotal) {
+          break;
+        }
+
+        const bucket = this.buckets.get(tenantKey);
+        if (!bucket || bucket.queue.length === 0) {
+          this.roundRobin = this.roundRobin.filter(key => key !== tenantKey);
+          continue;
+        }
+
+        this.refill(bucket);
+        if (bucket.tokens < 1) {
+          const waitMs = this.msUntilTokens(bucket, 1);
+          nextTokenMs = nextTokenMs === null ? waitMs : Math.min(nextTokenMs, waitMs);
+          continue;
+        }
+
+        // Skip past requests whose endpoint is saturated so other endpoints aren't blocked behind them
+        const index = bucket.queue.findIndex(
+          pending => (bucket.activeByEndpoint.get(pending.endpoint) ?? 0) < this.config.maxConcurrentPerEndpoint
+        );
+        if (index === -1) {
+          continue; // Will be retried when one of this tenant's calls releases
+        }
+
+        const [pending] = bucket.queue.splice(index, 1);
+        clearTimeout(pending!.timer);
+        this.start(bucket, pending!);
+        started = true;
+
+        // Move this tenant to the back of the line
+        this.roundRobin = this.roundRobin.filter(key => key !== tenantKey);
+        if (bucket.queue.length > 0) {
+          this.roundRobin.push(tenantKey);
+        }
+      }
+    }
+
+    this.scheduleRefill(nextTokenMs);
+    this.pruneIdleBuckets();
+  }
+
+  private start(bucket: TenantBucket, pending: PendingRequest): void {
+    bucket.tokens -= 1;
+    bucket.active++;
+    bucket.activeByEndpoint.set(pending.endpoint, (bucket.activeByEndpoint.get(pending.endpoint) ?? 0) + 1);
+    this.activeTotal++;
+    this.checkWarning(bucket);
+
+    let released = false;
+    pending.resolve(() => {
+      if (released) return;
+      released = true;
+
+      bucket.active--;
+      const endpointActive = (bucket.activeByEndpoint.get(pending.endpoint) ?? 1) - 1;
+      if (endpointActive > 0) {
+        bucket.activeByEndpoint.set(pending.endpoint, endpointActive);
+      } else {
+        bucket.activeByEndpoint.delete(pending.endpoint);
+      }
+      this.activeTotal--;
+      this.drain();
+    });
+  }
+
+  /**
+   * Wake the dispatcher when the next token becomes available for a tenant waiting on budget
+   */
+  private scheduleRefill(waitMs: number | null): void {
+    if (this.refillTimer) {
+      clearTimeout(this.refillTimer);
+      this.refillTimer = null;
+    }
+    if (waitMs === null) {
+      return;
+    }
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = null;
+      this.drain();
+    }, Math.max(1, Math.ceil(waitMs)));
+    this.refillTimer.unref();
+  }
+
+  private getBucket(tenantKey: string, tenantId: string): TenantBucket {
+    let bucket = this.buckets.get(tenantKey);
+    if (!bucket) {
+      bucket = {
+        tenantKey,
+        tenantId,
+        tokens: this.config.hourlyLimit,
+        lastRefill: Date.now(),
+        queue: [],
+        activeByEndpoint: new Map(),
+        active: 0,
+        rejected: 0,
+        warned: false
+      };
+      this.buckets.set(tenantKey, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: TenantBucket): void {
+    const now = Date.now();
+    const elapsed = now - bucket.lastRefill;
+    if (elapsed > 0) {
+      bucket.tokens = Math.min(this.config.hourlyLimit, bucket.tokens + elapsed * this.refillPerMs());
+      bucket.lastRefill = now;
+    }
+    this.checkWarning(bucket);
+  }
+
+  private refillPerMs(): number {
+    return this.config.hourlyLimit / (60 * 60 * 1000);
+  }
+
+  private msUntilTokens(bucket: TenantBucket, needed: number): number {
+    const deficit = needed - bucket.tokens;
+    return deficit > 0 ? deficit / this.refillPerMs() : 0;
+  }
+
+  /**
+   * Estimated wait for the Nth queued request of a tenant, from its remaining hourly budget
+   */
+  private estimateWaitMs(bucket: TenantBucket, position: number): number {
+    return Math.ceil(this.msUntilTokens(bucket, position));
+  }
+
+  private reject(bucket: TenantBucket, reason: RateLimitReason, waitMs: number): RateLimitError {
+    bucket.rejected++;
+    // A full or timed-out queue with budget left is a concurrency problem - suggest a short pause
+    const retryAfterMs = Math.max(waitMs, 1000);
+    const retryAfterSec = Math.ceil(retryAfterMs / 1000);
+
+    const detail = reason === 'hourly-budget'
+      ? `hourly API budget of ${this.config.hourlyLimit} requests exhausted`
+      : reason === 'queue-full'
+        ? `${this.config.maxQueuedPerTenant} requests already queued`
+        : `request waited more than ${this.config.maxQueueWaitMs}ms in queue`;
+
+    this.logger.warn(`🚦 Rate limit: rejecting request for tenant ${bucket.tenantId}`, {
+      tenantId: bucket.tenantId,
+      reason,
+      retryAfterMs,
+      queued: bucket.queue.length,
+      active: bucket.active
+    });
+
+    return new RateLimitError(
+      `Rate limit for tenant ${bucket.tenantId}: ${detail}. Retry after ${retryAfterSec}s.`,
+      bucket.tenantId,
+      reason,
+      retryAfterMs
+    );
+  }
+
+  private checkWarning(bucket: TenantBucket): void {
+    const used = Math.round(this.config.hourlyLimit - bucket.tokens);
+    const threshold = this.config.hourlyLimit * this.config.warningThreshold;
+
+    if (!bucket.warned && used >= threshold) {
+      bucket.warned = true;
+      this.logger.warn(`⚠️ Rate limit warning for tenant ${bucket.tenantId}: ${used}/${this.config.hourlyLimit} requests used`);
+      const warning: RateLimitWarning = {
+        tenantId: bucket.tenantId,
+        tenantKey: bucket.tenantKey,
+        used,
+        limit: this.config.hourlyLimit
+      };
+      for (const listener of this.warningListeners) {
+        try {
+          listener(warning);
+        } catch (error) {
+          this.logger.error('Rate limit warning listener failed:', error);
+        }
+      }
+    } else if (bucket.warned && used < threshold - this.config.hourlyLimit * WARNING_HYSTERESIS) {
+      bucket.warned = false;
+    }
+  }
+
+  /**
+   * Drop buckets that are idle and fully refilled - they're equivalent to a fresh bucket
+   */
+  private pruneIdleBuckets(): void {
+    for (const [tenantKey, bucket] of this.buckets) {
+      if (bucket.active === 0 && bucket.queue.length === 0) {
+        this.refill(bucket);
+        if (bucket.tokens >= this.config.hourlyLimit) {
+          this.buckets.delete(tenantKey);
+        }
+      }
+    }
+  }
+
+  private toStats(bucket: TenantBucket): TenantRateLimitStats {
+    const used = Math.round(this.config.hourlyLimit - bucket.tokens);
+    return {
+      tenantId: bucket.tenantId,
+      used,
+      remaining: this.config.hourlyLimit - used,
+      limit: this.config.hourlyLimit,
+      queued: bucket.queue.length,
+      active: bucket.active,
+      activeByEndpoint: Object.fromEntries(bucket.activeByEndpoint),
+      rejected: bucket.rejected
+    };
+  }
+}
@@ -0,0 +1,222 @@
+// Retry Policy Service
+// Decides whether a failed Autotask call should be retried and how long to wait:
+// jittered exponential backoff, Retry-After support, and a per-tenant retry budget
+// so a struggling tenant can't multiply its own load.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Logger } from '../utils/logger.js';
+
+export interface RetryPolicyConfig {
+  maxAttempts: number;          // Total attempts including the first
+  baseDelayMs: number;
+  maxDelayMs: number;           // Longest backoff (or Retry-After) we are willing to wait
+  retryBudgetPerMinute: number; // Retries per tenant per minute
+}
+
+export const DEFAULT_RETRY_POLICY_CONFIG: RetryPolicyConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryBudgetPerMinute: 30
+};
+
+export interface RetryDecision {
+  retry: boolean;
+  delayMs: number;
+  reason: string;
+}
+
+export interface RetryContext {
+  attempt: number;
+  // Creates are not idempotent - only retried when the caller supplied an idempotency key
+  idempotent: boolean;
+  retryAfterMs?: number;
+}
+
+// Autotask returns these for throttling and temporary outages
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+// Node/undici network errors worth another attempt
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+/**
+ * HTTP status of an Autotask API error, if any
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Network error code (fetch wraps it in error.cause)
+ */
+export function getNetworkErrorCode(error: unknown): string | undefined {
+  const err = error as { code?: unknown; cause?: { code?: unknown } };
+  const code = err?.code ?? err?.cause?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * Whether an error is transient (throttling, gateway/outage, dropped connection)
+ */
+export function isTransientError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    if (RETRYABLE_STATUSES.has(status)) {
+      return true;
+    }
+    // Autotask also uses 500 for business rule violations - those carry an errors array and won't succeed on retry
+    if (status === 500) {
+      const details = (error as { details?: { errors?: unknown } }).details;
+      return !(details && typeof details === 'object' && Array.isArray(details.errors) && details.errors.length > 0);
+    }
+    return false;
+  }
+
+  const code = getNetworkErrorCode(error);
+  return code !== undefined && RETRYABLE_NETWORK_CODES.has(code);
+}
+
+// ============================================
+// Response capture
+// ============================================
+
+// The Autotask client doesn't expose response headers or redirects, so responses are inspected
+// on their way through fetch and recorded for the API call that made them
+interface ResponseCapture {
+  retryAfterMs?: number;
+  redirected?: boolean;
+}
+
+const responseCapture = new AsyncLocalStorage<ResponseCapture>();
+const FETCH_CAPTURE_MARKER = Symbol.for('autotask-mcp.fetchCapture');
+
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function ensureFetchCapture(): void {
+  const current = globalThis.fetch as (typeof fetch & { [FETCH_CAPTURE_MARKER]?: boolean }) | undefined;
+  if (!current || current[FETCH_CAPTURE_MARKER]) {
+    return;
+  }
+
+  const capturing = async (...args: Parameters<typeof fetch>): Promise<Response> => {
+    const response = await current(...args);
+    const capture = responseCapture.getStore();
+    if (capture && (response.redirected || (response.status >= 300 && response.status < 400))) {
+      capture.redirected = true;
+    }
+    if (capture && !response.ok) {
+      const retryAfterMs = parseRetryAfter(response.headers?.get?.('retry-after'));
+      if (retryAfterMs !== undefined) {
+        capture.retryAfterMs = retryAfterMs;
+      }
+    }
+    return response;
+  };
+  (capturing as typeof capturing & { [FETCH_CAPTURE_MARKER]?: boolean })[FETCH_CAPTURE_MARKER] = true;
+  globalThis.fetch = capturing as typeof fetch;
+}
+
+/**
+ * Run one API attempt, recording any Retry-After header on its failed responses and whether it was redirected
+ */
+export async function runWithResponseCapture<T>(
+  call: () => Promise<T>
+): Promise<{ result: T; redirected: boolean } | { error: unknown; retryAfterMs: number | undefined; redirected: boolean }> {
+  ensureFetchCapture();
+  const capture: ResponseCapture = {};
+  try {
+    const result = await responseCapture.run(capture, call);
+    return { result, redirected: !!capture.redirected };
+  } catch (error) {
+    return { error, retryAfterMs: capture.retryAfterMs, redirected: !!capture.redirected };
+  }
+}
+
+// ============================================
+// Retry policy
+// ============================================
+
+export class RetryPolicy {
+  private logger: Logger;
+  private config: RetryPolicyConfig;
+  private budgets: Map<string, { tokens: number; lastRefill: number }> = new Map();
+
+  constructor(config: Partial<RetryPolicyConfig>, logger: Logger) {
+    this.config = { ...DEFAULT_RETRY_POLICY_CONFIG, ...config };
+    this.logger = logger;
+  }
+
+  get maxAttempts(): number {
+    return this.config.maxAttempts;
+  }
+
+  /**
+   * Decide whether to retry after a failed attempt. Consumes retry budget when it says yes.
+   */
+  decide(tenantKey: string, error: unknown, context: RetryContext): RetryDecision {
+    if (context.attempt >= this.config.maxAttempts) {
+      return { retry: false, delayMs: 0, reason: 'max attempts reached' };
+    }
+    if (!isTransientError(error)) {
+      return { retry: false, delayMs: 0, reason: 'not retryable' };
+    }
+    if (!context.idempotent) {
+      return { retry: false, delayMs: 0, reason: 'create without idempotency key' };
+    }
+    if (context.retryAfterMs !== undefined && context.retryAfterMs > this.config.maxDelayMs) {
+      return { retry: false, delayMs: context.retryAfterMs, reason: 'Retry-After exceeds max delay' };
+    }
+    if (!this.takeBudget(tenantKey)) {
+      this.logger.warn('🔁 Retry budget exhausted for tenant', { tenantKey: tenantKey.substring(0, 8) + '...' });
+      return { retry: false, delayMs: 0, reason: 'retry budget exhausted' };
+    }
+
+    return { retry: true, delayMs: this.getDelay(context), reason: context.retryAfterMs !== undefined ? 'Retry-After' : 'backoff' };
+  }
+
+  /**
+   * Retry-After (plus a little jitter so tenants don't retry in lockstep), else exponential backoff with equal jitter
+   */
+  private getDelay(context: RetryContext): number {
+    if (context.retryAfterMs !== undefined) {
+      return Math.round(context.retryAfterMs + Math.random() * this.config.baseDelayMs);
+    }
+    const ceiling = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** (context.attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+
+  private takeBudget(tenantKey: string): boolean {
+    const now = Date.now();
+    const capacity = this.config.retryBudgetPerMinute;
+    const budget = this.budgets.get(tenantKey) ?? { tokens: capacity, lastRefill: now };
+
+    budget.tokens = Math.min(capacity, budget.tokens + (now - budget.lastRefill) * capacity / 60000);
+    budget.lastRefill = now;
+    this.budgets.set(tenantKey, budget);
+
+    if (budget.tokens < 1) {
+      return false;
+    }
+    budget.tokens -= 1;
+    return true;
+  }
+}
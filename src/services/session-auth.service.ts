@@ -0,0 +1,176 @@
+// Session Authentication Service
+// Binds a tenant to an MCP transport session at connect time, so tool calls on that session
+// don't have to carry _tenant. Tenants authenticate with a registry access key (Basic auth)
+// or with a short-lived session token exchanged beforehand for credentials.
+
+import crypto from 'crypto';
+import { Logger } from '../utils/logger.js';
+import { TenantRegistry } from './tenant-registry.service.js';
+import { SseSessionConfig } from '../types/mcp.js';
+
+export interface SessionAuthConfig {
+  perCallTenant: 'allow' | 'forbid'; // Whether tool calls may still send their own _tenant
+  tokenTtlMs: number;
+}
+
+export const DEFAULT_SESSION_AUTH_CONFIG: SessionAuthConfig = {
+  perCallTenant: 'allow',
+  tokenTtlMs: 60 * 60 * 1000
+};
+
+/**
+ * Tenant bound to a session. `tenant` has the same shape as a per-call _tenant argument.
+ */
+export interface SessionTenant {
+  tenantId: string;
+  mode: 'read' | 'write';
+  tenant: Record<string, any>;
+}
+
+export interface SessionToken {
+  token: string;
+  tenantId: string;
+  mode: 'read' | 'write';
+  expiresAt: string;
+}
+
+/**
+ * Rejected session authentication (maps to HTTP 401)
+ */
+export class SessionAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionAuthError';
+  }
+}
+
+const TOKEN_PREFIX = 'ats_';
+
+export class SessionAuthenticator {
+  private logger: Logger;
+  private config: SessionAuthConfig;
+  private registry: TenantRegistry | null;
+  private tokens: Map<string, { session: SessionTenant; expiresAt: number }> = new Map();
+
+  constructor(config: SseSessionConfig, registry: TenantRegistry | null, logger: Logger) {
+    this.config = { ...DEFAULT_SESSION_AUTH_CONFIG, ...config };
+    this.registry = registry;
+    this.logger = logger;
+  }
+
+  get perCallTenant(): 'allow' | 'forbid' {
+    return this.config.perCallTenant;
+  }
+
+  /**
+   * Exchange tenant credentials (registry access key or raw Autotask credentials) for a session token
+   */
+  async issueToken(tenantData: Record<string, any>): Promise<SessionToken> {
+    const session = await this.validateTenant(tenantData);
+    const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const expiresAt = Date.now() + this.config.tokenTtlMs;
+
+    this.pruneTokens();
+    this.tokens.set(token, { session, expiresAt });
+
+    this.logger.info('🎟️ Session token issued', { tenantId: session.tenantId, mode: session.mode });
+    return { token, tenantId: session.tenantId, mode: session.mode, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Resolve the tenant for an Authorization header: `Bearer <session token>` or
+   * `Basic base64(tenantId:accessKey)`. Returns undefined when no header is sent.
+   * A requested mode can only narrow access (write -> read).
+   */
+  async authenticate(authorization: string | undefined, requestedMode?: string): Promise<SessionTenant | undefined> {
+    if (!authorization) {
+      return undefined;
+    }
+
+    let session: SessionTenant;
+    if (authorization.startsWith('Bearer ')) {
+      const entry = this.tokens.get(authorization.slice(7).trim());
+      if (!entry || entry.expiresAt <= Date.now()) {
+        throw new SessionAuthError('Invalid or expired session token');
+      }
+      session = entry.session;
+    } else if (authorization.startsWith('Basic ')) {
+      const decoded = Buffer.from(authorization.slice(6).trim(), 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      if (separator <= 0) {
+        throw new SessionAuthError('Basic authorization must be tenantId:accessKey');
+      }
+      session = await this.validateTenant({
+        tenantId: decoded.substring(0, separator),
+        accessKey: decoded.substring(separator + 1)
+      });
+    } else {
+      throw new SessionAuthError('Unsupported Authorization scheme (use Bearer <session token> or Basic tenantId:accessKey)');
+    }
+
+    if (requestedMode === 'read' && session.mode === 'write') {
+      return { ...session, mode: 'read', tenant: { ...session.tenant, mode: 'read' } };
+    }
+    return session;
+  }
+
+  /**
+   * Check tenant data before binding it. Registry tenants are verified here;
+   * raw credentials are only checked for completeness (Autotask verifies them on first use).
+   */
+  private async validateTenant(tenantData: Record<string, any>): Promise<SessionTenant> {
+    const mode = tenantData.mode ?? 'write';
+    if (mode !== 'read' && mode !== 'write') {
+      throw new SessionAuthError(`Invalid mode "${mode}" (expected "read" or "write")`);
+    }
+
+    if (tenantData.tenantId && tenantData.accessKey && !tenantData.secret) {
+      if (!this.registry) {
+        throw new SessionAuthError('Tenant registry is not configured (requires MULTI_TENANT_ENABLED=true and TENANT_REGISTRY_KEY)');
+      }
+      try {
+        await this.registry.resolveCredentials(tenantData.tenantId, tenantData.accessKey);
+      } catch (error) {
+        throw new SessionAuthError(error instanceof Error ? error.message : 'Invalid tenant ID or access key');
+      }
+      return {
+        tenantId: tenantData.tenantId,
+        mode,
+        tenant: {
+          tenantId: tenantData.tenantId,
+          accessKey: tenantData.accessKey,
+          mode,
+          ...(tenantData.impersonationResourceId !== undefined && { impersonationResourceId: tenantData.impersonationResourceId })
+        }
+      };
+    }
+
+    if (tenantData.username && tenantData.secret && tenantData.integrationCode) {
+      const tenantId = tenantData.tenantId || `tenant_${tenantData.username}`;
+      return {
+        tenantId,
+        mode,
+        tenant: {
+          tenantId,
+          username: tenantData.username,
+          secret: tenantData.secret,
+          integrationCode: tenantData.integrationCode,
+          mode,
+          ...(tenantData.apiUrl && { apiUrl: tenantData.apiUrl }),
+          ...(tenantData.impersonationResourceId !== undefined && { impersonationResourceId: tenantData.impersonationResourceId })
+        }
+      };
+    }
+
+    throw new SessionAuthError('Tenant requires tenantId + accessKey, or username + secret + integrationCode');
+  }
+
+  private pruneTokens(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.tokens) {
+      if (entry.expiresAt <= now) {
+        this.tokens.delete(key);
+      }
+    }
+  }
+}
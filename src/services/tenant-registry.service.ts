@@ -0,0 +1,309 @@
+// Tenant Registry Service
+// Stores tenant Autotask credentials in an encrypted local file so callers only
+// need a tenantId and a tenant-scoped access key instead of raw API secrets
+
+import crypto from 'crypto';
+import { AutotaskCredentials } from '../types/mcp.js';
+import { Logger } from '../utils/logger.js';
+import { EncryptedJsonFile } from '../utils/encrypted-file.js';
+
+export interface TenantRegistryConfig {
+  storePath: string;
+  encryptionKey: string;
+}
+
+export type TenantStatus = 'active' | 'disabled';
+
+// Full record as persisted (inside the encrypted envelope)
+interface TenantRecord {
+  tenantId: string;
+  name?: string;
+  credentials: AutotaskCredentials;
+  accessKeyHash: string;
+  status: TenantStatus;
+  createdAt: string;
+  updatedAt: string;
+  keyRotatedAt: string;
+}
+
+// Public view of a tenant - never includes the secret or the access key hash
+export interface TenantSummary {
+  tenantId: string;
+  name?: string;
+  username: string;
+  integrationCode: string;
+  apiUrl?: string;
+  status: TenantStatus;
+  createdAt: string;
+  updatedAt: string;
+  keyRotatedAt: string;
+  // Identifies the current access key in tool policy files (see TOOL_POLICY_PATH)
+  keyFingerprint: string;
+}
+
+export interface CreateTenantInput {
+  tenantId?: string;
+  name?: string;
+  credentials: AutotaskCredentials;
+}
+
+export interface TenantKeyResult {
+  tenant: TenantSummary;
+  accessKey: string;
+}
+
+const ACCESS_KEY_PREFIX = 'atk_';
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+export class TenantRegistry {
+  private logger: Logger;
+  private tenants: Map<string, TenantRecord> = new Map();
+  private store: EncryptedJsonFile<TenantRecord[]>;   // All tenant records, encrypted
+  private loadedMtimeMs: number | null = null;
+
+  constructor(config: TenantRegistryConfig, logger: Logger) {
+    if (!config.encryptionKey) {
+      throw new Error('Tenant registry requires an encryption key (TENANT_REGISTRY_KEY)');
+    }
+    this.logger = logger;
+    this.store = new EncryptedJsonFile({
+      filePath: config.storePath,
+      encryptionKey: config.encryptionKey,
+      label: 'tenant registry',
+      keyEnvVar: 'TENANT_REGISTRY_KEY'
+    });
+  }
+
+  /**
+   * Resolve credentials for a tenant, verifying its access key
+   */
+  async resolveCredentials(tenantId: string, accessKey: string): Promise<AutotaskCredentials> {
+    await this.refresh();
+
+    const record = this.tenants.get(tenantId);
+    // Same message for unknown tenant and wrong key so tenant IDs can't be probed
+    if (!record || !this.verifyAccessKey(accessKey, record.accessKeyHash)) {
+      this.logger.warn('🔐 Tenant access key rejected', { tenantId });
+      throw new Error(`Invalid tenant ID or access key for tenant ${tenantId}`);
+    }
+
+    if (record.status !== 'active') {
+      this.logger.warn('🔐 Request for disabled tenant rejected', { tenantId });
+      throw new Error(`Tenant ${tenantId} is disabled`);
+    }
+
+    return { ...record.credentials };
+  }
+
+  /**
+   * Credentials of an active tenant without its access key - only for trusted server-side
+   * callers such as admin fan-out queries
+   */
+  async getActiveCredentials(tenantId: string): Promise<AutotaskCredentials> {
+    await this.refresh();
+
+    const record = this.requireTenant(tenantId);
+    if (record.status !== 'active') {
+      throw new Error(`Tenant ${tenantId} is disabled`);
+    }
+    return { ...record.credentials };
+  }
+
+  /**
+   * Register a new tenant and issue its first access key
+   */
+  async createTenant(input: CreateTenantInput): Promise<TenantKeyResult> {
+    this.validateCredentials(input.credentials);
+    await this.refresh();
+
+    const tenantId = input.tenantId || `tenant_${crypto.randomBytes(6).toString('hex')}`;
+    if (!TENANT_ID_PATTERN.test(tenantId)) {
+      throw new Error('Tenant ID may only contain letters, digits, ".", "_" and "-" (max 64 characters)');
+    }
+    if (this.tenants.has(tenantId)) {
+      throw new Error(`Tenant ${tenantId} is already registered`);
+    }
+
+    const accessKey = this.generateAccessKey();
+    const now = new Date().toISOString();
+    const record: TenantRecord = {
+      tenantId,
+      ...(input.name && { name: input.name }),
+      credentials: this.normalizeCredentials(input.credentials),
+      accessKeyHash: this.hashAccessKey(accessKey),
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+      keyRotatedAt: now
+    };
+
+    this.tenants.set(tenantId, record);
+    await this.persist();
+
+    this.logger.info(`🏢 Tenant registered: ${tenantId}`, { tenantId });
+    return { tenant: this.toSummary(record), accessKey };
+  }
+
+  /**
+   * Issue a new access key for a tenant (the old key stops working immediately).
+   * Optionally replaces the stored Autotask credentials at the same time.
+   */
+  async rotateTenant(tenantId: string, credentials?: AutotaskCredentials): Promise<TenantKeyResult> {
+    if (credentials) {
+      this.validateCredentials(credentials);
+    }
+    await this.refresh();
+
+    const record = this.requireTenant(tenantId);
+    const accessKey = this.generateAccessKey();
+    const now = new Date().toISOString();
+
+    record.accessKeyHash = this.hashAccessKey(accessKey);
+    record.keyRotatedAt = now;
+    record.updatedAt = now;
+    if (credentials) {
+      record.credentials = this.normalizeCredentials(credentials);
+    }
+
+    await this.persist();
+
+    this.logger.info(`🔄 Tenant access key rotated: ${tenantId}`, {
+      tenantId,
+      credentialsReplaced: !!credentials
+    });
+    return { tenant: this.toSummary(record), accessKey };
+  }
+
+  /**
+   * Enable or disable a tenant without deleting its credentials
+   */
+  async setTenantStatus(tenantId: string, status: TenantStatus): Promise<TenantSummary> {
+    await this.refresh();
+
+    const record = this.requireTenant(tenantId);
+    record.status = status;
+    record.updatedAt = new Date().toISOString();
+
+    await this.persist();
+
+    this.logger.info(`${status === 'active' ? '✅' : '⛔'} Tenant ${status === 'active' ? 'enabled' : 'disabled'}: ${tenantId}`, { tenantId });
+    return this.toSummary(record);
+  }
+
+  /**
+   * Permanently remove a tenant and its credentials
+   */
+  async deleteTenant(tenantId: string): Promise<boolean> {
+    await this.refresh();
+
+    if (!this.tenants.delete(tenantId)) {
+      return false;
+    }
+
+    await this.persist();
+
+    this.logger.info(`🗑️ Tenant deleted: ${tenantId}`, { tenantId });
+    return true;
+  }
+
+  /**
+   * Get a single tenant summary
+   */
+  async getTenant(tenantId: string): Promise<TenantSummary | null> {
+    await this.refresh();
+    const record = this.tenants.get(tenantId);
+    return record ? this.toSummary(record) : null;
+  }
+
+  /**
+   * List all registered tenants
+   */
+  async listTenants(): Promise<TenantSummary[]> {
+    await this.refresh();
+    return Array.from(this.tenants.values()).map(record => this.toSummary(record));
+  }
+
+  /**
+   * Reload the store if it changed on disk (e.g. updated by another server process)
+   */
+  private async refresh(): Promise<void> {
+    // Don't race a pending write of our own
+    await this.store.whenIdle();
+
+    const mtimeMs = await this.store.getMtimeMs();
+    if (mtimeMs === null) {
+      return; // Nothing persisted yet - start empty
+    }
+    if (this.loadedMtimeMs !== null && mtimeMs === this.loadedMtimeMs) {
+      return;
+    }
+
+    const records = await this.store.read() ?? [];
+    this.tenants = new Map(records.map(record => [record.tenantId, record]));
+    this.loadedMtimeMs = mtimeMs;
+
+    this.logger.debug(`Tenant registry loaded: ${this.tenants.size} tenants`);
+  }
+
+  /**
+   * Write the encrypted store
+   */
+  private async persist(): Promise<void> {
+    this.loadedMtimeMs = await this.store.write(Array.from(this.tenants.values()));
+  }
+
+  private generateAccessKey(): string {
+    return `${ACCESS_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  private hashAccessKey(accessKey: string): string {
+    return crypto.createHash('sha256').update(accessKey).digest('hex');
+  }
+
+  private verifyAccessKey(accessKey: string, expectedHash: string): boolean {
+    if (typeof accessKey !== 'string' || !accessKey.startsWith(ACCESS_KEY_PREFIX)) {
+      return false;
+    }
+    const actual = Buffer.from(this.hashAccessKey(accessKey), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+
+  private requireTenant(tenantId: string): TenantRecord {
+    const record = this.tenants.get(tenantId);
+    if (!record) {
+      throw new Error(`Tenant ${tenantId} is not registered`);
+    }
+    return record;
+  }
+
+  private validateCredentials(credentials: AutotaskCredentials | undefined): void {
+    if (!credentials?.username || !credentials?.secret || !credentials?.integrationCode) {
+      throw new Error('Missing required Autotask credentials: username, secret, and integrationCode are required');
+    }
+  }
+
+  private normalizeCredentials(credentials: AutotaskCredentials): AutotaskCredentials {
+    return {
+      username: credentials.username,
+      secret: credentials.secret,
+      integrationCode: credentials.integrationCode,
+      ...(credentials.apiUrl && { apiUrl: credentials.apiUrl })
+    };
+  }
+
+  private toSummary(record: TenantRecord): TenantSummary {
+    return {
+      tenantId: record.tenantId,
+      ...(record.name && { name: record.name }),
+      username: record.credentials.username,
+      integrationCode: record.credentials.integrationCode,
+      ...(record.credentials.apiUrl && { apiUrl: record.credentials.apiUrl }),
+      status: record.status,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      keyRotatedAt: record.keyRotatedAt,
+      keyFingerprint: record.accessKeyHash.substring(0, 16)
+    };
+  }
+}
@@ -0,0 +1,216 @@
+// Zone Resolver Service
+// Works out which Autotask zone (webservicesN.autotask.net) an API user lives in.
+// An explicit apiUrl always wins; otherwise the zone is discovered via zoneInformation
+// once per username and cached in memory (and optionally on disk) with a TTL.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Logger } from '../utils/logger.js';
+
+export interface ZoneResolverConfig {
+  discoveryUrl: string; // Any zone answers zoneInformation; this is the one asked
+  cacheTtlMs: number;
+  timeoutMs: number;    // A zoneInformation call that takes longer fails
+  cachePath?: string;   // Optional JSON file so restarts don't rediscover every user
+}
+
+export const DEFAULT_ZONE_RESOLVER_CONFIG: ZoneResolverConfig = {
+  discoveryUrl: 'https://webservices.autotask.net/ATServicesRest/',
+  cacheTtlMs: 24 * 60 * 60 * 1000,
+  timeoutMs: 10000
+};
+
+export type ZoneSource = 'explicit' | 'cache' | 'discovered';
+
+export interface ZoneInfo {
+  url: string;
+  webUrl?: string;
+  ci?: number;
+}
+
+export interface ResolvedZone {
+  url: string;
+  source: ZoneSource;
+  webUrl?: string;
+}
+
+interface CachedZone {
+  url: string;
+  webUrl?: string;
+  discoveredAt: number;
+}
+
+export class ZoneResolver {
+  private logger: Logger;
+  private config: ZoneResolverConfig;
+  private zones: Map<string, CachedZone> = new Map();
+  private pending: Map<string, Promise<CachedZone>> = new Map();
+  private diskLoaded = false;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(config: Partial<ZoneResolverConfig>, logger: Logger) {
+    this.config = { ...DEFAULT_ZONE_RESOLVER_CONFIG, ...config };
+    this.logger = logger;
+  }
+
+  /**
+   * Base URL (…/ATServicesRest/) for an API user. An explicit apiUrl is used as-is.
+   */
+  async resolve(username: string, explicitApiUrl?: string): Promise<ResolvedZone> {
+    if (explicitApiUrl) {
+      return { url: normalizeApiUrl(explicitApiUrl), source: 'explicit' };
+    }
+
+    const key = this.getKey(username);
+    await this.loadDiskCache();
+
+    const cached = this.zones.get(key);
+    if (cached && Date.now() - cached.discoveredAt < this.config.cacheTtlMs) {
+      return { url: cached.url, source: 'cache', ...(cached.webUrl && { webUrl: cached.webUrl }) };
+    }
+
+    const zone = await this.discoverOnce(username, key);
+    return { url: zone.url, source: 'discovered', ...(zone.webUrl && { webUrl: zone.webUrl }) };
+  }
+
+  /**
+   * Ask zoneInformation for a user's zone, bypassing (and refreshing) the cache
+   */
+  async discover(username: string): Promise<ZoneInfo> {
+    const zone = await this.discoverOnce(username, this.getKey(username));
+    return { url: zone.url, ...(zone.webUrl && { webUrl: zone.webUrl }) };
+  }
+
+  /**
+   * Forget a user's zone (after a 401 or a wrong-zone redirect) so the next client rediscovers it
+   */
+  async invalidate(username: string): Promise<void> {
+    await this.loadDiskCache();
+    if (this.zones.delete(this.getKey(username))) {
+      this.logger.info('🌐 Zone cache invalidated', { username: `${username.substring(0, 3)}***` });
+      await this.persist();
+    }
+  }
+
+  /**
+   * Concurrent lookups for the same user share one request
+   */
+  private discoverOnce(username: string, key: string): Promise<CachedZone> {
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.fetchZone(username)
+        .then(async zone => {
+          this.zones.set(key, zone);
+          await this.persist();
+          return zone;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async fetchZone(username: string): Promise<CachedZone> {
+    const endpoint = `${normalizeApiUrl(this.config.discoveryUrl)}v1.0/zoneInformation`;
+    // Errors end up in logs and tool results, so they only show the start of the username
+    const maskedUsername = `${username.substring(0, 3)}***`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}?user=${encodeURIComponent(username)}`, {
+        signal: AbortSignal.timeout(this.config.timeoutMs)
+      });
+    } catch (error) {
+      // The timeout rejects with a DOMException, which isn't always an Error instance
+      const { name, message } = (error ?? {}) as { name?: string; message?: string };
+      const reason = name === 'TimeoutError' ? `no answer within ${this.config.timeoutMs}ms` : message || 'Unknown error';
+      throw new Error(`Zone discovery failed for ${maskedUsername}: ${reason} from ${endpoint}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Zone discovery failed for ${maskedUsername}: HTTP ${response.status} from ${endpoint}`);
+    }
+
+    const zoneInfo = await response.json() as ZoneInfo;
+    if (!zoneInfo?.url) {
+      throw new Error(`Zone discovery for ${maskedUsername} returned no zone URL`);
+    }
+
+    this.logger.info('🌐 Autotask zone discovered', {
+      username: maskedUsername,
+      url: zoneInfo.url
+    });
+
+    return {
+      url: normalizeApiUrl(zoneInfo.url),
+      ...(zoneInfo.webUrl && { webUrl: zoneInfo.webUrl }),
+      discoveredAt: Date.now()
+    };
+  }
+
+  // Usernames are hashed so the on-disk cache doesn't list API users
+  private getKey(username: string): string {
+    return crypto.createHash('sha256').update(username.trim().toLowerCase()).digest('hex').substring(0, 32);
+  }
+
+  private async loadDiskCache(): Promise<void> {
+    if (this.diskLoaded || !this.config.cachePath) {
+      return;
+    }
+    this.diskLoaded = true;
+
+    try {
+      const raw = await fs.readFile(this.config.cachePath, 'utf8');
+      const entries = JSON.parse(raw) as Record<string, CachedZone>;
+      for (const [key, zone] of Object.entries(entries)) {
+        if (!this.zones.has(key)) {
+          this.zones.set(key, zone);
+        }
+      }
+      this.logger.debug(`Zone cache loaded: ${this.zones.size} users`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Ignoring unreadable zone cache file', {
+          path: this.config.cachePath,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  /**
+   * Write the cache file atomically, serializing concurrent writes. Failures are logged, not thrown -
+   * the disk cache is only an optimization.
+   */
+  private persist(): Promise<void> {
+    const cachePath = this.config.cachePath;
+    if (!cachePath) {
+      return Promise.resolve();
+    }
+
+    const write = async () => {
+      const tmpPath = `${cachePath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(cachePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.zones)), 'utf8');
+      await fs.rename(tmpPath, cachePath);
+    };
+
+    this.writeChain = this.writeChain.then(write, write).catch(error => {
+      this.logger.warn('Failed to write zone cache file', {
+        path: cachePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+    return this.writeChain;
+  }
+}
+
+/**
+ * Normalize an Autotask API URL to the …/ATServicesRest/ base the client expects
+ * (accepts URLs with or without a trailing version segment such as /V1.0/)
+ */
+export function normalizeApiUrl(apiUrl: string): string {
+  const withoutVersion = apiUrl.trim().replace(/\/v\d+(\.\d+)?\/?$/i, '');
+  return withoutVersion.endsWith('/') ? withoutVersion : `${withoutVersion}/`;
+}
@@ -6,8 +6,10 @@ import express from 'express';
 import cors from 'cors';
 import { AutotaskMcpServer } from './mcp/server.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { Logger } from './utils/logger.js';
 import { loadEnvironmentConfig, mergeWithMcpConfig, createMultiTenantConfig } from './utils/config.js';
+import { SessionAuthenticator, SessionAuthError, SessionTenant } from './services/session-auth.service.js';
 
 export class AutotaskSseServer {
   private app: express.Application;
@@ -15,6 +17,9 @@ export class AutotaskSseServer {
   private logger: Logger;
   private port: number;
   private transports: Map<string, SSEServerTransport> = new Map();
+  private sessionTenants: Map<string, SessionTenant> = new Map();
+  private sessionAuth: SessionAuthenticator;
+  private multiTenant: boolean;
 
   constructor(port: number = 3999) {
     this.port = port;
@@ -28,7 +33,7 @@ export class AutotaskSseServer {
     if (envConfig.multiTenant?.enabled) {
       // Multi-tenant configuration
       this.logger.info('🏢 Starting in MULTI-TENANT mode');
-      this.logger.info('   Credentials will be required per-request via _tenant argument');
+      this.logger.info('   Credentials via GET /sse Authorization header, or per-request via _tenant argument');
       
       const configOptions: any = {
         name: envConfig.server.name,
@@ -43,6 +48,30 @@ export class AutotaskSseServer {
       if (envConfig.multiTenant.sessionTimeout) {
         configOptions.sessionTimeout = envConfig.multiTenant.sessionTimeout;
       }
+      if (envConfig.multiTenant.tenantRegistry) {
+        configOptions.tenantRegistry = envConfig.multiTenant.tenantRegistry;
+      }
+      if (envConfig.rateLimit) {
+        configOptions.rateLimit = envConfig.rateLimit;
+      }
+      if (envConfig.retry) {
+        configOptions.retry = envConfig.retry;
+      }
+      if (envConfig.circuitBreaker) {
+        configOptions.circuitBreaker = envConfig.circuitBreaker;
+      }
+      if (envConfig.zoneDiscovery) {
+        configOptions.zoneDiscovery = envConfig.zoneDiscovery;
+      }
+      if (envConfig.countCache) {
+        configOptions.countCache = envConfig.countCache;
+      }
+      if (envConfig.metadataCache) {
+        configOptions.metadataCache = envConfig.metadataCache;
+      }
+      if (envConfig.policy) {
+        configOptions.policy = envConfig.policy;
+      }
       mcpConfig = createMultiTenantConfig(configOptions);
     } else {
       // Single-tenant mode - validate credentials
@@ -70,6 +99,8 @@ export class AutotaskSseServer {
 
     // Initialize MCP server
     this.mcpServer = new AutotaskMcpServer(mcpConfig, this.logger);
+    this.multiTenant = !!envConfig.multiTenant?.enabled;
+    this.sessionAuth = new SessionAuthenticator(envConfig.sseSession ?? {}, this.mcpServer.getTenantRegistry(), this.logger);
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -131,10 +162,34 @@ export class AutotaskSseServer {
     });
 
     // SSE endpoint - establishes the Server-Sent Events connection
-    this.app.get('/sse', (_req, res) => {
+    this.app.get('/sse', async (_req, res) => {
       try {
         this.logger.info('🔌 New SSE connection request');
 
+        // Bind the tenant for the whole session, if the client authenticated
+        let sessionTenant: SessionTenant | undefined;
+        try {
+          sessionTenant = await this.sessionAuth.authenticate(_req.get('Authorization'), _req.query.mode as string | undefined);
+        } catch (error) {
+          if (!(error instanceof SessionAuthError)) throw error;
+          this.logger.warn('🔐 Rejected SSE connection', { clientIP: _req.ip, error: error.message });
+          res.status(401).json({
+            success: false,
+            error: error.message,
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+
+        if (!sessionTenant && this.multiTenant && this.sessionAuth.perCallTenant === 'forbid') {
+          res.status(401).json({
+            success: false,
+            error: 'Authorization required: send Bearer <session token> or Basic tenantId:accessKey (per-call _tenant is disabled)',
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+
         // Create SSE transport with POST endpoint for client messages
         const transport = new SSEServerTransport('/messages', res);
         const sessionId = transport.sessionId;
@@ -143,11 +198,16 @@ export class AutotaskSseServer {
           sessionId,
           clientIP: _req.ip,
           userAgent: _req.headers['user-agent'],
+          tenantId: sessionTenant?.tenantId,
+          mode: sessionTenant?.mode,
           totalActiveSessions: this.transports.size
         });
 
-        // Store transport for message handling
+        // Store transport (and bound tenant) for message handling
         this.transports.set(sessionId, transport);
+        if (sessionTenant) {
+          this.sessionTenants.set(sessionId, sessionTenant);
+        }
 
         // Handle client disconnect
         res.on('close', () => {
@@ -156,6 +216,7 @@ export class AutotaskSseServer {
             remainingSessions: this.transports.size - 1
           });
           this.transports.delete(sessionId);
+          this.sessionTenants.delete(sessionId);
         });
 
         res.on('error', (error) => {
@@ -165,6 +226,7 @@ export class AutotaskSseServer {
             stack: error.stack
           });
           this.transports.delete(sessionId);
+          this.sessionTenants.delete(sessionId);
         });
 
         // Connect MCP server to this transport
@@ -175,6 +237,7 @@ export class AutotaskSseServer {
             stack: error.stack
           });
           this.transports.delete(sessionId);
+          this.sessionTenants.delete(sessionId);
         });
 
       } catch (error) {
@@ -190,6 +253,26 @@ export class AutotaskSseServer {
       }
     });
 
+    // Exchange tenant credentials for a session token to present at GET /sse
+    this.app.post('/auth/session-token', async (req, res) => {
+      try {
+        const tenantData = req.body?._tenant || req.body?.tenant || req.body?.credentials || req.body || {};
+        const token = await this.sessionAuth.issueToken(tenantData);
+        res.status(201).json({
+          success: true,
+          data: token,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to issue session token';
+        res.status(error instanceof SessionAuthError ? 401 : 500).json({
+          success: false,
+          error: message,
+          timestamp: new Date().toISOString()
+        });
+      }
+    });
+
     // POST endpoint - handles client-to-server messages
     this.app.post('/messages', async (req, res) => {
       const startTime = Date.now();
@@ -263,6 +346,28 @@ export class AutotaskSseServer {
           });
         }
 
+        const args = req.body?.params?.arguments;
+        if (args && (args._tenant || args.tenant || args.credentials || args.tenants) && this.sessionAuth.perCallTenant === 'forbid') {
+          this.logger.warn('🔐 Rejected per-call tenant credentials', { sessionId, messageId: req.body?.id });
+          return res.status(403).json({
+            success: false,
+            error: 'Per-call _tenant is disabled on this server; the tenant is bound when the session connects',
+            timestamp: new Date().toISOString()
+          });
+        }
+
+        // Hand the bound tenant to the MCP request handlers (arrives as extra.authInfo)
+        const sessionTenant = this.sessionTenants.get(sessionId);
+        if (sessionTenant) {
+          const auth: AuthInfo = {
+            token: sessionId,
+            clientId: sessionTenant.tenantId,
+            scopes: [sessionTenant.mode],
+            extra: { tenant: sessionTenant.tenant }
+          };
+          Object.assign(req, { auth });
+        }
+
         this.logger.info(`🔄 Processing MCP message for session ${sessionId}`, {
           sessionId,
           messageId: req.body?.id,
@@ -310,7 +415,8 @@ export class AutotaskSseServer {
         transport: 'SSE (Server-Sent Events)',
         endpoints: {
           'GET /health': 'Server health check',
-          'GET /sse': 'Establish SSE connection for MCP communication',
+          'GET /sse': 'Establish SSE connection for MCP communication (Authorization header binds a tenant to the session; ?mode=read narrows it)',
+          'POST /auth/session-token': 'Exchange tenant credentials for a session token to use as Bearer at GET /sse',
           'POST /messages': 'Send MCP messages to server (used by MCP clients)',
           'GET /api/docs': 'This documentation'
         },
@@ -321,7 +427,8 @@ export class AutotaskSseServer {
         },
         multiTenant: {
           enabled: process.env.MULTI_TENANT_ENABLED === 'true',
-          description: 'Include tenant credentials in MCP tool arguments for multi-tenant mode'
+          description: 'Bind a tenant at GET /sse (Authorization: Bearer <session token> or Basic tenantId:accessKey), or include tenant credentials in MCP tool arguments',
+          perCallTenant: this.sessionAuth.perCallTenant
         }
       });
     });
@@ -331,6 +438,8 @@ export class AutotaskSseServer {
       const sessions = Array.from(this.transports.keys()).map(sessionId => ({
         sessionId,
         connected: true,
+        tenantId: this.sessionTenants.get(sessionId)?.tenantId ?? null,
+        mode: this.sessionTenants.get(sessionId)?.mode ?? null,
         timestamp: new Date().toISOString()
       }));
 
@@ -349,7 +458,7 @@ export class AutotaskSseServer {
       res.status(404).json({
         success: false,
         error: 'Endpoint not found',
-        availableEndpoints: ['/health', '/sse', '/messages', '/api/docs', '/api/sessions'],
+        availableEndpoints: ['/health', '/sse', '/auth/session-token', '/messages', '/api/docs', '/api/sessions'],
         timestamp: new Date().toISOString()
       });
     });
@@ -365,7 +474,7 @@ export class AutotaskSseServer {
         this.logger.info(`Documentation: http://localhost:${this.port}/api/docs`);
         
         if (process.env.MULTI_TENANT_ENABLED === 'true') {
-          this.logger.info('Multi-tenant mode enabled - provide credentials in tool arguments');
+          this.logger.info('Multi-tenant mode enabled - bind a tenant at /sse or provide credentials in tool arguments');
         }
         
         resolve();
@@ -19,7 +19,9 @@ export const PAGINATION_CONFIG = {
   /** Informational: max pages recommended per conversation turn */
   MAX_PAGES_PER_CALL: 5,
   /** Informational: max items per conversation turn (5 pages x 200) */
-  MAX_ITEMS_PER_CALL: 1000
+  MAX_ITEMS_PER_CALL: 1000,
+  /** Max pages followed from page 1 when a page number is given instead of a cursor */
+  MAX_PAGE_WALK: 50
 } as const;
 
 // ============================================
@@ -33,7 +35,7 @@ export const PAGINATION_CONFIG = {
 export interface PaginationInfo {
   /** Number of items in current response */
   showing: number;
-  /** Total count of matching items (from Autotask count API or pageDetails) */
+  /** Total count of matching items (from the Autotask count API) */
   total: number;
   /** Whether total is exact or estimated */
   totalKnown: boolean;
@@ -43,11 +45,9 @@ export interface PaginationInfo {
   pageSize: number;
   /** Whether more pages are available */
   hasMore: boolean;
-  /** URL to fetch next page (if available) */
-  nextPageUrl?: string;
-  /** URL to fetch previous page (if available) */
-  prevPageUrl?: string;
-  /** Percentage of total data retrieved */
+  /** Opaque token that fetches the next page (pass back as `cursor`) */
+  nextCursor?: string;
+  /** Percentage of total data retrieved through this page */
   percentComplete: number;
 }
 
@@ -76,24 +76,30 @@ export interface PaginatedResponse<T> {
  * Creates a formatted pagination status message with clear next steps
  */
 export function formatPaginationStatus(pagination: PaginationInfo): string {
+  const firstItem = (pagination.currentPage - 1) * pagination.pageSize + 1;
+  const retrieved = firstItem - 1 + pagination.showing;
+  const range = pagination.currentPage > 1 ? `items ${firstItem}-${retrieved}` : `${pagination.showing}`;
+  const total = pagination.totalKnown ? `${pagination.total}` : `at least ${pagination.total}`;
+
   if (!pagination.hasMore) {
-    return `PAGINATION STATUS: Showing ${pagination.showing} of ${pagination.total} entries (COMPLETE - ALL DATA RETRIEVED)`;
+    return `PAGINATION STATUS: Showing ${range} of ${total} entries (COMPLETE - ALL DATA RETRIEVED)`;
   }
-  
-  const remaining = pagination.total - pagination.showing;
-  const percentRetrieved = pagination.percentComplete.toFixed(1);
-  const nextPage = pagination.currentPage + 1;
-  const totalPagesNeeded = Math.ceil(pagination.total / pagination.pageSize);
-  
-  // Calculate what range the next page will return
-  const nextPageStart = pagination.showing + 1;
-  const nextPageEnd = Math.min(pagination.showing + pagination.pageSize, pagination.total);
-  
-  return `PAGINATION STATUS: Showing ${pagination.showing} of ${pagination.total} entries\n` +
-    `DATA INCOMPLETE: ${percentRetrieved}% retrieved\n` +
-    `REMAINING: ${remaining} more entries\n` +
-    `NEXT STEP: Call same tool with page=${nextPage} to get items ${nextPageStart}-${nextPageEnd}\n` +
-    `FULL RETRIEVAL: Will require ${totalPagesNeeded} total calls (pages 1-${totalPagesNeeded})`;
+
+  const lines = [
+    `PAGINATION STATUS: Showing ${range} of ${total} entries (page ${pagination.currentPage})`,
+    `DATA INCOMPLETE: ${pagination.percentComplete.toFixed(1)}% retrieved`
+  ];
+  if (pagination.totalKnown) {
+    const totalPagesNeeded = Math.ceil(pagination.total / pagination.pageSize);
+    lines.push(
+      `REMAINING: ${pagination.total - retrieved} more entries`,
+      `NEXT STEP: Call same tool with cursor="${pagination.nextCursor}" to get items ${retrieved + 1}-${Math.min(retrieved + pagination.pageSize, pagination.total)}`,
+      `FULL RETRIEVAL: Will require ${totalPagesNeeded} total calls (pages 1-${totalPagesNeeded})`
+    );
+  } else {
+    lines.push(`NEXT STEP: Call same tool with cursor="${pagination.nextCursor}" to get the next ${pagination.pageSize} entries`);
+  }
+  return lines.join('\n');
 }
 
 /**
@@ -104,7 +110,7 @@ export function formatNextAction(pagination: PaginationInfo, toolName: string):
     return '';
   }
   
-  return `REQUIRED ACTION: Call ${toolName} with page=${pagination.currentPage + 1} to retrieve next batch`;
+  return `REQUIRED ACTION: Call ${toolName} with cursor="${pagination.nextCursor}" to retrieve next batch`;
 }
 
 export interface AutotaskCompany {
@@ -470,14 +476,71 @@ export interface AutotaskFilterCondition {
   udf?: boolean;
 }
 
+/**
+ * Group of filter nodes combined with AND or OR. Groups can be nested.
+ */
+export interface AutotaskFilterGroup {
+  op: 'and' | 'or';
+  items: AutotaskFilterNode[];
+}
+
+export type AutotaskFilterNode = AutotaskFilterCondition | AutotaskFilterGroup;
+
+/**
+ * Field definition from the Autotask entityInformation/fields and userDefinedFields endpoints
+ */
+export interface AutotaskFieldInfo {
+  name: string;
+  /** Display label (user-defined fields only) */
+  label?: string;
+  dataType: string;
+  isQueryable: boolean;
+  /** True for user-defined fields (filter with udf: true) */
+  isUdf: boolean;
+  isRequired: boolean;
+  isReadOnly: boolean;
+  isPickList: boolean;
+  /** Entity an ID field points at, e.g. companyID -> Company */
+  referenceEntityType?: string;
+  /** Maximum length of string fields */
+  length?: number;
+  /** Field whose value filters this picklist (e.g. subIssueType depends on issueType) */
+  picklistParentValueField?: string;
+  picklistValues?: AutotaskPicklistValue[];
+}
+
+/**
+ * One choice of a picklist field. Values are configured per Autotask database.
+ */
+export interface AutotaskPicklistValue {
+  value: string;
+  label: string;
+  isActive: boolean;
+  isDefaultValue: boolean;
+  sortOrder?: number;
+  /** Value of the parent field this choice belongs to */
+  parentValue?: string;
+}
+
+/**
+ * All field definitions of one entity for one tenant
+ */
+export interface AutotaskEntityMetadata {
+  entity: string;
+  fields: AutotaskFieldInfo[];
+  fetchedAt: string;
+}
+
 /**
  * Query options matching @apigrate/autotask-restapi format
  */
 export interface AutotaskQueryOptions {
-  filter?: AutotaskFilterCondition[] | Record<string, any>;
+  filter?: AutotaskFilterNode[] | Record<string, any>;
   sort?: string;
   page?: number;
   pageSize?: number;
+  /** Continuation token from a previous page (takes precedence over page) */
+  cursor?: string;
   includeFields?: string[];
 }
 
@@ -505,13 +568,17 @@ export interface AutotaskQueryOptionsExtended extends AutotaskQueryOptions {
 }
 
 // Status enums (commonly used values)
+// Autotask's default ticket statuses. Databases can rename or add statuses - the get_picklist tool
+// returns the real list for a tenant.
 export enum TicketStatus {
   New = 1,
-  InProgress = 5,
   Complete = 5,
   WaitingCustomer = 7,
-  WaitingVendor = 8,
-  Escalated = 9
+  InProgress = 8,
+  WaitingMaterials = 9,
+  Dispatched = 10,
+  Escalated = 11,
+  WaitingVendor = 12
 }
 
 export enum TicketPriority {
@@ -16,7 +16,75 @@ export interface McpServerConfig {
     defaultApiUrl?: string;
     clientPoolSize?: number;
     sessionTimeout?: number;
+    // Encrypted tenant registry - lets callers send tenantId + accessKey instead of raw credentials
+    tenantRegistry?: {
+      storePath: string;
+      encryptionKey: string;
+    };
   };
+  // Autotask API rate limiting - per-tenant hourly budget and concurrency limits
+  rateLimit?: RateLimitConfig;
+  // Retries for transient Autotask failures (429, 5xx, dropped connections)
+  retry?: RetryConfig;
+  // Per-tenant circuit breaker for Autotask outages, auth failures and throttling
+  circuitBreaker?: CircuitBreakerConfig;
+  // Autotask zone discovery (used when no apiUrl is configured for a user)
+  zoneDiscovery?: ZoneDiscoveryConfig;
+  // How long /query/count totals are reused for the same filter
+  countCache?: CountCacheConfig;
+  // How long entity field definitions and picklists are reused per tenant
+  metadataCache?: MetadataCacheConfig;
+  // Tool policy file (allowed tools/entities, page size limits)
+  policy?: PolicyConfig;
+}
+
+// Declarative tool/entity policies per tenant and access key
+export interface PolicyConfig {
+  path?: string;
+}
+
+// Tenant binding for SSE MCP sessions (SSE server only)
+export interface SseSessionConfig {
+  perCallTenant?: 'allow' | 'forbid';
+  tokenTtlMs?: number;
+}
+
+export interface MetadataCacheConfig {
+  ttlMs?: number;
+}
+
+export interface CountCacheConfig {
+  ttlMs?: number;
+  maxEntries?: number;
+}
+
+export interface ZoneDiscoveryConfig {
+  discoveryUrl?: string;
+  cacheTtlMs?: number;
+  timeoutMs?: number;
+  cachePath?: string;
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold?: number;
+  cooldownMs?: number;
+  halfOpenMaxProbes?: number;
+  successThreshold?: number;
+}
+
+export interface RetryConfig {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  retryBudgetPerMinute?: number;
+}
+
+export interface RateLimitConfig {
+  hourlyLimit?: number;
+  maxConcurrentPerEndpoint?: number;
+  maxConcurrentTotal?: number;
+  maxQueueWaitMs?: number;
+  maxQueuedPerTenant?: number;
 }
 
 // New: Per-request authentication
@@ -30,12 +98,17 @@ export interface AutotaskCredentials {
 // New: Tenant context for requests
 export interface TenantContext {
   tenantId: string;
-  credentials: AutotaskCredentials;
+  // Raw credentials, or resolved server-side from the tenant registry via accessKey
+  credentials?: AutotaskCredentials;
+  // Tenant-scoped access key issued by the tenant registry
+  accessKey?: string;
   sessionId?: string;
   // User impersonation - which user this session acts as
   impersonationResourceId?: number;
   // Access mode - restricts what operations this tenant can perform
   mode?: 'read' | 'write';
+  // Per-request idempotency key for creates - enables safe retries and de-duplication
+  idempotencyKey?: string;
 }
 
 // Enhanced tool call with tenant context
@@ -1,7 +1,7 @@
 // Configuration Utility
 // Handles loading configuration from environment variables and MCP client arguments
 
-import { McpServerConfig } from '../types/mcp.js';
+import { McpServerConfig, RateLimitConfig, RetryConfig, CircuitBreakerConfig, ZoneDiscoveryConfig, CountCacheConfig, MetadataCacheConfig, SseSessionConfig, PolicyConfig } from '../types/mcp.js';
 import { LogLevel } from './logger.js';
 
 export interface EnvironmentConfig {
@@ -24,6 +24,24 @@ export interface EnvironmentConfig {
     defaultApiUrl?: string;
     clientPoolSize?: number;
     sessionTimeout?: number;
+    tenantRegistry?: {
+      storePath: string;
+      encryptionKey: string;
+    };
+  };
+  rateLimit?: RateLimitConfig;
+  retry?: RetryConfig;
+  circuitBreaker?: CircuitBreakerConfig;
+  zoneDiscovery?: ZoneDiscoveryConfig;
+  countCache?: CountCacheConfig;
+  metadataCache?: MetadataCacheConfig;
+  sseSession?: SseSessionConfig;
+  policy?: PolicyConfig;
+  // HTTP server: persist SSE polling sessions across restarts
+  pollingStore?: {
+    storePath: string;
+    encryptionKey: string;
+    sessionTtlMs?: number;
   };
 }
 
@@ -66,10 +84,89 @@ export function loadEnvironmentConfig(): EnvironmentConfig {
       enabled: true,
       ...(process.env.MULTI_TENANT_DEFAULT_API_URL && { defaultApiUrl: process.env.MULTI_TENANT_DEFAULT_API_URL }),
       ...(process.env.MULTI_TENANT_POOL_SIZE && { clientPoolSize: parseInt(process.env.MULTI_TENANT_POOL_SIZE, 10) }),
-      ...(process.env.MULTI_TENANT_SESSION_TIMEOUT && { sessionTimeout: parseInt(process.env.MULTI_TENANT_SESSION_TIMEOUT, 10) })
+      ...(process.env.MULTI_TENANT_SESSION_TIMEOUT && { sessionTimeout: parseInt(process.env.MULTI_TENANT_SESSION_TIMEOUT, 10) }),
+      ...(process.env.TENANT_REGISTRY_KEY && {
+        tenantRegistry: {
+          storePath: process.env.TENANT_REGISTRY_PATH || './data/tenants.enc.json',
+          encryptionKey: process.env.TENANT_REGISTRY_KEY
+        }
+      })
+    };
+  }
+
+  if (process.env.POLLING_STORE_KEY) {
+    config.pollingStore = {
+      storePath: process.env.POLLING_STORE_PATH || './data/polling-sessions.enc.json',
+      encryptionKey: process.env.POLLING_STORE_KEY,
+      ...(process.env.POLLING_SESSION_TTL_MS && { sessionTtlMs: parseInt(process.env.POLLING_SESSION_TTL_MS, 10) })
     };
   }
 
+  const rateLimit: RateLimitConfig = {
+    ...(process.env.RATE_LIMIT_HOURLY && { hourlyLimit: parseInt(process.env.RATE_LIMIT_HOURLY, 10) }),
+    ...(process.env.RATE_LIMIT_CONCURRENT_PER_ENDPOINT && { maxConcurrentPerEndpoint: parseInt(process.env.RATE_LIMIT_CONCURRENT_PER_ENDPOINT, 10) }),
+    ...(process.env.RATE_LIMIT_CONCURRENT_TOTAL && { maxConcurrentTotal: parseInt(process.env.RATE_LIMIT_CONCURRENT_TOTAL, 10) }),
+    ...(process.env.RATE_LIMIT_MAX_QUEUE_WAIT_MS && { maxQueueWaitMs: parseInt(process.env.RATE_LIMIT_MAX_QUEUE_WAIT_MS, 10) }),
+    ...(process.env.RATE_LIMIT_MAX_QUEUED_PER_TENANT && { maxQueuedPerTenant: parseInt(process.env.RATE_LIMIT_MAX_QUEUED_PER_TENANT, 10) })
+  };
+  if (Object.keys(rateLimit).length > 0) {
+    config.rateLimit = rateLimit;
+  }
+
+  const retry: RetryConfig = {
+    ...(process.env.RETRY_MAX_ATTEMPTS && { maxAttempts: parseInt(process.env.RETRY_MAX_ATTEMPTS, 10) }),
+    ...(process.env.RETRY_BASE_DELAY_MS && { baseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS, 10) }),
+    ...(process.env.RETRY_MAX_DELAY_MS && { maxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS, 10) }),
+    ...(process.env.RETRY_BUDGET_PER_MINUTE && { retryBudgetPerMinute: parseInt(process.env.RETRY_BUDGET_PER_MINUTE, 10) })
+  };
+  if (Object.keys(retry).length > 0) {
+    config.retry = retry;
+  }
+
+  const circuitBreaker: CircuitBreakerConfig = {
+    ...(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD && { failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD, 10) }),
+    ...(process.env.CIRCUIT_BREAKER_COOLDOWN_MS && { cooldownMs: parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS, 10) }),
+    ...(process.env.CIRCUIT_BREAKER_HALF_OPEN_PROBES && { halfOpenMaxProbes: parseInt(process.env.CIRCUIT_BREAKER_HALF_OPEN_PROBES, 10) }),
+    ...(process.env.CIRCUIT_BREAKER_SUCCESS_THRESHOLD && { successThreshold: parseInt(process.env.CIRCUIT_BREAKER_SUCCESS_THRESHOLD, 10) })
+  };
+  if (Object.keys(circuitBreaker).length > 0) {
+    config.circuitBreaker = circuitBreaker;
+  }
+
+  const zoneDiscovery: ZoneDiscoveryConfig = {
+    ...(process.env.ZONE_DISCOVERY_URL && { discoveryUrl: process.env.ZONE_DISCOVERY_URL }),
+    ...(process.env.ZONE_CACHE_TTL_MS && { cacheTtlMs: parseInt(process.env.ZONE_CACHE_TTL_MS, 10) }),
+    ...(process.env.ZONE_DISCOVERY_TIMEOUT_MS && { timeoutMs: parseInt(process.env.ZONE_DISCOVERY_TIMEOUT_MS, 10) }),
+    ...(process.env.ZONE_CACHE_PATH && { cachePath: process.env.ZONE_CACHE_PATH })
+  };
+  if (Object.keys(zoneDiscovery).length > 0) {
+    config.zoneDiscovery = zoneDiscovery;
+  }
+
+  const countCache: CountCacheConfig = {
+    ...(process.env.COUNT_CACHE_TTL_MS && { ttlMs: parseInt(process.env.COUNT_CACHE_TTL_MS, 10) }),
+    ...(process.env.COUNT_CACHE_MAX_ENTRIES && { maxEntries: parseInt(process.env.COUNT_CACHE_MAX_ENTRIES, 10) })
+  };
+  if (Object.keys(countCache).length > 0) {
+    config.countCache = countCache;
+  }
+
+  if (process.env.METADATA_CACHE_TTL_MS) {
+    config.metadataCache = { ttlMs: parseInt(process.env.METADATA_CACHE_TTL_MS, 10) };
+  }
+
+  if (process.env.TOOL_POLICY_PATH) {
+    config.policy = { path: process.env.TOOL_POLICY_PATH };
+  }
+
+  const sseSession: SseSessionConfig = {
+    ...(process.env.SSE_PER_CALL_TENANT && { perCallTenant: process.env.SSE_PER_CALL_TENANT === 'forbid' ? 'forbid' : 'allow' }),
+    ...(process.env.SSE_SESSION_TOKEN_TTL_MS && { tokenTtlMs: parseInt(process.env.SSE_SESSION_TOKEN_TTL_MS, 10) })
+  };
+  if (Object.keys(sseSession).length > 0) {
+    config.sseSession = sseSession;
+  }
+
   return config;
 }
 
@@ -82,6 +179,17 @@ export function createMultiTenantConfig(options?: {
   defaultApiUrl?: string;
   clientPoolSize?: number;
   sessionTimeout?: number;
+  tenantRegistry?: {
+    storePath: string;
+    encryptionKey: string;
+  };
+  rateLimit?: RateLimitConfig;
+  retry?: RetryConfig;
+  circuitBreaker?: CircuitBreakerConfig;
+  zoneDiscovery?: ZoneDiscoveryConfig;
+  countCache?: CountCacheConfig;
+  metadataCache?: MetadataCacheConfig;
+  policy?: PolicyConfig;
 }): McpServerConfig {
   const config: McpServerConfig = {
     name: options?.name || 'autotask-mcp-multi-tenant',
@@ -97,6 +205,38 @@ export function createMultiTenantConfig(options?: {
     config.multiTenant!.defaultApiUrl = options.defaultApiUrl;
   }
 
+  if (options?.tenantRegistry) {
+    config.multiTenant!.tenantRegistry = options.tenantRegistry;
+  }
+
+  if (options?.rateLimit) {
+    config.rateLimit = options.rateLimit;
+  }
+
+  if (options?.retry) {
+    config.retry = options.retry;
+  }
+
+  if (options?.circuitBreaker) {
+    config.circuitBreaker = options.circuitBreaker;
+  }
+
+  if (options?.zoneDiscovery) {
+    config.zoneDiscovery = options.zoneDiscovery;
+  }
+
+  if (options?.countCache) {
+    config.countCache = options.countCache;
+  }
+
+  if (options?.metadataCache) {
+    config.metadataCache = options.metadataCache;
+  }
+
+  if (options?.policy) {
+    config.policy = options.policy;
+  }
+
   return config;
 }
 
@@ -120,6 +260,34 @@ export function mergeWithMcpConfig(envConfig: EnvironmentConfig, mcpArgs?: Recor
     serverConfig.multiTenant = envConfig.multiTenant;
   }
 
+  if (envConfig.rateLimit) {
+    serverConfig.rateLimit = envConfig.rateLimit;
+  }
+
+  if (envConfig.retry) {
+    serverConfig.retry = envConfig.retry;
+  }
+
+  if (envConfig.circuitBreaker) {
+    serverConfig.circuitBreaker = envConfig.circuitBreaker;
+  }
+
+  if (envConfig.zoneDiscovery) {
+    serverConfig.zoneDiscovery = envConfig.zoneDiscovery;
+  }
+
+  if (envConfig.countCache) {
+    serverConfig.countCache = envConfig.countCache;
+  }
+
+  if (envConfig.metadataCache) {
+    serverConfig.metadataCache = envConfig.metadataCache;
+  }
+
+  if (envConfig.policy) {
+    serverConfig.policy = envConfig.policy;
+  }
+
   return serverConfig;
 }
 
@@ -169,10 +337,59 @@ Single-Tenant Mode (Default):
 
 Multi-Tenant Mode:
   MULTI_TENANT_ENABLED     - Enable multi-tenant mode (true/false) [DEFAULT: false]
-  MULTI_TENANT_DEFAULT_API_URL - Default API URL for tenants
+  MULTI_TENANT_DEFAULT_API_URL - API URL for tenants that send no apiUrl (skips zone discovery)
   MULTI_TENANT_POOL_SIZE   - Client pool size [DEFAULT: 50]
   MULTI_TENANT_SESSION_TIMEOUT - Session timeout in ms [DEFAULT: 1800000 (30 min)]
 
+Tenant Registry (Multi-Tenant Mode):
+  TENANT_REGISTRY_KEY      - Secret used to encrypt the tenant store (enables the registry)
+  TENANT_REGISTRY_PATH     - Encrypted tenant store file [DEFAULT: ./data/tenants.enc.json]
+  TENANT_ADMIN_TOKEN       - Bearer token for /api/admin/tenants routes (admin routes disabled if unset)
+
+Rate Limiting (per tenant, applies to every Autotask API call):
+  RATE_LIMIT_HOURLY        - Hourly request budget [DEFAULT: 10000]
+  RATE_LIMIT_CONCURRENT_PER_ENDPOINT - Concurrent calls per entity endpoint [DEFAULT: 3]
+  RATE_LIMIT_CONCURRENT_TOTAL - Concurrent calls across all tenants [DEFAULT: 20]
+  RATE_LIMIT_MAX_QUEUE_WAIT_MS - Longest a call may queue before it is rejected [DEFAULT: 30000]
+  RATE_LIMIT_MAX_QUEUED_PER_TENANT - Queued calls per tenant before rejecting [DEFAULT: 100]
+
+Retries (429, 5xx and dropped connections; creates only with an idempotency key):
+  RETRY_MAX_ATTEMPTS       - Attempts per API call, including the first [DEFAULT: 3]
+  RETRY_BASE_DELAY_MS      - Initial backoff delay [DEFAULT: 500]
+  RETRY_MAX_DELAY_MS       - Longest backoff or Retry-After to wait for [DEFAULT: 30000]
+  RETRY_BUDGET_PER_MINUTE  - Retries allowed per tenant per minute [DEFAULT: 30]
+
+Circuit Breaker (per tenant; trips on auth, throttling, server and network errors):
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD - Consecutive failures before opening [DEFAULT: 5]
+  CIRCUIT_BREAKER_COOLDOWN_MS - Time open before probing [DEFAULT: 30000]
+  CIRCUIT_BREAKER_HALF_OPEN_PROBES - Concurrent probe requests while half-open [DEFAULT: 1]
+  CIRCUIT_BREAKER_SUCCESS_THRESHOLD - Successful probes needed to close [DEFAULT: 2]
+
+Zone Discovery (used when no API URL is configured for a user):
+  ZONE_DISCOVERY_URL       - Endpoint asked for zoneInformation [DEFAULT: https://webservices.autotask.net/ATServicesRest/]
+  ZONE_CACHE_TTL_MS        - How long a discovered zone is reused [DEFAULT: 86400000 (24 h)]
+  ZONE_DISCOVERY_TIMEOUT_MS - How long to wait for zoneInformation [DEFAULT: 10000]
+  ZONE_CACHE_PATH          - Optional file to persist discovered zones across restarts
+
+Result Totals (Autotask /query/count, cached per tenant and filter):
+  COUNT_CACHE_TTL_MS       - How long a count is reused for the same query; 0 disables [DEFAULT: 30000]
+  COUNT_CACHE_MAX_ENTRIES  - Counts kept across all tenants [DEFAULT: 1000]
+
+Entity Metadata (field definitions and picklists, cached per tenant):
+  METADATA_CACHE_TTL_MS    - How long fetched field definitions are reused [DEFAULT: 3600000 (1 h)]
+
+Tool Policies (per tenant / access key; layered on top of read/write mode):
+  TOOL_POLICY_PATH         - JSON policy file (allow/deny tools and entities, maxPageSize); reloaded on change
+
+SSE Sessions (SSE MCP server; bind a tenant at GET /sse via Authorization header):
+  SSE_PER_CALL_TENANT      - allow or forbid _tenant in tool arguments; forbid requires a bound session [DEFAULT: allow]
+  SSE_SESSION_TOKEN_TTL_MS - Lifetime of tokens issued by POST /auth/session-token [DEFAULT: 3600000 (1 h)]
+
+SSE Polling Persistence (HTTP server; sessions, watermarks and snapshots survive restarts):
+  POLLING_STORE_KEY        - Secret used to encrypt the polling store (enables persistence)
+  POLLING_STORE_PATH       - Encrypted polling store file [DEFAULT: ./data/polling-sessions.enc.json]
+  POLLING_SESSION_TTL_MS   - Stop and forget sessions no client of the tenant has listened to for this long [DEFAULT: 86400000 (24 h)]
+
 Optional Environment Variables:
   AUTOTASK_API_URL         - Autotask API base URL (auto-detected if not provided)
   MCP_SERVER_NAME          - Server name (default: autotask-mcp)
@@ -184,6 +401,8 @@ Multi-Tenant Example:
   MULTI_TENANT_ENABLED=true
   MULTI_TENANT_POOL_SIZE=100
   MULTI_TENANT_SESSION_TIMEOUT=3600000
+  TENANT_REGISTRY_KEY=long-random-string
+  TENANT_ADMIN_TOKEN=another-long-random-string
 
 Single-Tenant Example:
   AUTOTASK_USERNAME=api-user@example.com
@@ -0,0 +1,139 @@
+// Encrypted JSON File
+// Reads and writes one JSON document as an AES-256-GCM envelope (key derived from a secret with scrypt),
+// writing atomically and one write at a time. Used by the tenant registry and the polling store.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface EncryptedJsonFileConfig {
+  filePath: string;
+  encryptionKey: string;
+  label: string;          // Used in error messages, e.g. "tenant registry"
+  keyEnvVar: string;      // Setting that holds the key, named when decryption fails
+}
+
+// On-disk format
+interface EncryptedEnvelope {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class EncryptedJsonFile<T> {
+  private config: EncryptedJsonFileConfig;
+  private salt: Buffer | null = null;
+  private derivedKey: { salt: Buffer; key: Buffer } | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(config: EncryptedJsonFileConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Modification time of the file, or null if it doesn't exist yet
+   */
+  async getMtimeMs(): Promise<number | null> {
+    try {
+      return (await fs.stat(this.config.filePath)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypted contents, or null if nothing was written yet
+   */
+  async read(): Promise<T | null> {
+    let raw;
+    try {
+      raw = await fs.readFile(this.config.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+    return this.decrypt(JSON.parse(raw) as EncryptedEnvelope);
+  }
+
+  /**
+   * Replace the contents atomically (temp file + rename), serializing concurrent writes.
+   * Resolves with the file's new modification time.
+   */
+  write(data: T): Promise<number> {
+    const write = async () => {
+      const envelope = this.encrypt(data);
+      const tmpPath = `${this.config.filePath}.${process.pid}.tmp`;
+
+      await fs.mkdir(path.dirname(this.config.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(envelope), { encoding: 'utf8', mode: 0o600 });
+      await fs.rename(tmpPath, this.config.filePath);
+      return (await fs.stat(this.config.filePath)).mtimeMs;
+    };
+
+    const next = this.writeChain.then(write, write);
+    this.writeChain = next.then(() => undefined, () => undefined);
+    return next;
+  }
+
+  /**
+   * Resolves once all pending writes have finished
+   */
+  whenIdle(): Promise<void> {
+    return this.writeChain;
+  }
+
+  private encrypt(data: T): EncryptedEnvelope {
+    if (!this.salt) {
+      this.salt = crypto.randomBytes(16);
+    }
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getKey(this.salt), iv);
+    const encrypted = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+
+    return {
+      version: 1,
+      salt: this.salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: encrypted.toString('base64')
+    };
+  }
+
+  private decrypt(envelope: EncryptedEnvelope): T {
+    if (envelope.version !== 1) {
+      throw new Error(`Unsupported ${this.config.label} format version: ${envelope.version}`);
+    }
+
+    const salt = Buffer.from(envelope.salt, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getKey(salt), Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+    try {
+      const plain = Buffer.concat([
+        decipher.update(Buffer.from(envelope.data, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+      this.salt = salt;
+      return JSON.parse(plain) as T;
+    } catch {
+      throw new Error(`Failed to decrypt ${this.config.label} - check ${this.config.keyEnvVar}`);
+    }
+  }
+
+  /**
+   * Derive the AES key from the configured secret (cached per salt)
+   */
+  private getKey(salt: Buffer): Buffer {
+    if (!this.derivedKey || !this.derivedKey.salt.equals(salt)) {
+      this.derivedKey = { salt, key: crypto.scryptSync(this.config.encryptionKey, salt, 32) };
+    }
+    return this.derivedKey.key;
+  }
+}
@@ -1,18 +1,82 @@
 /**
  * Mapping Service for Autotask ID-to-Name Resolution
- * Provides cached lookup functionality for company IDs and resource IDs
+ * Provides cached lookup functionality for IDs of companies, resources, contacts and other entities,
+ * through a registry of resolvers. Uncached IDs are looked up in batches with `id in [...]` queries.
+ * Caches are partitioned per tenant so names never leak between Autotask instances
  */
 
 import { AutotaskService } from '../services/autotask.service.js';
+import { TenantContext } from '../types/mcp.js';
 import { Logger } from './logger.js';
 
+export type MappingCacheType =
+  | 'companies'
+  | 'resources'
+  | 'contacts'
+  | 'projects'
+  | 'contracts'
+  | 'configurationItems'
+  | 'queues'
+  | 'departments';
+
+/**
+ * Turns IDs of one kind into display names. By default IDs are fetched from `entity` with
+ * `includeFields`; resolvers for things that aren't entities (e.g. queues) provide `lookup` instead.
+ */
+export interface NameResolver {
+  type: string;
+  entity: string;
+  includeFields?: string[];
+  getName(record: any): string | null;
+  lookup?(ids: number[], tenantContext?: TenantContext): Promise<Map<number, string>>;
+}
+
+export interface MappingCacheEntry {
+  name: string;
+  cachedAt: number;
+}
+
 export interface MappingCache {
-  companies: Map<number, string>;
-  resources: Map<number, string>;
-  lastUpdated: {
-    companies: Date | null;
-    resources: Date | null;
-  };
+  // Cached names per resolver type
+  entries: Map<string, Map<number, MappingCacheEntry>>;
+  // When a type was last bulk-refreshed
+  lastUpdated: Map<string, Date>;
+}
+
+export interface MappingCacheOptions {
+  /** How long a cached name stays valid */
+  ttlMs: number;
+  /** Max cached names per entity type per tenant (least recently used evicted first) */
+  maxEntriesPerType: number;
+}
+
+export interface MappingServiceOptions extends MappingCacheOptions {
+  /** Max tenant partitions kept in memory (least recently used tenant evicted first) */
+  maxTenants: number;
+}
+
+export interface MappingCacheTypeStats {
+  count: number;
+  lastUpdated: Date | null;
+  isValid: boolean;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+export interface MappingCacheStats {
+  companies: MappingCacheTypeStats;
+  resources: MappingCacheTypeStats;
+  [type: string]: MappingCacheTypeStats;
+}
+
+export interface TenantMappingCacheStats {
+  partitionKey: string;
+  tenantId: string | null;
+  ttlMs: number;
+  maxEntriesPerType: number;
+  lastAccessed: Date;
+  types: MappingCacheStats;
 }
 
 export interface MappingResult {
@@ -21,33 +85,77 @@ export interface MappingResult {
   found: boolean;
 }
 
+// Per-tenant cache partition
+interface TenantMappingCache extends MappingCache {
+  tenantId: string | null;
+  options: MappingCacheOptions;
+  lastAccessed: number;
+  counters: Map<string, { hits: number; misses: number; evictions: number }>;
+}
+
+const DEFAULT_MAPPING_OPTIONS: MappingServiceOptions = {
+  ttlMs: 30 * 60 * 1000, // 30 minutes
+  maxEntriesPerType: 5000,
+  maxTenants: 200
+};
+
+const personName = (record: any): string | null =>
+  `${record.firstName || ''} ${record.lastName || ''}`.trim() || null;
+
+const BUILT_IN_RESOLVERS: NameResolver[] = [
+  { type: 'companies', entity: 'Companies', includeFields: ['companyName'], getName: record => record.companyName || null },
+  { type: 'resources', entity: 'Resources', includeFields: ['firstName', 'lastName'], getName: personName },
+  { type: 'contacts', entity: 'Contacts', includeFields: ['firstName', 'lastName'], getName: personName },
+  { type: 'projects', entity: 'Projects', includeFields: ['projectName'], getName: record => record.projectName || null },
+  { type: 'contracts', entity: 'Contracts', includeFields: ['contractName'], getName: record => record.contractName || null },
+  {
+    type: 'configurationItems',
+    entity: 'ConfigurationItems',
+    includeFields: ['referenceTitle', 'referenceNumber', 'serialNumber'],
+    getName: record => record.referenceTitle || record.referenceNumber || record.serialNumber || null
+  },
+  { type: 'departments', entity: 'Departments', includeFields: ['name'], getName: record => record.name || null }
+];
+
 export class MappingService {
   private static instance: MappingService | null = null;
   private static isInitializing: boolean = false;
-  
-  private cache: MappingCache;
+
+  private partitions: Map<string, TenantMappingCache> = new Map();
+  private resolvers: Map<string, NameResolver> = new Map();
+  private tenantOverrides: Map<string, Partial<MappingCacheOptions>> = new Map();
   private autotaskService: AutotaskService;
   private logger: Logger;
-  private cacheExpiryMs: number;
+  private options: MappingServiceOptions;
 
-  private constructor(autotaskService: AutotaskService, logger: Logger, cacheExpiryMs: number = 30 * 60 * 1000) { // 30 minutes default
+  private constructor(autotaskService: AutotaskService, logger: Logger, options: Partial<MappingServiceOptions> = {}) {
     this.autotaskService = autotaskService;
     this.logger = logger;
-    this.cacheExpiryMs = cacheExpiryMs;
-    this.cache = {
-      companies: new Map<number, string>(),
-      resources: new Map<number, string>(),
-      lastUpdated: {
-        companies: null,
-        resources: null,
-      },
-    };
+    this.options = { ...DEFAULT_MAPPING_OPTIONS, ...options };
+
+    for (const resolver of BUILT_IN_RESOLVERS) {
+      this.registerResolver(resolver);
+    }
+    // Queues are a Tickets picklist rather than an entity
+    this.registerResolver({
+      type: 'queues',
+      entity: 'Tickets',
+      getName: () => null,
+      lookup: async (_ids, tenantContext) => {
+        const picklist = await this.autotaskService.getPicklist('Tickets', 'queueID', tenantContext, true);
+        return new Map(picklist.values.map(choice => [Number(choice.value), choice.label]));
+      }
+    });
   }
 
   /**
    * Get singleton instance
    */
-  public static async getInstance(autotaskService: AutotaskService, logger: Logger): Promise<MappingService> {
+  public static async getInstance(
+    autotaskService: AutotaskService,
+    logger: Logger,
+    options?: Partial<MappingServiceOptions>
+  ): Promise<MappingService> {
     if (MappingService.instance) {
       return MappingService.instance;
     }
@@ -67,8 +175,8 @@ export class MappingService {
     }
 
     MappingService.isInitializing = true;
-    MappingService.instance = new MappingService(autotaskService, logger);
-    
+    MappingService.instance = new MappingService(autotaskService, logger, options);
+
     try {
       await MappingService.instance.initializeCache();
     } catch (error) {
@@ -76,7 +184,7 @@ export class MappingService {
       MappingService.isInitializing = false;
       throw error;
     }
-    
+
     MappingService.isInitializing = false;
     return MappingService.instance;
   }
@@ -91,7 +199,8 @@ export class MappingService {
       return;
     }
 
-    if (this.isCacheValid('companies') && this.isCacheValid('resources')) {
+    const cache = this.getPartition(undefined);
+    if (this.isCacheValid(cache, 'companies') && this.isCacheValid(cache, 'resources')) {
       return;
     }
 
@@ -100,49 +209,182 @@ export class MappingService {
       this.refreshCompanyCache(),
       this.refreshResourceCache()
     ]);
-    this.cache.lastUpdated.companies = new Date();
-    this.cache.lastUpdated.resources = new Date();
+    cache.lastUpdated.set('companies', new Date());
+    cache.lastUpdated.set('resources', new Date());
     this.logger.info('Mapping cache initialized successfully', {
-      companies: this.cache.companies.size,
-      resources: this.cache.resources.size
+      companies: this.getEntries(cache, 'companies').size,
+      resources: this.getEntries(cache, 'resources').size
+    });
+  }
+
+  /**
+   * Add (or replace) the resolver for one kind of ID
+   */
+  public registerResolver(resolver: NameResolver): void {
+    this.resolvers.set(resolver.type, resolver);
+  }
+
+  /**
+   * Types that have a registered resolver
+   */
+  public getResolverTypes(): string[] {
+    return Array.from(this.resolvers.keys());
+  }
+
+  /**
+   * Override TTL / size cap for one tenant's cache partition
+   */
+  public configureTenantCache(tenantContext: TenantContext | undefined, options: Partial<MappingCacheOptions>): void {
+    const partitionKey = this.autotaskService.getTenantPartitionKey(tenantContext);
+    this.tenantOverrides.set(partitionKey, { ...this.tenantOverrides.get(partitionKey), ...options });
+
+    const cache = this.partitions.get(partitionKey);
+    if (cache) {
+      cache.options = { ...cache.options, ...options };
+      for (const type of cache.entries.keys()) {
+        this.enforceSizeCap(cache, type);
+      }
+    }
+
+    this.logger.info('Mapping cache options updated for tenant', {
+      tenantId: tenantContext?.tenantId,
+      ...options
     });
   }
 
   /**
-   * Check if cache is valid (not expired)
+   * Get (or create) the cache partition for a tenant, evicting the least recently used tenant if needed
    */
-  private isCacheValid(type: 'companies' | 'resources'): boolean {
-    const lastUpdated = this.cache.lastUpdated[type];
+  private getPartition(tenantContext: TenantContext | undefined): TenantMappingCache {
+    const partitionKey = this.autotaskService.getTenantPartitionKey(tenantContext);
+    let cache = this.partitions.get(partitionKey);
+
+    if (cache) {
+      // Re-insert to keep Map order = least recently used first
+      this.partitions.delete(partitionKey);
+    } else {
+      cache = {
+        tenantId: tenantContext?.tenantId ?? null,
+        options: {
+          ttlMs: this.options.ttlMs,
+          maxEntriesPerType: this.options.maxEntriesPerType,
+          ...this.tenantOverrides.get(partitionKey)
+        },
+        entries: new Map(),
+        lastUpdated: new Map(),
+        lastAccessed: Date.now(),
+        counters: new Map()
+      };
+
+      while (this.partitions.size >= this.options.maxTenants) {
+        const oldestKey = this.partitions.keys().next().value as string;
+        this.partitions.delete(oldestKey);
+        this.logger.debug(`Evicted least recently used tenant mapping cache: ${oldestKey.substring(0, 8)}...`);
+      }
+    }
+
+    cache.lastAccessed = Date.now();
+    this.partitions.set(partitionKey, cache);
+    return cache;
+  }
+
+  private getEntries(cache: TenantMappingCache, type: string): Map<number, MappingCacheEntry> {
+    let entries = cache.entries.get(type);
+    if (!entries) {
+      entries = new Map();
+      cache.entries.set(type, entries);
+    }
+    return entries;
+  }
+
+  private getCounters(cache: TenantMappingCache, type: string): { hits: number; misses: number; evictions: number } {
+    let counters = cache.counters.get(type);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, evictions: 0 };
+      cache.counters.set(type, counters);
+    }
+    return counters;
+  }
+
+  /**
+   * Check if a bulk-refreshed cache is valid (not expired)
+   */
+  private isCacheValid(cache: TenantMappingCache, type: string): boolean {
+    const lastUpdated = cache.lastUpdated.get(type);
     if (!lastUpdated) {
       return false;
     }
 
     const now = new Date();
     const timeDiff = now.getTime() - lastUpdated.getTime();
-    return timeDiff < this.cacheExpiryMs;
+    return timeDiff < cache.options.ttlMs;
+  }
+
+  /**
+   * Read a cached name, honoring TTL and refreshing its LRU position
+   */
+  private getCached(cache: TenantMappingCache, type: string, id: number): string | null {
+    const entries = this.getEntries(cache, type);
+    const counters = this.getCounters(cache, type);
+    const entry = entries.get(id);
+    if (!entry) {
+      counters.misses++;
+      return null;
+    }
+
+    entries.delete(id);
+    if (Date.now() - entry.cachedAt >= cache.options.ttlMs) {
+      counters.misses++;
+      return null;
+    }
+
+    entries.set(id, entry);
+    counters.hits++;
+    return entry.name;
+  }
+
+  /**
+   * Store a name, evicting least recently used entries over the size cap
+   */
+  private setCached(cache: TenantMappingCache, type: string, id: number, name: string): void {
+    const entries = this.getEntries(cache, type);
+    entries.delete(id);
+    entries.set(id, { name, cachedAt: Date.now() });
+    this.enforceSizeCap(cache, type);
+  }
+
+  private enforceSizeCap(cache: TenantMappingCache, type: string): void {
+    const entries = this.getEntries(cache, type);
+    while (entries.size > cache.options.maxEntriesPerType) {
+      const oldestId = entries.keys().next().value as number;
+      entries.delete(oldestId);
+      this.getCounters(cache, type).evictions++;
+    }
   }
 
   /**
    * Get company name by ID with direct lookup (not fetching all companies)
    */
-  public async getCompanyName(companyId: number, tenantContext: any): Promise<string | null> {
+  public async getCompanyName(companyId: number, tenantContext?: TenantContext): Promise<string | null> {
     try {
+      const cache = this.getPartition(tenantContext);
+
       // Try cache first
-      const cachedName = this.cache.companies.get(companyId);
+      const cachedName = this.getCached(cache, 'companies', companyId);
       if (cachedName) {
         return cachedName;
       }
-      
+
       // Direct API lookup by ID (efficient - single API call)
       this.logger.info(`Company ${companyId} not in cache, doing direct ID lookup`);
       const company = await this.autotaskService.getCompany(companyId, tenantContext);
-      
+
       if (company && company.companyName) {
         // Add to cache for future use
-        this.cache.companies.set(companyId, company.companyName);
+        this.setCached(cache, 'companies', companyId, company.companyName);
         return company.companyName;
       }
-      
+
       return null;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -154,24 +396,26 @@ export class MappingService {
   /**
    * Get resource name by ID with direct lookup
    */
-  public async getResourceName(resourceId: number, tenantContext: any): Promise<string | null> {
+  public async getResourceName(resourceId: number, tenantContext?: TenantContext): Promise<string | null> {
     try {
+      const cache = this.getPartition(tenantContext);
+
       // Try cache first
-      const cachedName = this.cache.resources.get(resourceId);
+      const cachedName = this.getCached(cache, 'resources', resourceId);
       if (cachedName) {
         return cachedName;
       }
-      
+
       // Direct API lookup by ID
       this.logger.info(`Resource ${resourceId} not in cache, doing direct ID lookup`);
       const resource = await this.autotaskService.getResource(resourceId, tenantContext);
       if (resource && resource.firstName && resource.lastName) {
         const fullName = `${resource.firstName} ${resource.lastName}`.trim();
         // Add to cache for future use
-        this.cache.resources.set(resourceId, fullName);
+        this.setCached(cache, 'resources', resourceId, fullName);
         return fullName;
       }
-      
+
       return null;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -183,21 +427,84 @@ export class MappingService {
   /**
    * Get multiple company names in a single call
    */
-  async getCompanyNames(companyIds: number[], tenantContext: any): Promise<(string | null)[]> {
-    const results = await Promise.all(
-      companyIds.map(id => this.getCompanyName(id, tenantContext))
-    );
-    return results;
+  async getCompanyNames(companyIds: number[], tenantContext?: TenantContext): Promise<(string | null)[]> {
+    const names = await this.getNames('companies', companyIds, tenantContext);
+    return companyIds.map(id => names.get(id) ?? null);
   }
 
   /**
    * Get multiple resource names in a single call
    */
-  async getResourceNames(resourceIds: number[], tenantContext: any): Promise<(string | null)[]> {
-    const results = await Promise.all(
-      resourceIds.map(id => this.getResourceName(id, tenantContext))
-    );
-    return results;
+  async getResourceNames(resourceIds: number[], tenantContext?: TenantContext): Promise<(string | null)[]> {
+    const names = await this.getNames('resources', resourceIds, tenantContext);
+    return resourceIds.map(id => names.get(id) ?? null);
+  }
+
+  /**
+   * Get the name for one ID of any registered type (contacts, projects, queues...)
+   */
+  async getName(type: string, id: number, tenantContext?: TenantContext): Promise<string | null> {
+    return (await this.getNames(type, [id], tenantContext)).get(id) ?? null;
+  }
+
+  /**
+   * Resolve many IDs of one type. Cached names are served from the tenant's cache; the rest are
+   * fetched together (`id in [...]`, chunked) instead of one call per ID. Best effort: IDs that
+   * can't be resolved are missing from the result.
+   */
+  async getNames(type: string, ids: number[], tenantContext?: TenantContext): Promise<Map<number, string>> {
+    const resolver = this.resolvers.get(type);
+    if (!resolver) {
+      throw new Error(`No name resolver registered for ${type} (known: ${this.getResolverTypes().join(', ')})`);
+    }
+
+    const cache = this.getPartition(tenantContext);
+    const names = new Map<number, string>();
+    const missing: number[] = [];
+    for (const id of new Set(ids)) {
+      if (!Number.isInteger(id) || id <= 0) {
+        continue;
+      }
+      const cachedName = this.getCached(cache, type, id);
+      if (cachedName) {
+        names.set(id, cachedName);
+      } else {
+        missing.push(id);
+      }
+    }
+    if (missing.length === 0) {
+      return names;
+    }
+
+    try {
+      this.logger.info(`${missing.length} ${type} not in cache, doing batch lookup`);
+      const found = resolver.lookup
+        ? await resolver.lookup(missing, tenantContext)
+        : await this.lookupRecords(resolver, missing, tenantContext);
+      for (const id of missing) {
+        const name = found.get(id);
+        if (name) {
+          this.setCached(cache, type, id, name);
+          names.set(id, name);
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Failed to resolve ${missing.length} ${type} names: ${errorMessage}`);
+    }
+    return names;
+  }
+
+  private async lookupRecords(resolver: NameResolver, ids: number[], tenantContext?: TenantContext): Promise<Map<number, string>> {
+    const records = await this.autotaskService.getEntitiesByIds(resolver.entity, ids, resolver.includeFields, tenantContext);
+    const names = new Map<number, string>();
+    for (const record of records) {
+      const name = resolver.getName(record);
+      if (record.id && name) {
+        names.set(record.id, name);
+      }
+    }
+    return names;
   }
 
   /**
@@ -210,29 +517,30 @@ export class MappingService {
       return;
     }
 
-    if (this.isCacheValid('companies')) {
+    const cache = this.getPartition(undefined);
+    if (this.isCacheValid(cache, 'companies')) {
       return; // Cache is still valid
     }
 
     try {
       this.logger.info('Refreshing company cache...');
-      
+
       // Use pagination-by-default to get ALL companies for complete accuracy
       // Pass undefined tenant context for single-tenant mode
       const companies = await this.autotaskService.searchCompanies({
         // No pageSize specified - gets ALL companies via pagination by default
       }, undefined);
 
-      this.cache.companies.clear();
-      
+      this.getEntries(cache, 'companies').clear();
+
       for (const company of companies) {
         if (company.id && company.companyName) {
-          this.cache.companies.set(company.id, company.companyName);
+          this.setCached(cache, 'companies', company.id, company.companyName);
         }
       }
 
-      this.cache.lastUpdated.companies = new Date();
-      this.logger.info(`Company cache refreshed with ${this.cache.companies.size} entries (COMPLETE dataset)`);
+      cache.lastUpdated.set('companies', new Date());
+      this.logger.info(`Company cache refreshed with ${this.getEntries(cache, 'companies').size} entries (COMPLETE dataset)`);
 
     } catch (error) {
       this.logger.error('Failed to refresh company cache:', error);
@@ -250,86 +558,119 @@ export class MappingService {
       return;
     }
 
+    const cache = this.getPartition(undefined);
+
     try {
       this.logger.debug('Refreshing resource cache...');
-      
+
       // Note: Some Autotask instances don't support resource listing via REST API
       // This is a known limitation - see Autotask documentation
       // Pass undefined tenant context for single-tenant mode
       const resources = await this.autotaskService.searchResources({ pageSize: 0 }, undefined);
-      
-      this.cache.resources.clear();
+
+      this.getEntries(cache, 'resources').clear();
       for (const resource of resources) {
         if (resource.id && resource.firstName && resource.lastName) {
           const fullName = `${resource.firstName} ${resource.lastName}`.trim();
-          this.cache.resources.set(resource.id, fullName);
+          this.setCached(cache, 'resources', resource.id, fullName);
         }
       }
-      
-      this.cache.lastUpdated.resources = new Date();
-      this.logger.info(`Resource cache refreshed: ${this.cache.resources.size} resources`);
-      
+
+      cache.lastUpdated.set('resources', new Date());
+      this.logger.info(`Resource cache refreshed: ${this.getEntries(cache, 'resources').size} resources`);
+
     } catch (error) {
       // Handle the common case where Resources endpoint returns 405 Method Not Allowed
       if ((error as any)?.response?.status === 405) {
         this.logger.warn('Resources endpoint not available (405 Method Not Allowed) - this is common in Autotask REST API. Resource name mapping will be disabled.');
-        this.cache.lastUpdated.resources = new Date(); // Mark as "refreshed" to prevent retry loops
+        cache.lastUpdated.set('resources', new Date()); // Mark as "refreshed" to prevent retry loops
         return;
       }
-      
+
       // Handle other resource endpoint errors gracefully
       this.logger.error('Failed to refresh resource cache, continuing without resource names:', error);
-      this.cache.lastUpdated.resources = new Date(); // Mark as "refreshed" to prevent retry loops
+      cache.lastUpdated.set('resources', new Date()); // Mark as "refreshed" to prevent retry loops
+    }
+  }
+
+  /**
+   * Clear cached entries of the given types - for one tenant, or every tenant when no context is given
+   */
+  private clearTypes(types: string[], tenantContext?: TenantContext): void {
+    const targets = tenantContext
+      ? [this.partitions.get(this.autotaskService.getTenantPartitionKey(tenantContext))].filter((c): c is TenantMappingCache => !!c)
+      : Array.from(this.partitions.values());
+
+    for (const cache of targets) {
+      for (const type of types) {
+        cache.entries.delete(type);
+        cache.lastUpdated.delete(type);
+      }
     }
   }
 
   /**
-   * Clear all caches
+   * Clear all caches (for one tenant if a tenant context is given)
    */
-  public clearCache(): void {
-    this.cache.companies.clear();
-    this.cache.resources.clear();
-    this.cache.lastUpdated.companies = null;
-    this.cache.lastUpdated.resources = null;
-    this.logger.info('Mapping cache cleared');
+  public clearCache(tenantContext?: TenantContext): void {
+    this.clearTypes(this.getResolverTypes(), tenantContext);
+    this.logger.info('Mapping cache cleared', { tenantId: tenantContext?.tenantId ?? 'all tenants' });
   }
 
   /**
-   * Clear company cache only
+   * Clear company cache only (for one tenant if a tenant context is given)
    */
-  public clearCompanyCache(): void {
-    this.cache.companies.clear();
-    this.cache.lastUpdated.companies = null;
-    this.logger.info('Company cache cleared');
+  public clearCompanyCache(tenantContext?: TenantContext): void {
+    this.clearTypes(['companies'], tenantContext);
+    this.logger.info('Company cache cleared', { tenantId: tenantContext?.tenantId ?? 'all tenants' });
   }
 
   /**
-   * Clear resource cache only
+   * Clear resource cache only (for one tenant if a tenant context is given)
    */
-  public clearResourceCache(): void {
-    this.cache.resources.clear();
-    this.cache.lastUpdated.resources = null;
-    this.logger.info('Resource cache cleared');
+  public clearResourceCache(tenantContext?: TenantContext): void {
+    this.clearTypes(['resources'], tenantContext);
+    this.logger.info('Resource cache cleared', { tenantId: tenantContext?.tenantId ?? 'all tenants' });
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics for one tenant (single-tenant cache when no context is given)
    */
-  public getCacheStats(): {
-    companies: { count: number; lastUpdated: Date | null; isValid: boolean };
-    resources: { count: number; lastUpdated: Date | null; isValid: boolean };
-  } {
+  public getCacheStats(tenantContext?: TenantContext): MappingCacheStats {
+    return this.getPartitionStats(this.partitions.get(this.autotaskService.getTenantPartitionKey(tenantContext)));
+  }
+
+  /**
+   * Get cache statistics for every tenant partition currently held in memory
+   */
+  public getAllCacheStats(): TenantMappingCacheStats[] {
+    return Array.from(this.partitions.entries()).map(([partitionKey, cache]) => ({
+      partitionKey,
+      tenantId: cache.tenantId,
+      ttlMs: cache.options.ttlMs,
+      maxEntriesPerType: cache.options.maxEntriesPerType,
+      lastAccessed: new Date(cache.lastAccessed),
+      types: this.getPartitionStats(cache)
+    }));
+  }
+
+  private getPartitionStats(cache: TenantMappingCache | undefined): MappingCacheStats {
+    const stats: Record<string, MappingCacheTypeStats> = {};
+    for (const type of this.getResolverTypes()) {
+      stats[type] = this.getTypeStats(cache, type);
+    }
+    return stats as MappingCacheStats;
+  }
+
+  private getTypeStats(cache: TenantMappingCache | undefined, type: string): MappingCacheTypeStats {
+    if (!cache) {
+      return { count: 0, lastUpdated: null, isValid: false, hits: 0, misses: 0, evictions: 0 };
+    }
     return {
-      companies: {
-        count: this.cache.companies.size,
-        lastUpdated: this.cache.lastUpdated.companies,
-        isValid: this.isCacheValid('companies'),
-      },
-      resources: {
-        count: this.cache.resources.size,
-        lastUpdated: this.cache.lastUpdated.resources,
-        isValid: this.isCacheValid('resources'),
-      },
+      count: cache.entries.get(type)?.size ?? 0,
+      lastUpdated: cache.lastUpdated.get(type) ?? null,
+      isValid: this.isCacheValid(cache, type),
+      ...(cache.counters.get(type) ?? { hits: 0, misses: 0, evictions: 0 })
     };
   }
 
@@ -349,4 +690,4 @@ export class MappingService {
       throw error;
     }
   }
-} 
\ No newline at end of file
+}
@@ -2,8 +2,9 @@
 // Tests for the AutotaskService wrapper
 
 import { AutotaskService } from '../src/services/autotask.service';
+import { EnhancedAutotaskToolHandler } from '../src/handlers/enhanced.tool.handler';
 import { Logger } from '../src/utils/logger';
-import type { McpServerConfig } from '../src/types/mcp';
+import type { McpServerConfig, TenantContext } from '../src/types/mcp';
 
 const mockConfig: McpServerConfig = {
   name: 'test-server',
@@ -149,4 +150,285 @@ describe('AutotaskService', () => {
       await expect(service.searchDepartments()).rejects.toThrow('Departments API not directly available');
     });
   });
-}); 
\ No newline at end of file
+}); 
+describe('AutotaskService impersonation', () => {
+  const multiTenantConfig: McpServerConfig = {
+    name: 'test-server',
+    version: '1.0.0',
+    multiTenant: { enabled: true }
+  };
+
+  const tenantContext: TenantContext = {
+    tenantId: 'tenant-a',
+    credentials: {
+      username: 'api-user@example.com',
+      secret: 'test-secret',
+      integrationCode: 'test-integration-code'
+    },
+    impersonationResourceId: 29682885
+  };
+
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  const jsonResponse = (body: unknown) => ({
+    ok: true,
+    status: 200,
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+  });
+
+  // Requests other than the zone lookup, as [url, init] pairs
+  const apiCalls = () => fetchMock.mock.calls.filter(([url]) => !String(url).includes('zoneInformation'));
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async (url: string) => {
+      if (url.includes('zoneInformation')) {
+        return jsonResponse({ url: 'https://webservices99.autotask.net/ATServicesRest/' });
+      }
+      return jsonResponse({ itemId: 1001 });
+    });
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should attribute created tickets to the impersonated resource', async () => {
+    const service = new AutotaskService(multiTenantConfig, mockLogger);
+
+    const ticketId = await service.createTicket({ title: 'Printer offline', companyID: 1 }, tenantContext);
+
+    expect(ticketId).toBe(1001);
+    const [url, init] = apiCalls()[0];
+    expect(url).toContain('/Tickets');
+    expect(init.method).toBe('POST');
+    expect(init.headers.ImpersonationResourceId).toBe(29682885);
+  });
+
+  test('should attribute created ticket notes to the impersonated resource', async () => {
+    const service = new AutotaskService(multiTenantConfig, mockLogger);
+
+    await service.createTicketNote(555, { title: 'Update', description: 'Called the customer' }, tenantContext);
+
+    const [url, init] = apiCalls()[0];
+    expect(url).toContain('/Tickets/555/Notes');
+    expect(init.headers.ImpersonationResourceId).toBe(29682885);
+  });
+
+  test('should not send the impersonation header without an impersonated resource', async () => {
+    const service = new AutotaskService(multiTenantConfig, mockLogger);
+    const { impersonationResourceId: _omit, ...apiUserContext } = tenantContext;
+
+    await service.createTicket({ title: 'Printer offline', companyID: 1 }, apiUserContext);
+
+    const [, init] = apiCalls()[0];
+    expect(init.headers).not.toHaveProperty('ImpersonationResourceId');
+  });
+
+  test('should use separate cache keys per impersonated resource', () => {
+    const service = new AutotaskService(multiTenantConfig, mockLogger);
+    const getKey = (service as any).getTenantCacheKey.bind(service);
+
+    expect(getKey(tenantContext.credentials, 1)).not.toBe(getKey(tenantContext.credentials, 2));
+    expect(getKey(tenantContext.credentials)).not.toBe(getKey(tenantContext.credentials, 1));
+  });
+});
+
+describe('AutotaskService retries', () => {
+  const config: McpServerConfig = {
+    name: 'test-server',
+    version: '1.0.0',
+    multiTenant: { enabled: true },
+    retry: { baseDelayMs: 1 }
+  };
+
+  const tenantContext: TenantContext = {
+    tenantId: 'tenant-a',
+    credentials: {
+      username: 'api-user@example.com',
+      secret: 'test-secret',
+      integrationCode: 'test-integration-code'
+    }
+  };
+
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  let failures: Array<{ status: number; retryAfter?: string }>;
+
+  const apiCalls = () => fetchMock.mock.calls.filter(([url]) => !String(url).includes('zoneInformation'));
+
+  beforeEach(() => {
+    failures = [];
+    fetchMock = jest.fn(async (url: string) => {
+      if (url.includes('zoneInformation')) {
+        return { ok: true, status: 200, json: async () => ({ url: 'https://webservices99.autotask.net/ATServicesRest/' }) };
+      }
+      const failure = failures.shift();
+      if (failure) {
+        return {
+          ok: false,
+          status: failure.status,
+          headers: { get: (name: string) => (name === 'retry-after' ? failure.retryAfter ?? null : null) },
+          text: async () => 'Temporarily unavailable'
+        };
+      }
+      const body = url.includes('/Companies/') ? { item: { id: 1, companyName: 'Acme' } } : { itemId: 1001 };
+      return { ok: true, status: 200, json: async () => body };
+    });
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should retry throttled reads and honor Retry-After', async () => {
+    const service = new AutotaskService(config, mockLogger);
+    failures.push({ status: 429, retryAfter: '0' });
+
+    const company = await service.getCompany(1, tenantContext);
+
+    expect(company?.companyName).toBe('Acme');
+    expect(apiCalls()).toHaveLength(2);
+  });
+
+  test('should not retry creates without an idempotency key', async () => {
+    const service = new AutotaskService(config, mockLogger);
+    failures.push({ status: 503 });
+
+    await expect(service.createTicket({ title: 'Printer offline', companyID: 1 }, tenantContext)).rejects.toThrow('HTTP-503');
+    expect(apiCalls()).toHaveLength(1);
+  });
+
+  test('should retry and de-duplicate creates with an idempotency key', async () => {
+    const service = new AutotaskService(config, mockLogger);
+    const context = { ...tenantContext, idempotencyKey: 'create-printer-ticket' };
+    failures.push({ status: 503 });
+
+    expect(await service.createTicket({ title: 'Printer offline', companyID: 1 }, context)).toBe(1001);
+    expect(await service.createTicket({ title: 'Printer offline', companyID: 1 }, context)).toBe(1001);
+    expect(apiCalls()).toHaveLength(2);
+  });
+
+  test('should use a tool call idempotency key for retries without sending it to Autotask', async () => {
+    const handler = new EnhancedAutotaskToolHandler(new AutotaskService(config, mockLogger), mockLogger);
+    failures.push({ status: 503 });
+
+    const result = await handler.callTool('create_ticket', {
+      title: 'Printer offline',
+      companyID: 1,
+      _idempotencyKey: 'create-printer-ticket',
+      _tenant: { tenantId: tenantContext.tenantId, ...tenantContext.credentials }
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(apiCalls()).toHaveLength(2);
+    for (const [, init] of apiCalls()) {
+      expect(JSON.parse(init.body)).not.toHaveProperty('_idempotencyKey');
+    }
+  });
+});
+
+describe('AutotaskService pagination', () => {
+  const config: McpServerConfig = {
+    name: 'test-server',
+    version: '1.0.0',
+    multiTenant: { enabled: true }
+  };
+
+  const tenantContext: TenantContext = {
+    tenantId: 'tenant-a',
+    credentials: {
+      username: 'api-user@example.com',
+      secret: 'test-secret',
+      integrationCode: 'test-integration-code'
+    }
+  };
+
+  const zoneUrl = 'https://webservices99.autotask.net/ATServicesRest/';
+  const nextPageUrl = (page: number) =>
+    `${zoneUrl}V1.0/Tickets/query/next?paging=${encodeURIComponent(JSON.stringify({ page }))}&search=${encodeURIComponent('{"filter":[]}')}`;
+
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  const apiCalls = () => fetchMock.mock.calls.filter(([url]) => !String(url).includes('zoneInformation'));
+  const queryCalls = () => apiCalls().filter(([url]) => !String(url).endsWith('/query/count'));
+  const countCalls = () => apiCalls().filter(([url]) => String(url).endsWith('/query/count'));
+
+  beforeEach(() => {
+    // Three pages of two tickets each
+    fetchMock = jest.fn(async (url: string) => {
+      let body: unknown;
+      if (url.includes('zoneInformation')) {
+        body = { url: zoneUrl };
+      } else if (url.endsWith('/Tickets/query/count')) {
+        body = { queryCount: 6 };
+      } else {
+        const paging = new URL(url).searchParams.get('paging');
+        const page = paging ? JSON.parse(paging).page : 1;
+        body = {
+          items: [{ id: page * 10 + 1 }, { id: page * 10 + 2 }],
+          pageDetails: { count: 2, requestCount: 2, prevPageUrl: null, nextPageUrl: page < 3 ? nextPageUrl(page + 1) : null }
+        };
+      }
+      return { ok: true, status: 200, json: async () => body };
+    });
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should follow nextPageUrl cursors through every page', async () => {
+    const service = new AutotaskService(config, mockLogger);
+
+    const first = await service.searchTicketsWithPagination({ pageSize: 2 }, tenantContext);
+    expect(first.items.map(ticket => ticket.id)).toEqual([11, 12]);
+    expect(first.pagination).toMatchObject({ currentPage: 1, total: 6, totalKnown: true, hasMore: true });
+    expect(JSON.parse(queryCalls()[0][1].body)).toMatchObject({ MaxRecords: 2 });
+
+    const second = await service.searchTicketsWithPagination({ cursor: first.pagination.nextCursor! }, tenantContext);
+    expect(second.items.map(ticket => ticket.id)).toEqual([21, 22]);
+    expect(String(queryCalls()[1][0])).toBe(nextPageUrl(2));
+
+    const third = await service.searchTicketsWithPagination({ cursor: second.pagination.nextCursor! }, tenantContext);
+    expect(third.items.map(ticket => ticket.id)).toEqual([31, 32]);
+    expect(third.pagination).toMatchObject({ currentPage: 3, total: 6, hasMore: false, percentComplete: 100 });
+    expect(third._paginationStatus).toContain('Showing items 5-6 of 6 entries');
+  });
+
+  test('should walk to a page number and reject cursors from another tenant', async () => {
+    const service = new AutotaskService(config, mockLogger);
+
+    const second = await service.searchTicketsWithPagination({ page: 2, pageSize: 2 }, tenantContext);
+    expect(second.items.map(ticket => ticket.id)).toEqual([21, 22]);
+    expect(second.pagination.currentPage).toBe(2);
+
+    const otherTenant: TenantContext = {
+      tenantId: 'tenant-a',
+      credentials: { username: 'other@example.com', secret: 'test-secret', integrationCode: 'test-integration-code' }
+    };
+    await expect(service.searchTicketsWithPagination({ cursor: second.pagination.nextCursor! }, otherTenant))
+      .rejects.toThrow('cursor was issued to a different tenant');
+    await expect(service.searchContactsWithPagination({ cursor: second.pagination.nextCursor! }, tenantContext))
+      .rejects.toThrow('cursor is for Tickets, not Contacts');
+  });
+
+  test('should reuse a cached count for the same filter', async () => {
+    const service = new AutotaskService(config, mockLogger);
+
+    await service.searchTicketsWithPagination({ pageSize: 2 }, tenantContext);
+    await service.searchTicketsWithPagination({ pageSize: 2 }, tenantContext);
+    expect(countCalls()).toHaveLength(1);
+
+    const filter = [{ op: 'eq', field: 'status', value: 1 }];
+    expect(await service.countEntities('Tickets', filter, tenantContext)).toEqual({ count: 6, cached: false });
+    expect(await service.countEntities('Tickets', [{ value: 1, field: 'status', op: 'eq' }], tenantContext)).toEqual({ count: 6, cached: true });
+    expect(countCalls()).toHaveLength(2);
+    expect(JSON.parse(countCalls()[1][1].body)).toEqual({ filter });
+  });
+});
@@ -0,0 +1,120 @@
+// Change Detector Tests
+// Tests for snapshot diffing and the typed events SSE polling sends
+
+import { detectChanges, RecordSnapshot } from '../src/http/change-detector';
+import { SseManager } from '../src/http/sse-manager';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+describe('detectChanges', () => {
+  test('should report created records and real field changes only', () => {
+    const snapshot: RecordSnapshot = new Map();
+
+    expect(detectChanges(snapshot, [
+      { id: 1, status: 1, title: 'Printer', _changeType: 'created' },
+      { id: 2, status: 8, _changeType: 'updated' }
+    ]).map(change => [change.kind, change.record.id, change.changes])).toEqual([
+      ['created', 1, undefined],
+      ['updated', 2, undefined]
+    ]);
+
+    expect(detectChanges(snapshot, [
+      { id: 1, status: 5, title: 'Printer', lastActivityDate: '2025-01-02T00:00:00Z', _changeType: 'updated' },
+      { id: 2, status: 8, lastActivityDate: '2025-01-02T00:00:00Z', _changeType: 'updated' }
+    ])).toEqual([{
+      kind: 'updated',
+      record: { id: 1, status: 5, title: 'Printer', lastActivityDate: '2025-01-02T00:00:00Z' },
+      previous: { id: 1, status: 1, title: 'Printer' },
+      changes: { status: { from: 1, to: 5 } }
+    }]);
+  });
+
+  test('should keep the snapshot within its size cap', () => {
+    const snapshot: RecordSnapshot = new Map();
+    detectChanges(snapshot, [{ id: 1 }, { id: 2 }, { id: 3 }], 2);
+    expect(Array.from(snapshot.keys())).toEqual([2, 3]);
+  });
+});
+
+describe('SseManager change polling', () => {
+  test('should send typed ticket events and stay quiet when nothing changed', async () => {
+    const pages = [
+      { items: [{ id: 7, ticketNumber: 'T1', status: 1, assignedResourceID: null, _changeType: 'created' }] },
+      { items: [{ id: 7, ticketNumber: 'T1', status: 5, assignedResourceID: 29, completedDate: '2025-01-02T10:00:00Z', _changeType: 'updated' }] },
+      { items: [] }
+    ];
+    const bridge: any = {
+      onRateLimitWarning: jest.fn(),
+      getTenantKey: jest.fn(() => 'tenant-a'),
+      getCircuitState: jest.fn().mockResolvedValue({ state: 'closed' }),
+      callTool: jest.fn(async () => {
+        const page = pages.shift()!;
+        const body = { entity: 'Tickets', since: '2025-01-01T00:00:00.000Z', nextWatermark: '2025-01-02T00:00:00.000Z', hasMore: false, ...page };
+        return { success: true, data: [{ type: 'text', text: JSON.stringify(body) }] };
+      })
+    };
+    const manager = new SseManager(bridge, mockLogger);
+    const events: string[] = [];
+    jest.spyOn(manager, 'broadcast').mockImplementation(message => {
+      events.push(message.event!);
+      return 1;
+    });
+
+    try {
+      const pollId = await manager.startPolling({ tenantId: 'tenant-a' }, 60000, { filters: { companyID: 42 } });
+      events.length = 0;
+
+      await (manager as any).executePoll(pollId, { tenantId: 'tenant-a' });
+      await (manager as any).executePoll(pollId, { tenantId: 'tenant-a' });
+      await (manager as any).executePoll(pollId, { tenantId: 'tenant-a' });
+
+      expect(events).toEqual(['ticket-created', 'ticket-updated', 'ticket-status-changed', 'ticket-assigned', 'ticket-completed']);
+      expect(bridge.callTool.mock.calls[0][1].arguments).toMatchObject({
+        entity: 'tickets',
+        filter: [{ op: 'eq', field: 'companyID', value: 42 }]
+      });
+      expect(bridge.callTool.mock.calls[1][1].arguments.since).toBe('2025-01-02T00:00:00.000Z');
+    } finally {
+      manager.destroy();
+    }
+  });
+
+  test('should poll each entity with its own event type and filters', async () => {
+    const bridge: any = {
+      onRateLimitWarning: jest.fn(),
+      getTenantKey: jest.fn(() => 'tenant-a'),
+      getCircuitState: jest.fn().mockResolvedValue({ state: 'closed' }),
+      callTool: jest.fn(async () => {
+        const body = { since: '2025-01-01T00:00:00.000Z', nextWatermark: '2025-01-02T00:00:00.000Z', hasMore: false, items: [{ id: 3, _changeType: 'created' }] };
+        return { success: true, data: [{ type: 'text', text: JSON.stringify(body) }] };
+      })
+    };
+    const manager = new SseManager(bridge, mockLogger);
+    const events: string[] = [];
+    jest.spyOn(manager, 'broadcast').mockImplementation(message => {
+      events.push(message.event!);
+      return 1;
+    });
+
+    try {
+      await expect(manager.startPolling({ tenantId: 'tenant-a' }, 60000, { entities: ['invoices' as any] }))
+        .rejects.toThrow('Polling is not supported for invoices');
+
+      const pollId = await manager.startPolling({ tenantId: 'tenant-a' }, 60000, {
+        entities: ['contacts', 'configurationItems'],
+        filters: { companyID: 42, configurationItems: { isActive: true } }
+      });
+      events.length = 0;
+      await (manager as any).executePoll(pollId, { tenantId: 'tenant-a' });
+
+      expect(events).toEqual(['contact-created', 'configuration-item-created']);
+      expect(bridge.callTool.mock.calls.map((call: any[]) => call[1].arguments)).toMatchObject([
+        { entity: 'contacts', filter: [{ op: 'eq', field: 'companyID', value: 42 }] },
+        { entity: 'configurationitems', filter: [{ op: 'eq', field: 'companyID', value: 42 }, { op: 'eq', field: 'isActive', value: true }] }
+      ]);
+    } finally {
+      manager.destroy();
+    }
+  });
+});
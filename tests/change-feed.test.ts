@@ -0,0 +1,78 @@
+// Change Feed Tests
+// Tests for watermark-based incremental sync
+
+import { getChangeFeedEntity, normalizeWatermark, tagChanges } from '../src/services/change-feed.service';
+import { AutotaskService } from '../src/services/autotask.service';
+import { Logger } from '../src/utils/logger';
+import type { TenantContext } from '../src/types/mcp';
+
+const mockLogger = new Logger('error');
+
+describe('change feed helpers', () => {
+  test('should tag created and updated records and advance the watermark', () => {
+    const feed = getChangeFeedEntity('time_entries');
+    expect(feed.entity).toBe('TimeEntries');
+    expect(() => getChangeFeedEntity('invoices')).toThrow('Changes are not tracked for invoices');
+    expect(() => normalizeWatermark('yesterday')).toThrow('since must be an ISO 8601 date-time');
+
+    const since = normalizeWatermark('2025-01-01T00:00:00+01:00');
+    expect(since).toBe('2024-12-31T23:00:00.000Z');
+
+    const result = tagChanges(feed, [
+      { id: 1, createDateTime: '2024-06-01T00:00:00Z', lastModifiedDateTime: '2025-01-02T10:00:00Z' },
+      { id: 2, createDateTime: '2025-01-01T08:00:00Z', lastModifiedDateTime: '2025-01-01T08:00:00Z' }
+    ], since, since);
+    expect(result.items.map(item => [item.id, item._changeType])).toEqual([[1, 'updated'], [2, 'created']]);
+    expect(result.watermark).toBe('2025-01-02T10:00:00.000Z');
+  });
+});
+
+describe('AutotaskService.getChangesSince', () => {
+  const tenantContext: TenantContext = {
+    tenantId: 'tenant-a',
+    credentials: { username: 'api-user@example.com', secret: 'test-secret', integrationCode: 'test-integration-code' }
+  };
+  const zoneUrl = 'https://webservices99.autotask.net/ATServicesRest/';
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    // Two pages; the newest change is on the first page
+    fetchMock = jest.fn(async (url: string) => {
+      let body: unknown;
+      if (url.includes('zoneInformation')) {
+        body = { url: zoneUrl };
+      } else if (url.includes('/query/next')) {
+        body = { items: [{ id: 3, createDate: '2024-01-01T00:00:00Z', lastActivityDate: '2025-02-01T00:00:00Z' }], pageDetails: { nextPageUrl: null } };
+      } else {
+        body = {
+          items: [{ id: 1, createDate: '2025-03-01T00:00:00Z', lastActivityDate: '2025-03-05T00:00:00Z' }],
+          pageDetails: { nextPageUrl: `${zoneUrl}V1.0/Tickets/query/next?paging=%7B%7D` }
+        };
+      }
+      return { ok: true, status: 200, json: async () => body };
+    });
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should filter from the watermark (inclusive) and keep the newest watermark across pages', async () => {
+    const service = new AutotaskService({ name: 'test', version: '1.0.0', multiTenant: { enabled: true } }, mockLogger);
+
+    const first = await service.getChangesSince('tickets', { since: '2025-01-15T00:00:00Z', pageSize: 1 }, tenantContext);
+    const query = fetchMock.mock.calls.find(([url]) => String(url).endsWith('/Tickets/query'));
+    expect(JSON.parse(query[1].body)).toMatchObject({
+      filter: [{ op: 'gte', field: 'lastActivityDate', value: '2025-01-15T00:00:00.000Z' }],
+      MaxRecords: 1
+    });
+    expect(first).toMatchObject({ hasMore: true, nextWatermark: '2025-03-05T00:00:00.000Z' });
+    expect(first.items[0]._changeType).toBe('created');
+
+    const second = await service.getChangesSince('tickets', { cursor: first.nextCursor! }, tenantContext);
+    expect(second).toMatchObject({ since: '2025-01-15T00:00:00.000Z', hasMore: false, nextWatermark: '2025-03-05T00:00:00.000Z' });
+    expect(second.items[0]._changeType).toBe('updated');
+  });
+});
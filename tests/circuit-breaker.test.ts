@@ -0,0 +1,66 @@
+// Circuit Breaker Tests
+// Tests for error classification and the closed / open / half-open state machine
+
+import { CircuitBreaker, CircuitOpenError, classifyError } from '../src/services/circuit-breaker.service';
+import { RateLimitError } from '../src/services/rate-limiter.service';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+const apiError = (status: number, details?: unknown) => Object.assign(new Error(`HTTP-${status}`), { status, details });
+
+describe('CircuitBreaker', () => {
+  test('should classify errors', () => {
+    expect(classifyError(apiError(401))).toBe('auth');
+    expect(classifyError(apiError(429))).toBe('throttling');
+    expect(classifyError(apiError(503))).toBe('server');
+    expect(classifyError(apiError(500, { errors: ['Title is required'] }))).toBe('client');
+    expect(classifyError(apiError(400))).toBe('client');
+    expect(classifyError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } }))).toBe('network');
+    expect(classifyError(new RateLimitError('slow down', 'acme', 'queue-full', 1000))).toBe('local');
+  });
+
+  test('should open after consecutive server errors but ignore client errors', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 }, mockLogger);
+
+    breaker.beforeCall('key', 'acme');
+    breaker.recordFailure('key', apiError(503));
+    breaker.beforeCall('key', 'acme');
+    breaker.recordFailure('key', apiError(400)); // API is up - resets the count
+    breaker.beforeCall('key', 'acme');
+    breaker.recordFailure('key', apiError(503));
+    expect(breaker.getSnapshot('key').state).toBe('closed');
+
+    breaker.beforeCall('key', 'acme');
+    breaker.recordFailure('key', apiError(503));
+    expect(breaker.getSnapshot('key')).toMatchObject({ tenantId: 'acme', state: 'open', lastFailureCategory: 'server' });
+    expect(() => breaker.beforeCall('key', 'acme')).toThrow(CircuitOpenError);
+  });
+
+  test('should allow limited probes while half-open and close after successful probes', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 0, halfOpenMaxProbes: 1, successThreshold: 2 }, mockLogger);
+
+    breaker.beforeCall('key', 'acme');
+    breaker.recordFailure('key', apiError(502));
+
+    breaker.beforeCall('key', 'acme'); // First probe
+    expect(breaker.getSnapshot('key').state).toBe('half-open');
+    expect(() => breaker.beforeCall('key', 'acme')).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess('key');
+    breaker.beforeCall('key', 'acme'); // Second probe
+    breaker.recordSuccess('key');
+    expect(breaker.getSnapshot('key').state).toBe('closed');
+  });
+
+  test('should re-open when a probe fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 0 }, mockLogger);
+
+    breaker.beforeCall('key', 'acme');
+    breaker.recordFailure('key', apiError(401));
+    breaker.beforeCall('key', 'acme');
+    breaker.recordFailure('key', apiError(401));
+
+    expect(breaker.getSnapshot('key')).toMatchObject({ state: 'open', lastFailureCategory: 'auth' });
+  });
+});
@@ -0,0 +1,98 @@
+// Enrichment Tests
+// Tests for batched name resolution across records
+
+import { enrichRecords } from '../src/services/enrichment.service';
+import { AutotaskService } from '../src/services/autotask.service';
+import { EnhancedAutotaskToolHandler } from '../src/handlers/enhanced.tool.handler';
+import { Logger } from '../src/utils/logger';
+import { McpServerConfig } from '../src/types/mcp';
+
+const mockLogger = new Logger('error');
+
+describe('enrichRecords', () => {
+  test('should resolve each type once for all records and mark unresolved IDs', async () => {
+    const names = {
+      getNames: jest.fn(async (type: string, ids: number[]) =>
+        new Map(ids.filter(id => id !== 99).map(id => [id, `${type} ${id}`] as [number, string])))
+    };
+
+    const enriched = await enrichRecords(names, 'Tickets', [
+      { id: 1, companyID: 10, assignedResourceID: 5, _enhanced: { statusLabel: 'New' } },
+      { id: 2, companyID: 10, contactID: 99 },
+      { id: 3, companyID: 11 }
+    ]);
+
+    expect(names.getNames.mock.calls).toEqual([
+      ['companies', [10, 11], undefined],
+      ['resources', [5], undefined],
+      ['contacts', [99], undefined]
+    ]);
+    expect(enriched.map(record => record._enhanced)).toEqual([
+      { statusLabel: 'New', companyName: 'companies 10', assignedResourceName: 'resources 5' },
+      { companyName: 'companies 10', contactName: 'Unknown (99)' },
+      { companyName: 'companies 11' }
+    ]);
+  });
+});
+
+describe('search_tickets enrichment', () => {
+  const config: McpServerConfig = {
+    name: 'test-server',
+    version: '1.0.0',
+    multiTenant: { enabled: true }
+  };
+
+  const tenant = { tenantId: 'tenant-a', username: 'api-user@example.com', secret: 'test-secret', integrationCode: 'test-integration-code' };
+  const tickets = Array.from({ length: 200 }, (_, index) => ({
+    id: index + 1,
+    title: `Ticket ${index + 1}`,
+    companyID: 100 + (index % 40),
+    assignedResourceID: 200 + (index % 25),
+    contactID: 300 + index
+  }));
+
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  const queriesOf = (entity: string) =>
+    fetchMock.mock.calls.filter(([url]) => String(url).endsWith(`/${entity}/query`));
+
+  beforeEach(() => {
+    fetchMock = jest.fn(async (url: string, init?: { body?: string }) => {
+      let body: unknown;
+      if (url.includes('zoneInformation')) {
+        body = { url: 'https://webservices99.autotask.net/ATServicesRest/' };
+      } else if (url.endsWith('/query/count')) {
+        body = { queryCount: tickets.length };
+      } else if (url.endsWith('/Tickets/query')) {
+        body = { items: tickets, pageDetails: { count: tickets.length, requestCount: 200, prevPageUrl: null, nextPageUrl: null } };
+      } else if (url.endsWith('/query')) {
+        // Name lookups: one `id in [...]` condition
+        const ids: number[] = JSON.parse(init!.body!).filter[0].value;
+        body = { items: ids.map(id => ({ id, companyName: `Company ${id}`, firstName: 'Person', lastName: String(id) })) };
+      } else {
+        body = { fields: [] };
+      }
+      return { ok: true, status: 200, json: async () => body };
+    });
+    global.fetch = fetchMock as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('should resolve names for 200 tickets with one query per type', async () => {
+    const handler = new EnhancedAutotaskToolHandler(new AutotaskService(config, mockLogger), mockLogger);
+
+    const result = await handler.callTool('search_tickets', { pageSize: 200, _tenant: tenant });
+
+    expect(result.isError).toBeFalsy();
+    expect(queriesOf('Companies')).toHaveLength(1);
+    expect(queriesOf('Resources')).toHaveLength(1);
+    expect(queriesOf('Contacts')).toHaveLength(1);
+    expect(JSON.parse(queriesOf('Contacts')[0][1].body).filter[0].value).toHaveLength(200);
+    expect(fetchMock.mock.calls.length).toBeLessThan(10);
+    expect(result.content[0].text).toContain('Contact: Person 499');
+  });
+});
@@ -0,0 +1,97 @@
+// Entity Metadata Tests
+// Tests for per-tenant field definitions and picklists
+
+import { EntityMetadataService } from '../src/services/entity-metadata.service';
+import { AutotaskService } from '../src/services/autotask.service';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+const ticketFields = {
+  fields: [
+    { name: 'id', dataType: 'long', isRequired: true, isReadOnly: true, isQueryable: true, isPickList: false },
+    { name: 'companyID', dataType: 'integer', isRequired: true, isReadOnly: false, isQueryable: true, isReference: true, referenceEntityType: 'Company' },
+    {
+      name: 'status', dataType: 'integer', isRequired: true, isReadOnly: false, isQueryable: true, isPickList: true,
+      picklistValues: [
+        { value: '5', label: 'Complete', isActive: true, isDefaultValue: false, sortOrder: 2 },
+        { value: '1', label: 'New', isActive: true, isDefaultValue: true, sortOrder: 1 },
+        { value: '20', label: 'Retired', isActive: false, isDefaultValue: false, sortOrder: 3 }
+      ]
+    }
+  ]
+};
+
+describe('EntityMetadataService', () => {
+  test('should normalize fields and UDFs and cache them per tenant', async () => {
+    const metadata = new EntityMetadataService({}, mockLogger);
+    const source = {
+      fieldInfo: jest.fn().mockResolvedValue(ticketFields),
+      udfInfo: jest.fn().mockResolvedValue({ fields: [{ name: 'Contract Tier', label: 'Tier', dataType: 'string', isRequired: false }] })
+    };
+
+    const first = await metadata.getEntityMetadata('tenant-a', 'Tickets', source);
+    await metadata.getEntityMetadata('tenant-a', 'Tickets', source);
+    await metadata.getEntityMetadata('tenant-b', 'Tickets', source);
+
+    expect(source.fieldInfo).toHaveBeenCalledTimes(2);
+    expect(first.fields.map(field => [field.name, field.isUdf, field.isRequired, field.isReadOnly, field.isPickList])).toEqual([
+      ['id', false, true, true, false],
+      ['companyID', false, true, false, false],
+      ['status', false, true, false, true],
+      ['Contract Tier', true, false, false, false]
+    ]);
+    expect(first.fields[1].referenceEntityType).toBe('Company');
+    expect(first.fields[3].label).toBe('Tier');
+  });
+
+  test('should not cache a failed fetch', async () => {
+    const metadata = new EntityMetadataService({}, mockLogger);
+    const source = {
+      fieldInfo: jest.fn().mockRejectedValueOnce(new Error('HTTP-503')).mockResolvedValue(ticketFields),
+      udfInfo: jest.fn().mockRejectedValue(new Error('HTTP-404'))
+    };
+
+    await expect(metadata.getEntityMetadata('tenant-a', 'Tickets', source)).rejects.toThrow('HTTP-503');
+    const metadataAfterRetry = await metadata.getEntityMetadata('tenant-a', 'Tickets', source);
+    expect(metadataAfterRetry.fields).toHaveLength(3);
+  });
+});
+
+describe('AutotaskService picklists', () => {
+  test('should return active picklist values in sort order', async () => {
+    const service = new AutotaskService({ name: 'test', version: '1.0.0' }, mockLogger);
+    const metadata = new EntityMetadataService({}, mockLogger);
+    jest.spyOn(service, 'getEntityMetadata').mockImplementation(() =>
+      metadata.getEntityMetadata('tenant-a', 'Tickets', { fieldInfo: async () => ticketFields, udfInfo: async () => ({ fields: [] }) }));
+
+    const picklist = await service.getPicklist('tickets', 'STATUS');
+    expect(picklist.field).toBe('status');
+    expect(picklist.values.map(value => [value.value, value.label])).toEqual([['1', 'New'], ['5', 'Complete']]);
+    expect((await service.getPicklist('tickets', 'status', undefined, true)).values).toHaveLength(3);
+
+    await expect(service.getPicklist('tickets', 'companyID')).rejects.toThrow('Tickets.companyID is not a picklist field');
+    await expect(service.getPicklist('tickets', 'colour')).rejects.toThrow('Tickets has no field named colour');
+  });
+
+  test('should label picklist codes and translate labels in filters', async () => {
+    const service = new AutotaskService({ name: 'test', version: '1.0.0' }, mockLogger);
+    const metadata = new EntityMetadataService({}, mockLogger);
+    jest.spyOn(service, 'getEntityMetadata').mockImplementation(() =>
+      metadata.getEntityMetadata('tenant-a', 'Tickets', { fieldInfo: async () => ticketFields, udfInfo: async () => ({ fields: [] }) }));
+
+    const labeled = await service.addPicklistLabels('Tickets', [
+      { id: 1, status: 5, _enhanced: { companyName: 'Acme' } },
+      { id: 2, status: 99 }
+    ]);
+    expect(labeled).toEqual([
+      { id: 1, status: 5, _enhanced: { companyName: 'Acme', statusLabel: 'Complete' } },
+      { id: 2, status: 99 }
+    ]);
+
+    expect(await service.resolvePicklistValue('Tickets', 'status', 'complete')).toBe(5);
+    expect(await service.resolvePicklistValue('Tickets', 'status', '7')).toBe(7);
+    await expect(service.resolvePicklistValue('Tickets', 'status', 'Done'))
+      .rejects.toThrow('Unknown Tickets status "Done". Valid values: Complete (5), New (1)');
+  });
+});
@@ -0,0 +1,87 @@
+// Event Replay Tests
+// Tests for SSE event IDs and Last-Event-ID resume
+
+import { EventReplayBuffer } from '../src/http/event-replay-buffer';
+import { SseManager } from '../src/http/sse-manager';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+function createResponse() {
+  const written: string[] = [];
+  return {
+    written,
+    response: { writeHead: jest.fn(), write: jest.fn((chunk: string) => written.push(chunk)), on: jest.fn(), end: jest.fn() } as any
+  };
+}
+
+describe('EventReplayBuffer', () => {
+  test('should replay events after an ID and report gaps it no longer covers', () => {
+    const buffer = new EventReplayBuffer(3);
+    for (let i = 1; i <= 5; i++) {
+      buffer.push('ticket-updated', { i });
+    }
+
+    expect(buffer.since(3)!.map(event => event.id)).toEqual([4, 5]);
+    expect(buffer.since(2)!.map(event => event.id)).toEqual([3, 4, 5]);
+    expect(buffer.since(5)).toEqual([]);
+    expect(buffer.since(1)).toBeNull();
+    expect(buffer.since(9)).toBeNull();
+  });
+});
+
+describe('SseManager Last-Event-ID resume', () => {
+  test('should number broadcasts per tenant and replay what a reconnecting client missed', () => {
+    const bridge: any = { onRateLimitWarning: jest.fn() };
+    const manager = new SseManager(bridge, mockLogger);
+
+    try {
+      // A tenant-a client drops off; broadcasts continue while it is away
+      manager.addClient('client-0', createResponse().response, 'tenant-a');
+      manager.removeClient('client-0');
+
+      manager.broadcast({ event: 'ticket-created', data: { n: 1 } }, 'tenant-a');
+      manager.broadcast({ event: 'ticket-created', data: { n: 2 } }, 'tenant-b');
+      manager.broadcast({ event: 'ticket-updated', data: { n: 3 } }, 'tenant-a');
+
+      const resumed = createResponse();
+      manager.addClient('client-1', resumed.response, 'tenant-a', '1');
+      expect(resumed.written[1]).toBe('id: 2\nevent: ticket-updated\ndata: {"n":3}\n\n');
+      expect(resumed.written).toHaveLength(2);
+
+      manager.broadcast({ event: 'ticket-completed', data: { n: 4 } }, 'tenant-a');
+      expect(resumed.written[2]).toMatch(/^id: 3\nevent: ticket-completed\n/);
+
+      const stale = createResponse();
+      manager.addClient('client-2', stale.response, 'tenant-a', '57');
+      expect(stale.written[1]).toMatch(/^id: 3\nevent: resync-required\n/);
+    } finally {
+      manager.destroy();
+    }
+  });
+
+  test('should only buffer streams with clients or pollers and drop idle buffers after a while', () => {
+    const bridge: any = { onRateLimitWarning: jest.fn() };
+    const manager = new SseManager(bridge, mockLogger);
+    const buffers: Map<string, unknown> = (manager as any).replayBuffers;
+
+    try {
+      manager.broadcast({ event: 'ticket-created', data: {} }, 'nobody');
+      expect(buffers.has('nobody')).toBe(false);
+
+      manager.addClient('client-1', createResponse().response, 'tenant-a');
+      manager.broadcast({ event: 'ticket-created', data: {} });
+      manager.removeClient('client-1');
+      expect(Array.from(buffers.keys())).toEqual(['tenant-a']);
+
+      const now = Date.now();
+      (manager as any).evictIdleReplayBuffers(now);
+      (manager as any).evictIdleReplayBuffers(now + 60 * 1000);
+      expect(buffers.has('tenant-a')).toBe(true);
+      (manager as any).evictIdleReplayBuffers(now + 10 * 60 * 1000);
+      expect(buffers.size).toBe(0);
+    } finally {
+      manager.destroy();
+    }
+  });
+});
@@ -0,0 +1,80 @@
+// Fan-Out Tests
+// Tests for running read-only tools across tenants with bounded concurrency and timeouts
+
+import { fanOut } from '../src/services/fan-out.service';
+import { EnhancedAutotaskToolHandler } from '../src/handlers/enhanced.tool.handler';
+import { AutotaskService } from '../src/services/autotask.service';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('fanOut', () => {
+  test('should bound concurrency and report failures and timeouts per tenant', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    const outcomes = await fanOut(['a', 'b', 'c', 'd', 'e'], async tenantId => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      try {
+        if (tenantId === 'c') throw new Error('HTTP-401');
+        await delay(tenantId === 'e' ? 200 : 10);
+        return tenantId.toUpperCase();
+      } finally {
+        active--;
+      }
+    }, { concurrency: 2, timeoutMs: 50 });
+
+    expect(maxActive).toBe(2);
+    expect(outcomes.map(o => [o.tenantId, o.status])).toEqual([
+      ['a', 'ok'], ['b', 'ok'], ['c', 'error'], ['d', 'ok'], ['e', 'timeout']
+    ]);
+    expect(outcomes[0].result).toBe('A');
+    expect(outcomes[2].error).toBe('HTTP-401');
+  });
+});
+
+describe('EnhancedAutotaskToolHandler fan-out', () => {
+  const service = new AutotaskService({ name: 'test', version: '1.0.0', multiTenant: { enabled: true } }, mockLogger);
+  const handler = new EnhancedAutotaskToolHandler(service, mockLogger);
+
+  test('should merge results tagged with tenantId and keep partial failures', async () => {
+    const callTool = jest.spyOn(handler, 'callTool').mockImplementation(async (_name, _args, tenantContext) => {
+      if (tenantContext!.tenantId === 'globex') {
+        return { content: [{ type: 'text', text: 'Error: Circuit breaker OPEN for tenant globex' }], isError: true };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify([{ id: 1, priority: 4 }, { id: 2, priority: 4 }]) }], isError: false };
+    });
+
+    const result = await handler.callToolAcrossTenants('search_contracts', { status: 1 }, [
+      { tenantId: 'acme', accessKey: 'atk_a' },
+      { tenantId: 'globex', accessKey: 'atk_g' }
+    ]);
+
+    expect(result.summary).toEqual({ tenants: 2, succeeded: 1, failed: 1, timedOut: 0, items: 2 });
+    expect(result.items).toEqual([{ id: 1, priority: 4, _tenantId: 'acme' }, { id: 2, priority: 4, _tenantId: 'acme' }]);
+    expect(result.results[1]).toMatchObject({ tenantId: 'globex', status: 'error', error: 'Error: Circuit breaker OPEN for tenant globex' });
+    expect(callTool).toHaveBeenCalledWith('search_contracts', { status: 1 }, expect.objectContaining({ tenantId: 'acme', accessKey: 'atk_a', mode: 'read' }));
+
+    callTool.mockRestore();
+  });
+
+  test('should pass registry credentials as tenant context instead of tool arguments', async () => {
+    const callTool = jest.spyOn(handler, 'callTool').mockResolvedValue({ content: [{ type: 'text', text: '[]' }], isError: false });
+    const credentials = { username: 'api@acme.example', secret: 'registry-secret', integrationCode: 'ACME' };
+
+    await handler.callToolAcrossTenants('search_tickets', { status: 1 }, [{ tenantId: 'acme', credentials }]);
+
+    expect(callTool).toHaveBeenCalledWith('search_tickets', { status: 1 }, { tenantId: 'acme', credentials, mode: 'read' });
+
+    callTool.mockRestore();
+  });
+
+  test('should reject write tools and duplicate tenants', async () => {
+    await expect(handler.callToolAcrossTenants('create_ticket', {}, [{ tenantId: 'acme' }])).rejects.toThrow('only supports read-only tools');
+    await expect(handler.callToolAcrossTenants('search_tickets', {}, [{ tenantId: 'acme' }, { tenantId: 'acme' }]))
+      .rejects.toThrow('listed more than once');
+  });
+});
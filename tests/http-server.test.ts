@@ -0,0 +1,58 @@
+// HTTP Server Route Tests
+// Tests for SSE routes served by the Express app
+
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { AutotaskHttpServer } from '../src/http/server';
+
+describe('AutotaskHttpServer SSE routes', () => {
+  let server: AutotaskHttpServer;
+  let listener: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    process.env.MULTI_TENANT_ENABLED = 'true';
+    process.env.LOG_LEVEL = 'error';
+    server = new AutotaskHttpServer();
+    listener = await new Promise<Server>(resolve => {
+      const started: Server = (server as any).app.listen(0, () => resolve(started));
+    });
+    baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await new Promise(resolve => listener.close(resolve));
+    delete process.env.MULTI_TENANT_ENABLED;
+    delete process.env.LOG_LEVEL;
+  });
+
+  test('should serve SSE stats instead of opening a stream for tenant "stats"', async () => {
+    const response = await fetch(`${baseUrl}/api/autotask/stream/stats`);
+
+    expect(response.headers.get('content-type')).toContain('application/json');
+    const body = await response.json() as any;
+    expect(body.success).toBe(true);
+    expect(body.data).toHaveProperty('totalPollingConsumers', 0);
+  });
+
+  test('should not let a bare pollId stop a poller other consumers still use', async () => {
+    const sseManager = (server as any).sseManager;
+    const tenant = { tenantId: 'tenant-a', username: 'api@example.com', secret: 'secret', integrationCode: 'CODE' };
+    const pollId = await sseManager.startPolling(tenant, 60000, {}, 'dashboard-1');
+    await sseManager.startPolling(tenant, 60000, {}, 'dashboard-2');
+
+    const stop = (body: Record<string, any>) => fetch(`${baseUrl}/api/autotask/stream/stop-polling`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    expect((await stop({ pollId })).status).toBe(409);
+    expect(sseManager.getPollingSession(pollId)).toBeDefined();
+
+    expect((await (await stop({ pollId, consumerId: 'dashboard-1' })).json() as any).data).toMatchObject({ released: true, consumers: 1 });
+    expect((await (await stop({ pollId })).json() as any).data).toEqual({ pollId, stopped: true });
+    expect(sseManager.getPollingSession(pollId)).toBeUndefined();
+  });
+});
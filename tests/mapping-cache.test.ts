@@ -0,0 +1,93 @@
+// Mapping Cache Tests
+// Tests for tenant isolation, TTL and LRU eviction in MappingService
+
+import { MappingService } from '../src/utils/mapping.service';
+import { AutotaskService } from '../src/services/autotask.service';
+import { Logger } from '../src/utils/logger';
+import type { TenantContext } from '../src/types/mcp';
+
+const mockLogger = new Logger('error');
+
+const tenant = (name: string): TenantContext => ({
+  tenantId: name,
+  credentials: { username: `${name}@example.com`, secret: 'secret', integrationCode: 'CODE' }
+});
+
+describe('MappingService tenant caches', () => {
+  let service: AutotaskService;
+  let mapping: MappingService;
+  let getCompany: jest.SpyInstance;
+
+  beforeEach(async () => {
+    (MappingService as any).instance = null;
+    service = new AutotaskService({ name: 'test', version: '1.0.0', multiTenant: { enabled: true } }, mockLogger);
+    getCompany = jest.spyOn(service, 'getCompany').mockImplementation(async (id, ctx) => ({
+      id,
+      companyName: `${ctx?.tenantId} company ${id}`
+    }));
+    mapping = await MappingService.getInstance(service, mockLogger);
+  });
+
+  test('should never serve one tenant\'s names to another tenant', async () => {
+    expect(await mapping.getCompanyName(1, tenant('a'))).toBe('a company 1');
+    expect(await mapping.getCompanyName(1, tenant('b'))).toBe('b company 1');
+    expect(await mapping.getCompanyName(1, tenant('a'))).toBe('a company 1');
+    expect(getCompany).toHaveBeenCalledTimes(2);
+  });
+
+  test('should evict least recently used entries over the size cap', async () => {
+    mapping.configureTenantCache(tenant('a'), { maxEntriesPerType: 2 });
+
+    await mapping.getCompanyName(1, tenant('a'));
+    await mapping.getCompanyName(2, tenant('a'));
+    await mapping.getCompanyName(1, tenant('a')); // 1 is now most recently used
+    await mapping.getCompanyName(3, tenant('a')); // evicts 2
+
+    const stats = mapping.getCacheStats(tenant('a'));
+    expect(stats.companies.count).toBe(2);
+    expect(stats.companies.evictions).toBe(1);
+
+    getCompany.mockClear();
+    await mapping.getCompanyName(1, tenant('a'));
+    expect(getCompany).not.toHaveBeenCalled();
+    await mapping.getCompanyName(2, tenant('a'));
+    expect(getCompany).toHaveBeenCalledTimes(1);
+  });
+
+  test('should expire entries using the tenant TTL', async () => {
+    mapping.configureTenantCache(tenant('a'), { ttlMs: 0 });
+
+    await mapping.getCompanyName(1, tenant('a'));
+    await mapping.getCompanyName(1, tenant('a'));
+    await mapping.getCompanyName(1, tenant('b'));
+    await mapping.getCompanyName(1, tenant('b'));
+
+    expect(getCompany).toHaveBeenCalledTimes(3);
+  });
+
+  test('should clear only the requested tenant', async () => {
+    await mapping.getCompanyName(1, tenant('a'));
+    await mapping.getCompanyName(1, tenant('b'));
+
+    mapping.clearCache(tenant('a'));
+
+    expect(mapping.getCacheStats(tenant('a')).companies.count).toBe(0);
+    expect(mapping.getCacheStats(tenant('b')).companies.count).toBe(1);
+  });
+
+  test('should resolve other entity types in one batch lookup and cache the results', async () => {
+    const getEntitiesByIds = jest.spyOn(service, 'getEntitiesByIds').mockImplementation(async (_entity, ids) =>
+      ids.filter(id => id !== 3).map(id => ({ id, firstName: 'Contact', lastName: String(id) })));
+
+    const names = await mapping.getNames('contacts', [1, 2, 2, 3], tenant('a'));
+    expect(Array.from(names.entries())).toEqual([[1, 'Contact 1'], [2, 'Contact 2']]);
+    expect(getEntitiesByIds).toHaveBeenCalledWith('Contacts', [1, 2, 3], ['firstName', 'lastName'], tenant('a'));
+
+    expect(await mapping.getName('contacts', 1, tenant('a'))).toBe('Contact 1');
+    await mapping.getNames('contacts', [2, 4], tenant('a'));
+    expect(getEntitiesByIds).toHaveBeenLastCalledWith('Contacts', [4], ['firstName', 'lastName'], tenant('a'));
+    expect(getEntitiesByIds).toHaveBeenCalledTimes(2);
+
+    await expect(mapping.getNames('widgets', [1], tenant('a'))).rejects.toThrow('No name resolver registered for widgets');
+  });
+});
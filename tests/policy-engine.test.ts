@@ -0,0 +1,77 @@
+// Policy Engine Tests
+// Tests for declarative per-tenant and per-access-key tool policies
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PolicyEngine, getAccessKeyFingerprint, validatePolicyDocument } from '../src/services/policy-engine.service';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+const acme = { tenantId: 'acme', accessKey: 'atk_acme-key' };
+
+describe('PolicyEngine', () => {
+  test('should allow ticket notes but deny company updates and financial entities', async () => {
+    const engine = new PolicyEngine({}, mockLogger, {
+      tenants: {
+        acme: { denyTools: ['update_company'], denyEntities: ['invoices', 'contracts'], maxPageSize: 50 }
+      }
+    });
+
+    await expect(engine.evaluate('create_ticket_note', {}, acme)).resolves.toMatchObject({ allowed: true, maxPageSize: 50 });
+
+    const update = await engine.evaluate('update_company', {}, acme);
+    expect(update).toMatchObject({ allowed: false, reason: 'Denied by tenant acme policy: tool "update_company" is denied' });
+
+    expect((await engine.evaluate('search_invoices', {}, acme)).allowed).toBe(false);
+    expect((await engine.evaluate('query_entity', { entity: 'Contracts' }, acme)).allowed).toBe(false);
+    expect((await engine.evaluate('query_entity', { entity: 'tickets' }, acme)).allowed).toBe(true);
+
+    // Other tenants are unaffected
+    expect((await engine.evaluate('update_company', {}, { tenantId: 'globex' })).allowed).toBe(true);
+  });
+
+  test('should layer default, tenant and access key policies', async () => {
+    const engine = new PolicyEngine({}, mockLogger, {
+      default: { allowTools: ['search_*', 'get_*', 'create_ticket_note'], maxPageSize: 200 },
+      accessKeys: { [getAccessKeyFingerprint(acme.accessKey)]: { allowEntities: ['tickets'], maxPageSize: 25 } }
+    });
+
+    await expect(engine.evaluate('search_tickets', {}, acme)).resolves.toMatchObject({ allowed: true, maxPageSize: 25 });
+    expect((await engine.evaluate('search_companies', {}, acme)).reason).toContain('is not in the allowed entities');
+    expect((await engine.evaluate('create_ticket', {}, acme)).reason).toContain('Denied by default policy');
+
+    const tools = await engine.filterTools([{ name: 'search_tickets' }, { name: 'update_ticket' }, { name: 'get_entity' }], acme);
+    expect(tools.map(tool => tool.name)).toEqual(['search_tickets', 'get_entity']);
+  });
+
+  test('should key raw-credential callers by API user, not by the tenantId they send', async () => {
+    const engine = new PolicyEngine({}, mockLogger, {
+      tenants: { acme: { denyTools: ['update_company'] } },
+      apiUsers: { 'API@acme.example': { denyTools: ['update_company'] } }
+    });
+    const credentials = { username: 'api@acme.example', secret: 'secret', integrationCode: 'ACME' };
+
+    const asAcme = await engine.evaluate('update_company', {}, { tenantId: 'acme', credentials });
+    expect(asAcme).toMatchObject({ allowed: false, appliedPolicies: ['API user api@acme.example'] });
+    expect((await engine.evaluate('update_company', {}, { tenantId: 'globex', credentials })).allowed).toBe(false);
+    expect((await engine.evaluate('update_company', {}, acme)).allowed).toBe(false);
+  });
+
+  test('should reload the policy file and fail closed when it is unreadable', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tool-policy-'));
+    const policyPath = path.join(dir, 'policy.json');
+    try {
+      const engine = new PolicyEngine({ path: policyPath }, mockLogger);
+      expect((await engine.evaluate('search_tickets', {}, acme)).reason).toContain('Tool policy unavailable');
+
+      await fs.writeFile(policyPath, JSON.stringify({ tenants: { acme: { denyTools: ['search_tickets'] } } }));
+      expect((await engine.evaluate('search_tickets', {}, acme)).allowed).toBe(false);
+
+      expect(() => validatePolicyDocument({ default: { denyTool: ['x'] } } as any)).toThrow('unknown rule "denyTool"');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
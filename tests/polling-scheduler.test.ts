@@ -0,0 +1,32 @@
+// Polling Scheduler Tests
+// Tests for adaptive polling intervals
+
+import { getNextPollingInterval, PollingIntervalInput } from '../src/http/polling-scheduler';
+
+describe('getNextPollingInterval', () => {
+  const base: PollingIntervalInput = {
+    baseIntervalMs: 30000,
+    minIntervalMs: 10000,
+    maxIntervalMs: 120000,
+    currentIntervalMs: 30000,
+    idleCycles: 0,
+    changes: 2,
+    backlog: false
+  };
+
+  test('should back off when idle and speed up after bursts, within bounds', () => {
+    expect(getNextPollingInterval({ ...base, changes: 0, idleCycles: 2 })).toEqual({ intervalMs: 30000, reason: 'base' });
+    expect(getNextPollingInterval({ ...base, changes: 0, idleCycles: 3 })).toEqual({ intervalMs: 45000, reason: 'idle' });
+    expect(getNextPollingInterval({ ...base, changes: 0, idleCycles: 9, currentIntervalMs: 100000 })).toEqual({ intervalMs: 120000, reason: 'idle' });
+
+    expect(getNextPollingInterval({ ...base, changes: 25 })).toEqual({ intervalMs: 15000, reason: 'burst' });
+    expect(getNextPollingInterval({ ...base, backlog: true, currentIntervalMs: 15000 })).toEqual({ intervalMs: 10000, reason: 'burst' });
+    expect(getNextPollingInterval({ ...base, currentIntervalMs: 90000 })).toEqual({ intervalMs: 30000, reason: 'base' });
+  });
+
+  test('should slow down as the hourly budget runs low, even during bursts', () => {
+    expect(getNextPollingInterval({ ...base, budgetUsed: 0.4 })).toEqual({ intervalMs: 30000, reason: 'base' });
+    expect(getNextPollingInterval({ ...base, changes: 25, budgetUsed: 0.6 })).toEqual({ intervalMs: 60000, reason: 'budget' });
+    expect(getNextPollingInterval({ ...base, budgetUsed: 0.95 })).toEqual({ intervalMs: 120000, reason: 'budget' });
+  });
+});
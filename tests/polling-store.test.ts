@@ -0,0 +1,92 @@
+// Polling Store Tests
+// Tests for restoring SSE polling sessions after a restart
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PollingStore } from '../src/http/polling-store';
+import { SseManager } from '../src/http/sse-manager';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+const tenant = { tenantId: 'tenant-a', username: 'api-user@example.com', secret: 'super-secret', integrationCode: 'INTEGRATION' };
+
+function createBridge(pages: Array<Record<string, any>[]>): any {
+  return {
+    onRateLimitWarning: jest.fn(),
+    getTenantKey: jest.fn(() => 'key-tenant-a'),
+    getCircuitState: jest.fn().mockResolvedValue({ state: 'closed' }),
+    callTool: jest.fn(async () => {
+      const body = { since: '2025-01-01T00:00:00.000Z', nextWatermark: '2025-01-02T00:00:00.000Z', hasMore: false, items: pages.shift() };
+      return { success: true, data: [{ type: 'text', text: JSON.stringify(body) }] };
+    })
+  };
+}
+
+function recordEvents(manager: SseManager): string[] {
+  const events: string[] = [];
+  jest.spyOn(manager, 'broadcast').mockImplementation(message => {
+    events.push(message.event!);
+    return 1;
+  });
+  return events;
+}
+
+describe('PollingStore', () => {
+  let dir: string;
+  let storePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'polling-store-'));
+    storePath = path.join(dir, 'polling-sessions.enc.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should restore sessions with their pollIds without reporting seen records as created', async () => {
+    const before = new SseManager(createBridge([[{ id: 7, status: 1, dueDateTime: null, lastActivityDate: '2025-01-01T12:00:00Z', _changeType: 'created' }]]), mockLogger, {
+      pollingStore: new PollingStore({ storePath, encryptionKey: 'test-key' }, mockLogger)
+    });
+    const beforeEvents = recordEvents(before);
+    const pollId = await before.startPolling(tenant, 60000, {}, 'consumer-1');
+    await (before as any).executePoll(pollId, tenant);
+    await before.flushPollingSessions();
+    before.destroy();
+    expect(beforeEvents).toContain('ticket-created');
+    expect(await fs.readFile(storePath, 'utf8')).not.toContain('super-secret');
+    const [stored] = await new PollingStore({ storePath, encryptionKey: 'test-key' }, mockLogger).load();
+    expect(stored!.feeds.tickets!.snapshot).toEqual([{ id: 7, status: 1 }]);
+
+    const after = new SseManager(createBridge([[{ id: 7, status: 1, _changeType: 'updated' }], [{ id: 7, status: 8, _changeType: 'updated' }]]), mockLogger, {
+      pollingStore: new PollingStore({ storePath, encryptionKey: 'test-key' }, mockLogger)
+    });
+    const afterEvents = recordEvents(after);
+    try {
+      expect(await after.restorePollingSessions()).toBe(1);
+      expect(after.getPollingSession(pollId)).toMatchObject({ pollCount: 1, consumers: new Set(['consumer-1']) });
+
+      await (after as any).executePoll(pollId, tenant);
+      expect(afterEvents).toEqual([]);
+      await (after as any).executePoll(pollId, tenant);
+      expect(afterEvents).toEqual(['ticket-updated', 'ticket-status-changed']);
+    } finally {
+      await after.flushPollingSessions();
+      after.destroy();
+    }
+
+    const expired = new SseManager(createBridge([]), mockLogger, {
+      pollingStore: new PollingStore({ storePath, encryptionKey: 'test-key' }, mockLogger),
+      pollingSessionTtlMs: -1
+    });
+    try {
+      expect(await expired.restorePollingSessions()).toBe(0);
+      await expired.flushPollingSessions();
+      expect(await new PollingStore({ storePath, encryptionKey: 'test-key' }, mockLogger).load()).toEqual([]);
+    } finally {
+      expired.destroy();
+    }
+  });
+});
@@ -0,0 +1,81 @@
+// Query Filter Tests
+// Tests for validating Autotask filter trees against entity field definitions
+
+import { validateQuery, InvalidFilterError } from '../src/services/query-filter.service';
+import { AutotaskFieldInfo } from '../src/types/autotask';
+
+const field = (name: string, dataType: string, isQueryable: boolean, isUdf = false): AutotaskFieldInfo => ({
+  name, dataType, isQueryable, isUdf, isRequired: false, isReadOnly: false, isPickList: false
+});
+
+const fields: AutotaskFieldInfo[] = [
+  field('id', 'long', true),
+  field('title', 'string', true),
+  field('status', 'integer', true),
+  field('priority', 'integer', true),
+  field('description', 'string', false),
+  field('Contract Tier', 'string', true, true)
+];
+
+describe('validateQuery', () => {
+  test('should accept nested and/or groups and UDF conditions, normalizing names', () => {
+    const result = validateQuery('Tickets', [
+      { op: 'OR', items: [
+        { op: 'eq', field: 'Status', value: 1 },
+        { op: 'and', items: [
+          { op: 'gte', field: 'priority', value: 3 },
+          { op: 'beginswith', field: 'title', value: 'Printer' }
+        ] }
+      ] },
+      { op: 'eq', field: 'contract tier', value: 'Gold', udf: true },
+      { op: 'notExist', field: 'title' }
+    ], ['ID', 'title'], fields);
+
+    expect(result).toEqual({
+      filter: [
+        { op: 'or', items: [
+          { op: 'eq', field: 'status', value: 1 },
+          { op: 'and', items: [
+            { op: 'gte', field: 'priority', value: 3 },
+            { op: 'beginsWith', field: 'title', value: 'Printer' }
+          ] }
+        ] },
+        { op: 'eq', field: 'Contract Tier', value: 'Gold', udf: true },
+        { op: 'notExist', field: 'title' }
+      ],
+      includeFields: ['id', 'title']
+    });
+  });
+
+  test('should report every problem in one error', () => {
+    let error: InvalidFilterError | undefined;
+    try {
+      validateQuery('Tickets', [
+        { op: 'eq', field: 'colour', value: 'red' },
+        { op: 'contains', field: 'status', value: '1' },
+        { op: 'or', items: [{ op: 'in', field: 'priority', value: [] }] },
+        { op: 'eq', field: 'Contract Tier', value: 'Gold' },
+        { op: 'like', field: 'title', value: 'x' },
+        { op: 'eq', field: 'description', value: 'x' }
+      ], ['nope'], fields);
+    } catch (e) {
+      error = e as InvalidFilterError;
+    }
+
+    expect(error).toBeInstanceOf(InvalidFilterError);
+    expect(error!.issues).toEqual([
+      'filter[0] refers to unknown field "colour" on Tickets',
+      'filter[1] uses "contains" on integer field "status"',
+      'filter[2].items[0] "in" needs a non-empty array value',
+      'filter[3] refers to unknown field "Contract Tier" on Tickets - it is a user-defined field, add "udf": true',
+      'filter[4] has unknown operator "like" (use and, or, eq, noteq, gt, gte, lt, lte, beginsWith, endsWith, contains, exist, notExist, in, notIn)',
+      'filter[5] field "description" cannot be used in a Tickets filter',
+      'includeFields refers to unknown field "nope" on Tickets'
+    ]);
+  });
+
+  test('should reject empty filters and empty groups', () => {
+    expect(() => validateQuery('Tickets', [], undefined, fields)).toThrow('filter needs at least one condition');
+    expect(() => validateQuery('Tickets', { op: 'and', items: [] }, undefined, fields)).toThrow('filter[0] is an "and" group without items');
+  });
+});
@@ -0,0 +1,75 @@
+// Rate Limiter Tests
+// Tests for the per-tenant token bucket and concurrency governor
+
+import { RateLimiter, RateLimitError } from '../src/services/rate-limiter.service';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+describe('RateLimiter', () => {
+  test('should limit concurrent calls per endpoint', async () => {
+    const limiter = new RateLimiter({ maxConcurrentPerEndpoint: 1 }, mockLogger);
+    const order: string[] = [];
+
+    const releaseFirst = await limiter.acquire('tenant-a', 'Tickets');
+    const second = limiter.acquire('tenant-a', 'Tickets').then(release => {
+      order.push('second');
+      return release;
+    });
+    const releaseOther = await limiter.acquire('tenant-a', 'Companies');
+    order.push('other endpoint');
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(order).toEqual(['other endpoint']);
+
+    releaseFirst();
+    (await second)();
+    releaseOther();
+    expect(order).toEqual(['other endpoint', 'second']);
+  });
+
+  test('should serve queued tenants round-robin', async () => {
+    const limiter = new RateLimiter({ maxConcurrentTotal: 1 }, mockLogger);
+    const order: string[] = [];
+
+    const releaseFirst = await limiter.acquire('tenant-a', 'Tickets');
+    const queued = [
+      limiter.acquire('tenant-a', 'Tickets').then(release => { order.push('a2'); release(); }),
+      limiter.acquire('tenant-a', 'Tickets').then(release => { order.push('a3'); release(); }),
+      limiter.acquire('tenant-b', 'Tickets').then(release => { order.push('b1'); release(); })
+    ];
+
+    releaseFirst();
+    await Promise.all(queued);
+    expect(order).toEqual(['a2', 'b1', 'a3']);
+  });
+
+  test('should reject with a retry hint when the hourly budget is spent', async () => {
+    const limiter = new RateLimiter({ hourlyLimit: 2, maxQueueWaitMs: 1000 }, mockLogger);
+
+    (await limiter.acquire('tenant-a', 'Tickets', 'acme'))();
+    (await limiter.acquire('tenant-a', 'Tickets', 'acme'))();
+
+    const error = await limiter.acquire('tenant-a', 'Tickets', 'acme').catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.reason).toBe('hourly-budget');
+    expect(error.retryAfterMs).toBeGreaterThan(60 * 60 * 1000 / 2 - 1000);
+    expect(error.message).toMatch(/Retry after \d+s/);
+
+    // Other tenants keep their own budget
+    await expect(limiter.acquire('tenant-b', 'Tickets')).resolves.toBeInstanceOf(Function);
+  });
+
+  test('should warn once when usage crosses the threshold', async () => {
+    const limiter = new RateLimiter({ hourlyLimit: 10, warningThreshold: 0.5 }, mockLogger);
+    const warnings: Array<{ tenantId: string; used: number; limit: number }> = [];
+    limiter.onWarning(warning => warnings.push(warning));
+
+    for (let i = 0; i < 7; i++) {
+      (await limiter.acquire('tenant-a', 'Tickets', 'acme'))();
+    }
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ tenantId: 'acme', used: 5, limit: 10 });
+  });
+});
@@ -0,0 +1,65 @@
+// Session Authentication Tests
+// Tests for binding tenants to SSE sessions via session tokens and registry access keys
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SessionAuthenticator, SessionAuthError } from '../src/services/session-auth.service';
+import { TenantRegistry } from '../src/services/tenant-registry.service';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+const credentials = {
+  username: 'api-user@example.com',
+  secret: 'super-secret',
+  integrationCode: 'INTEGRATION'
+};
+
+const basic = (tenantId: string, accessKey: string) => `Basic ${Buffer.from(`${tenantId}:${accessKey}`).toString('base64')}`;
+
+describe('SessionAuthenticator', () => {
+  test('should exchange credentials for a session token', async () => {
+    const auth = new SessionAuthenticator({}, null, mockLogger);
+    const { token, tenantId, mode } = await auth.issueToken({ ...credentials, tenantId: 'acme' });
+
+    expect(tenantId).toBe('acme');
+    expect(mode).toBe('write');
+
+    const session = await auth.authenticate(`Bearer ${token}`);
+    expect(session).toMatchObject({ tenantId: 'acme', mode: 'write', tenant: { username: credentials.username } });
+
+    // A session can narrow itself to read-only, never widen
+    expect((await auth.authenticate(`Bearer ${token}`, 'read'))?.tenant.mode).toBe('read');
+
+    await expect(auth.authenticate(undefined)).resolves.toBeUndefined();
+    await expect(auth.authenticate('Bearer ats_unknown')).rejects.toThrow(SessionAuthError);
+    await expect(auth.issueToken({ username: 'api-user@example.com' })).rejects.toThrow(SessionAuthError);
+  });
+
+  test('should reject expired session tokens', async () => {
+    const auth = new SessionAuthenticator({ tokenTtlMs: 0 }, null, mockLogger);
+    const { token } = await auth.issueToken(credentials);
+
+    await expect(auth.authenticate(`Bearer ${token}`)).rejects.toThrow('Invalid or expired session token');
+  });
+
+  test('should verify registry tenants with Basic authorization', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'session-auth-'));
+    try {
+      const registry = new TenantRegistry({ storePath: path.join(dir, 'tenants.enc.json'), encryptionKey: 'test-key' }, mockLogger);
+      const { accessKey } = await registry.createTenant({ tenantId: 'acme', credentials });
+      const auth = new SessionAuthenticator({ perCallTenant: 'forbid' }, registry, mockLogger);
+
+      const session = await auth.authenticate(basic('acme', accessKey));
+      expect(session?.tenant).toEqual({ tenantId: 'acme', accessKey, mode: 'write' });
+      expect(auth.perCallTenant).toBe('forbid');
+
+      await expect(auth.authenticate(basic('acme', 'atk_wrong'))).rejects.toThrow('Invalid tenant ID or access key');
+      await expect(new SessionAuthenticator({}, null, mockLogger).authenticate(basic('acme', accessKey)))
+        .rejects.toThrow('Tenant registry is not configured');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
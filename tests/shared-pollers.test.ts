@@ -0,0 +1,45 @@
+// Shared Poller Tests
+// Tests for deduplicating identical polling sessions per tenant
+
+import { SseManager } from '../src/http/sse-manager';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+describe('SseManager shared pollers', () => {
+  test('should share one poller per tenant and config until the last consumer leaves', async () => {
+    const bridge: any = {
+      onRateLimitWarning: jest.fn(),
+      getTenantKey: jest.fn((tenant: any) => `key-${tenant.tenantId}`)
+    };
+    const manager = new SseManager(bridge, mockLogger);
+    const response: any = { writeHead: jest.fn(), write: jest.fn(), on: jest.fn(), end: jest.fn() };
+
+    try {
+      manager.addClient('dashboard-1', response, 'tenant-a');
+      const first = await manager.startPolling({ tenantId: 'tenant-a' }, 60000,
+        { entities: ['tickets', 'companies'], filters: { status: [8, 1] } }, 'dashboard-1');
+      const second = await manager.startPolling({ tenantId: 'tenant-a' }, 60000,
+        { entities: ['companies', 'tickets'], filters: { status: [1, 8] } }, 'dashboard-2');
+      const otherTenant = await manager.startPolling({ tenantId: 'tenant-b' }, 60000,
+        { entities: ['tickets', 'companies'], filters: { status: [1, 8] } }, 'dashboard-3');
+      const otherInterval = await manager.startPolling({ tenantId: 'tenant-a' }, 30000,
+        { entities: ['tickets', 'companies'], filters: { status: [1, 8] } }, 'dashboard-4');
+
+      expect(second).toBe(first);
+      expect(otherTenant).not.toBe(first);
+      expect(otherInterval).not.toBe(first);
+      expect(manager.getStats()).toMatchObject({ totalPollingSessions: 3, totalPollingConsumers: 4 });
+      expect(manager.getStats().pollingSessions.find(session => session.pollId === first).consumers).toBe(2);
+
+      manager.removeClient('dashboard-1');
+      expect(manager.getPollingSession(first)!.consumers).toEqual(new Set(['dashboard-2']));
+
+      expect(manager.releasePolling(first, 'dashboard-2')).toBe(true);
+      expect(manager.getPollingSession(first)).toBeUndefined();
+      expect(manager.releasePolling(first, 'dashboard-2')).toBe(false);
+    } finally {
+      manager.destroy();
+    }
+  });
+});
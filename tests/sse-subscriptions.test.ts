@@ -0,0 +1,51 @@
+// SSE Subscription Tests
+// Tests for delivering events by event type and record conditions
+
+import { SseManager } from '../src/http/sse-manager';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+function connect(manager: SseManager, clientId: string): string[] {
+  const events: string[] = [];
+  const response: any = {
+    writeHead: jest.fn(),
+    write: jest.fn((chunk: string) => events.push(/event: (.*)\n/.exec(chunk)![1])),
+    on: jest.fn(),
+    end: jest.fn()
+  };
+  manager.addClient(clientId, response, 'tenant-a');
+  events.length = 0;
+  return events;
+}
+
+describe('SseManager subscriptions', () => {
+  test('should only deliver subscribed event types for matching records', () => {
+    const bridge: any = { onRateLimitWarning: jest.fn() };
+    const manager = new SseManager(bridge, mockLogger);
+
+    try {
+      const everything = connect(manager, 'client-all');
+      const company42 = connect(manager, 'client-42');
+      const subscription = manager.subscribe('client-42', ['ticket-created', 'ticket-assigned'], { companyID: 42 })!;
+      manager.subscribe('client-42', [], { assignedResourceID: [7, 9] });
+      expect(() => manager.subscribe('client-42', 'ticket-created' as any)).toThrow('events must be an array');
+      company42.length = 0;
+
+      manager.broadcast({ event: 'ticket-created', data: {} }, 'tenant-a', { id: 1, companyID: 42 });
+      manager.broadcast({ event: 'ticket-created', data: {} }, 'tenant-a', { id: 2, companyID: 5 });
+      manager.broadcast({ event: 'ticket-updated', data: {} }, 'tenant-a', { id: 3, companyID: 42 });
+      manager.broadcast({ event: 'ticket-updated', data: {} }, 'tenant-a', { id: 4, companyID: 5, assignedResourceID: 9 });
+      manager.broadcast({ event: 'polling-health', data: { pollId: 'poll_1' } }, 'tenant-a');
+
+      expect(everything).toHaveLength(5);
+      expect(company42).toEqual(['ticket-created', 'ticket-updated']);
+
+      expect(manager.unsubscribe('client-42', subscription.id)).toBe(true);
+      expect(manager.getSubscriptions('client-42')!.map(sub => sub.where)).toEqual([{ assignedResourceID: [7, 9] }]);
+      expect(manager.unsubscribe('client-42', subscription.id)).toBe(false);
+    } finally {
+      manager.destroy();
+    }
+  });
+});
@@ -0,0 +1,79 @@
+// Tenant Registry Tests
+// Tests for the encrypted tenant credential store
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { TenantRegistry } from '../src/services/tenant-registry.service';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+const credentials = {
+  username: 'api-user@example.com',
+  secret: 'super-secret',
+  integrationCode: 'INTEGRATION'
+};
+
+describe('TenantRegistry', () => {
+  let dir: string;
+  let storePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tenant-registry-'));
+    storePath = path.join(dir, 'tenants.enc.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should resolve credentials with a valid access key', async () => {
+    const registry = new TenantRegistry({ storePath, encryptionKey: 'test-key' }, mockLogger);
+    const { tenant, accessKey } = await registry.createTenant({ tenantId: 'acme', credentials });
+
+    expect(tenant).not.toHaveProperty('secret');
+    await expect(registry.resolveCredentials('acme', accessKey)).resolves.toEqual(credentials);
+    await expect(registry.resolveCredentials('acme', 'atk_wrong')).rejects.toThrow('Invalid tenant ID or access key');
+  });
+
+  test('should not store secrets in plain text', async () => {
+    const registry = new TenantRegistry({ storePath, encryptionKey: 'test-key' }, mockLogger);
+    const { accessKey } = await registry.createTenant({ tenantId: 'acme', credentials });
+
+    const raw = await fs.readFile(storePath, 'utf8');
+    expect(raw).not.toContain(credentials.secret);
+    expect(raw).not.toContain(accessKey);
+
+    const wrongKey = new TenantRegistry({ storePath, encryptionKey: 'other-key' }, mockLogger);
+    await expect(wrongKey.listTenants()).rejects.toThrow('Failed to decrypt tenant registry');
+  });
+
+  test('should invalidate the old key on rotation', async () => {
+    const registry = new TenantRegistry({ storePath, encryptionKey: 'test-key' }, mockLogger);
+    const { accessKey: oldKey } = await registry.createTenant({ tenantId: 'acme', credentials });
+    const { accessKey: newKey } = await registry.rotateTenant('acme');
+
+    await expect(registry.resolveCredentials('acme', oldKey)).rejects.toThrow();
+    await expect(registry.resolveCredentials('acme', newKey)).resolves.toEqual(credentials);
+  });
+
+  test('should reject disabled and deleted tenants', async () => {
+    const registry = new TenantRegistry({ storePath, encryptionKey: 'test-key' }, mockLogger);
+    const { accessKey } = await registry.createTenant({ tenantId: 'acme', credentials });
+
+    await registry.setTenantStatus('acme', 'disabled');
+    await expect(registry.resolveCredentials('acme', accessKey)).rejects.toThrow('Tenant acme is disabled');
+
+    expect(await registry.deleteTenant('acme')).toBe(true);
+    await expect(registry.resolveCredentials('acme', accessKey)).rejects.toThrow('Invalid tenant ID or access key');
+  });
+
+  test('should pick up changes made by another instance', async () => {
+    const writer = new TenantRegistry({ storePath, encryptionKey: 'test-key' }, mockLogger);
+    const reader = new TenantRegistry({ storePath, encryptionKey: 'test-key' }, mockLogger);
+    const { accessKey } = await writer.createTenant({ tenantId: 'acme', credentials });
+
+    await expect(reader.resolveCredentials('acme', accessKey)).resolves.toEqual(credentials);
+  });
+});
@@ -0,0 +1,143 @@
+// Zone Resolver Tests
+// Runs zone discovery against a local fake zoneInformation endpoint
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ZoneResolver, normalizeApiUrl } from '../src/services/zone-resolver.service';
+import { AutotaskService } from '../src/services/autotask.service';
+import { McpServerConfig } from '../src/types/mcp';
+import { Logger } from '../src/utils/logger';
+
+const mockLogger = new Logger('error');
+
+describe('ZoneResolver', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: string[];
+  let companyStatus: number;
+  let dir: string;
+
+  beforeAll(async () => {
+    // Fake Autotask: zoneInformation plus a Companies endpoint in the "discovered" zone
+    server = http.createServer((req, res) => {
+      requests.push(req.url || '');
+      if (req.url?.includes('zoneInformation?user=slow')) {
+        setTimeout(() => res.end('{}'), 500);
+      } else if (req.url?.includes('zoneInformation?user=unknown')) {
+        res.writeHead(404);
+        res.end();
+      } else if (req.url?.startsWith('/ATServicesRest/v1.0/zoneInformation')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ url: `${baseUrl}/zone5/ATServicesRest/`, webUrl: 'https://ww5.autotask.net/' }));
+      } else if (req.url?.startsWith('/zone5/ATServicesRest/V1.0/Companies/')) {
+        res.writeHead(companyStatus, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(companyStatus === 200 ? { item: { id: 1, companyName: 'Acme' } } : { errors: [] }));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    companyStatus = 200;
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zone-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const zoneLookups = () => requests.filter(url => url.includes('zoneInformation')).length;
+
+  test('should prefer an explicit apiUrl without discovery', async () => {
+    const resolver = new ZoneResolver({ discoveryUrl: `${baseUrl}/ATServicesRest/` }, mockLogger);
+
+    const zone = await resolver.resolve('api-user@example.com', 'https://webservices14.autotask.net/ATServicesRest/V1.0/');
+
+    expect(zone).toEqual({ url: 'https://webservices14.autotask.net/ATServicesRest/', source: 'explicit' });
+    expect(zoneLookups()).toBe(0);
+  });
+
+  test('should discover once per username and cache the zone', async () => {
+    const resolver = new ZoneResolver({ discoveryUrl: `${baseUrl}/ATServicesRest/` }, mockLogger);
+
+    const [first, second] = await Promise.all([
+      resolver.resolve('api-user@example.com'),
+      resolver.resolve('API-User@example.com')
+    ]);
+    const third = await resolver.resolve('api-user@example.com');
+
+    expect(first).toMatchObject({ url: `${baseUrl}/zone5/ATServicesRest/`, source: 'discovered' });
+    expect(second.url).toBe(first.url);
+    expect(third.source).toBe('cache');
+    expect(zoneLookups()).toBe(1);
+
+    await resolver.invalidate('api-user@example.com');
+    expect((await resolver.resolve('api-user@example.com')).source).toBe('discovered');
+    expect(zoneLookups()).toBe(2);
+  });
+
+  test('should persist zones to disk and honor the TTL', async () => {
+    const cachePath = path.join(dir, 'zones.json');
+    const writer = new ZoneResolver({ discoveryUrl: `${baseUrl}/ATServicesRest/`, cachePath }, mockLogger);
+    await writer.resolve('api-user@example.com');
+
+    const raw = await fs.readFile(cachePath, 'utf8');
+    expect(raw).not.toContain('api-user@example.com');
+
+    const reader = new ZoneResolver({ discoveryUrl: `${baseUrl}/ATServicesRest/`, cachePath }, mockLogger);
+    expect((await reader.resolve('api-user@example.com')).source).toBe('cache');
+
+    const expired = new ZoneResolver({ discoveryUrl: `${baseUrl}/ATServicesRest/`, cachePath, cacheTtlMs: 0 }, mockLogger);
+    expect((await expired.resolve('api-user@example.com')).source).toBe('discovered');
+    expect(zoneLookups()).toBe(2);
+  });
+
+  test('should route service calls to the discovered zone and rediscover after a 401', async () => {
+    const config: McpServerConfig = {
+      name: 'test-server',
+      version: '1.0.0',
+      multiTenant: { enabled: true },
+      zoneDiscovery: { discoveryUrl: `${baseUrl}/ATServicesRest/` }
+    };
+    const service = new AutotaskService(config, mockLogger);
+    const tenantContext = {
+      tenantId: 'tenant-a',
+      credentials: { username: 'api-user@example.com', secret: 'secret', integrationCode: 'code' }
+    };
+
+    expect((await service.getCompany(1, tenantContext))?.companyName).toBe('Acme');
+    expect(zoneLookups()).toBe(1);
+
+    companyStatus = 401;
+    await expect(service.getCompany(1, tenantContext)).rejects.toThrow();
+    companyStatus = 200;
+    await service.getCompany(1, tenantContext);
+    expect(zoneLookups()).toBe(2);
+  });
+
+  test('should mask the username in discovery errors and time out slow lookups', async () => {
+    const resolver = new ZoneResolver({ discoveryUrl: `${baseUrl}/ATServicesRest/`, timeoutMs: 50 }, mockLogger);
+
+    const error = await resolver.resolve('unknown-user@example.com').catch((caught: Error) => caught);
+    expect((error as Error).message).toBe(`Zone discovery failed for unk***: HTTP 404 from ${baseUrl}/ATServicesRest/v1.0/zoneInformation`);
+
+    await expect(resolver.resolve('slow-user@example.com')).rejects.toThrow('Zone discovery failed for slo***: no answer within 50ms');
+  });
+
+  test('should normalize API URLs', () => {
+    expect(normalizeApiUrl('https://webservices2.autotask.net/ATServicesRest')).toBe('https://webservices2.autotask.net/ATServicesRest/');
+    expect(normalizeApiUrl('https://webservices2.autotask.net/ATServicesRest/v1.0')).toBe('https://webservices2.autotask.net/ATServicesRest/');
+  });
+});